@@ -3,6 +3,9 @@
  *
  * This example demonstrates multi-tenant functionality with
  * tenant isolation, resource ownership, and cross-tenant security.
+ *
+ * Next.js route handlers take a Web `Request`: `toFetchHandler` serves the
+ * handlers through the same pipeline as the Express routes.
  */
 
 import { z } from 'zod';
@@ -10,6 +13,7 @@ import {
   createTenantHandler,
   createAuthenticatedHandler,
 } from '../../../../../../../src/core/handler';
+import { toFetchHandler } from '../../../../../../../src/adapters';
 import { TenantManager } from '../../../../../../../src/multitenancy/manager';
 import { MonitoringService } from '../../../../../../../src/monitoring/service';
 
@@ -30,6 +34,11 @@ const UpdateProjectSchema = z.object({
   tags: z.array(z.string()).max(10).optional(),
 });
 
+// Client IP from the header the hosting proxy sets, for rate limits and audit entries
+const fetchOptions = {
+  clientIp: (request: Request) => request.headers.get('x-real-ip') ?? undefined,
+};
+
 // ============================================
 // Tenant-Scoped Routes
 // ============================================
@@ -37,7 +46,7 @@ const UpdateProjectSchema = z.object({
 /**
  * GET /api/tenants/[tenantId]/projects - List tenant projects
  */
-export const GET = createTenantHandler({
+export const GET = toFetchHandler(createTenantHandler({
   schema: z.object({
     status: z.enum(['planning', 'active', 'completed', 'archived']).optional(),
     priority: z.enum(['low', 'medium', 'high', 'urgent']).optional(),
@@ -49,9 +58,9 @@ export const GET = createTenantHandler({
   }),
   cache: {
     ttl: 300, // 5 minutes
-    keyGenerator: (req, user) => {
-      const params = req.nextUrl.searchParams as URLSearchParams;
-      return `tenant:${req.params?.tenantId}:projects:${params.toString()}`;
+    keyGenerator: (req) => {
+      const search = req.originalUrl.split('?')[1] || '';
+      return `tenant:${req.params?.tenantId}:projects:${search}`;
     },
   },
   handler: async ({ input, tenant, supabase, user }) => {
@@ -119,12 +128,12 @@ export const GET = createTenantHandler({
       },
     };
   },
-});
+}), fetchOptions);
 
 /**
  * POST /api/tenants/[tenantId]/projects - Create project
  */
-export const POST = createTenantHandler({
+export const POST = toFetchHandler(createTenantHandler({
   schema: CreateProjectSchema,
   rateLimit: {
     windowMs: 60000, // 1 minute
@@ -183,7 +192,7 @@ export const POST = createTenantHandler({
 
     return project;
   },
-});
+}), fetchOptions);
 
 // ============================================
 // Project-Specific Routes (would be in [projectId]/route.ts)
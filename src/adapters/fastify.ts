@@ -0,0 +1,63 @@
+/**
+ * Fastify Adapter
+ *
+ * Serves a handler as a Fastify route. The reply is hijacked and the handler
+ * runs on the underlying Node request and response, so the pipeline and its
+ * headers are exactly those of the Express and Node adapters.
+ *
+ * Fastify is not a dependency: the request and reply are typed by the parts
+ * the adapter uses.
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+
+import { FrameworkRequestHandler } from '../core/route-registry';
+import { NodeAdapterOptions, toNodeHandler } from './node';
+
+export interface FastifyRequestLike {
+  raw: IncomingMessage;
+  params?: unknown;
+  body?: unknown;
+  ip?: string;
+}
+
+export interface FastifyReplyLike {
+  raw: ServerResponse;
+  hijack(): void;
+}
+
+export type FastifyHandler = (request: FastifyRequestLike, reply: FastifyReplyLike) => Promise<void>;
+
+export interface FastifyAdapterOptions extends NodeAdapterOptions {
+  /**
+   * Take the client IP from Fastify's `request.ip`, which follows Fastify's
+   * own `trustProxy` (default true)
+   */
+  useFastifyIp?: boolean;
+}
+
+/**
+ * Turn a handler into a Fastify route handler
+ *
+ * Bodies Fastify has parsed are used as they are, after the handler's
+ * content-type and `Content-Length` limits are checked. To have the pipeline
+ * read the body itself, register a content-type parser that leaves the
+ * payload unread.
+ *
+ * @example
+ * fastify.post('/projects/:id/archive', toFastifyHandler(archiveProject));
+ */
+export function toFastifyHandler(handler: FrameworkRequestHandler, options: FastifyAdapterOptions = {}): FastifyHandler {
+  const { useFastifyIp = true, ...nodeOptions } = options;
+  const nodeHandler = toNodeHandler(handler, nodeOptions);
+
+  return async (request, reply) => {
+    reply.hijack();
+
+    await nodeHandler(request.raw, reply.raw, {
+      params: (request.params || {}) as Record<string, string>,
+      ...(request.body !== undefined ? { body: request.body } : {}),
+      ...(useFastifyIp && request.ip !== undefined ? { ip: request.ip } : {}),
+    });
+  };
+}
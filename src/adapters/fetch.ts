@@ -0,0 +1,191 @@
+/**
+ * Fetch Adapter
+ *
+ * Serves a handler as a Web `(Request) => Response` function, for runtimes
+ * and frameworks built on the Fetch API (Next.js route handlers, Bun, Deno,
+ * Cloudflare-style workers on Node). The request body is streamed into the
+ * pipeline and read within the handler's `limits`; streaming handlers get a
+ * streamed `Response` body with backpressure.
+ */
+
+import { Readable } from 'stream';
+import { ReadableStream as NodeReadableStream } from 'stream/web';
+import type { Request as ExpressRequest, Response as ExpressResponse } from 'express';
+
+import { createInProcessRequest, InMemoryResponse } from '../core/in-process';
+import { errorResponse } from '../core/response';
+import { FrameworkRequestHandler } from '../core/route-registry';
+
+export interface FetchAdapterOptions {
+  /**
+   * Resolve the client IP, which rate limits and audit entries are keyed by.
+   * The Fetch API does not carry one: behind a proxy you trust, read it from
+   * the header that proxy sets. Requests it returns no IP for are refused
+   * with 400, so clients never share one rate-limit bucket.
+   */
+  clientIp: (request: Request) => string | undefined;
+}
+
+export interface FetchRouteContext {
+  /** Route parameters; a promise as passed by Next.js 15 is awaited */
+  params?: Record<string, string> | Promise<Record<string, string>>;
+}
+
+export type FetchHandler = (request: Request, context?: FetchRouteContext) => Promise<Response>;
+
+// Statuses whose responses carry no body
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+// Connection-level headers the fetch runtime manages itself
+const HOP_BY_HOP_HEADERS = new Set(['connection', 'keep-alive', 'transfer-encoding']);
+
+// Chunks buffered for a slow reader before the handler waits for `drain`
+const STREAM_HIGH_WATER_MARK = 16;
+
+/**
+ * Turn a handler into a fetch handler
+ *
+ * @example
+ * // app/api/projects/[id]/route.ts
+ * export const GET = toFetchHandler(createAuthenticatedHandler({ handler: loadProject }), {
+ *   clientIp: request => request.headers.get('x-real-ip') ?? undefined,
+ * });
+ */
+export function toFetchHandler(handler: FrameworkRequestHandler, options: FetchAdapterOptions): FetchHandler {
+  return async (request, context = {}) => {
+    const url = new URL(request.url);
+    const ip = options.clientIp(request) || undefined;
+
+    const req = createInProcessRequest({
+      method: request.method,
+      url: `${url.pathname}${url.search}`,
+      headers: Object.fromEntries(request.headers),
+      params: (await context.params) || {},
+      ...(request.body ? { stream: Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>) } : {}),
+      ...(ip !== undefined ? { ip } : {}),
+    });
+    const res = new FetchResponseWriter(req);
+
+    if (ip === undefined) {
+      errorResponse(res as unknown as ExpressResponse, 'BAD_REQUEST', 'Client address could not be determined', 400);
+      return res.response;
+    }
+
+    const onAbort = () => res.close();
+    request.signal.addEventListener('abort', onAbort, { once: true });
+
+    const handled = handler(req, res as unknown as ExpressResponse).finally(() => {
+      request.signal.removeEventListener('abort', onAbort);
+    });
+
+    return Promise.race([res.response, handled.then(() => {
+      if (!res.headersSent) {
+        throw new Error(`${req.method} ${req.path} finished without sending a response`);
+      }
+      return res.response;
+    })]);
+  };
+}
+
+/**
+ * Collects what the pipeline sends into a Web `Response`: buffered for
+ * `json()`/`send()`, streamed from `flushHeaders()` on
+ */
+class FetchResponseWriter extends InMemoryResponse {
+  public headersSent = false;
+  public writableEnded = false;
+
+  /** Settles once the status and headers are final */
+  public readonly response: Promise<Response>;
+  private resolveResponse!: (response: Response) => void;
+  private controller: ReadableStreamDefaultController<Uint8Array> | undefined;
+  private closed = false;
+
+  constructor(req: ExpressRequest) {
+    super(req);
+    this.response = new Promise(resolve => {
+      this.resolveResponse = resolve;
+    });
+  }
+
+  public flushHeaders(): void {
+    if (this.headersSent) {
+      return;
+    }
+    this.headersSent = true;
+
+    const body = new ReadableStream<Uint8Array>({
+      start: controller => {
+        this.controller = controller;
+      },
+      pull: () => {
+        this.emit('drain');
+      },
+      cancel: () => this.close(),
+    }, { highWaterMark: STREAM_HIGH_WATER_MARK });
+
+    this.resolveResponse(new Response(body, { status: this.statusCode, headers: this.responseHeaders() }));
+  }
+
+  public write(chunk: string | Buffer): boolean {
+    this.flushHeaders();
+    if (this.closed || !this.controller) {
+      return false;
+    }
+    this.controller.enqueue(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    return (this.controller.desiredSize ?? 0) > 0;
+  }
+
+  /** The client went away: the pipeline sees `close` before the response finished */
+  public close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.emit('close');
+  }
+
+  protected override finish(): this {
+    this.writableEnded = true;
+    super.finish();
+
+    if (this.headersSent) {
+      if (!this.closed) {
+        this.closed = true;
+        this.controller?.close();
+      }
+      return this;
+    }
+
+    this.headersSent = true;
+    this.resolveResponse(new Response(this.bufferedBody(), { status: this.statusCode, headers: this.responseHeaders() }));
+    return this;
+  }
+
+  private bufferedBody(): string | Uint8Array<ArrayBuffer> | null {
+    if (NULL_BODY_STATUSES.has(this.statusCode) || this.body === undefined) {
+      return null;
+    }
+    if (typeof this.body === 'string') {
+      return this.body;
+    }
+    if (Buffer.isBuffer(this.body)) {
+      return new Uint8Array(this.body);
+    }
+    // json(): serialized as Express's res.json() would
+    if (!this.getHeader('Content-Type')) {
+      this.type('application/json; charset=utf-8');
+    }
+    return JSON.stringify(this.body);
+  }
+
+  private responseHeaders(): Headers {
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(this.getHeaders())) {
+      if (!HOP_BY_HOP_HEADERS.has(name)) {
+        headers.set(name, value);
+      }
+    }
+    return headers;
+  }
+}
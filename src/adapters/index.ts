@@ -0,0 +1,17 @@
+/**
+ * Framework Adapters
+ *
+ * Serve one handler definition from Express, a Node `http` server, Fastify
+ * or a Fetch API runtime. Every adapter runs the same pipeline: the handlers
+ * themselves are Express middleware, and the adapters give them an
+ * Express-compatible request and response over the native ones.
+ */
+
+export { toNodeHandler } from './node';
+export type { NodeAdapterOptions, NodeHandler, NodeRouteInput } from './node';
+
+export { toFastifyHandler } from './fastify';
+export type { FastifyAdapterOptions, FastifyHandler, FastifyReplyLike, FastifyRequestLike } from './fastify';
+
+export { toFetchHandler } from './fetch';
+export type { FetchAdapterOptions, FetchHandler, FetchRouteContext } from './fetch';
@@ -0,0 +1,71 @@
+/**
+ * Node HTTP Adapter
+ *
+ * Serves a handler from a plain `http.createServer()` listener. The raw
+ * request and response are handed to a private Express app, which gives
+ * them the `Request`/`Response` methods the pipeline calls; bodies are still
+ * read by the pipeline, within the handler's `limits`.
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import express, { Request, Response } from 'express';
+
+import { FrameworkRequestHandler } from '../core/route-registry';
+
+export interface NodeAdapterOptions {
+  /** Express's `trust proxy` setting, used to derive the client IP (default false) */
+  trustProxy?: boolean | number | string | string[];
+}
+
+export interface NodeRouteInput {
+  /** Route parameters, as matched by the caller's router */
+  params?: Record<string, string>;
+
+  /** An already parsed body; the pipeline then leaves the request stream alone */
+  body?: unknown;
+
+  /** Client IP as resolved by the caller, in place of the `trustProxy` one */
+  ip?: string;
+}
+
+export type NodeHandler = (req: IncomingMessage, res: ServerResponse, route?: NodeRouteInput) => Promise<void>;
+
+// What the caller knows about the request, carried across the Express app
+const ROUTE = Symbol('tenet.adapterRoute');
+
+interface PendingRoute extends NodeRouteInput {
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Turn a handler into an `(req, res) => Promise<void>` Node listener
+ *
+ * @example
+ * const getProject = toNodeHandler(createAuthenticatedHandler({ handler: loadProject }));
+ * http.createServer((req, res) => getProject(req, res, { params: matchRoute(req.url) })).listen(3000);
+ */
+export function toNodeHandler(handler: FrameworkRequestHandler, options: NodeAdapterOptions = {}): NodeHandler {
+  const host = express();
+  host.disable('x-powered-by');
+  host.set('trust proxy', options.trustProxy ?? false);
+
+  host.use((req: Request, res: Response) => {
+    const route = (req as any)[ROUTE] as PendingRoute;
+    req.params = route.params || {};
+    if (route.ip !== undefined) {
+      Object.defineProperty(req, 'ip', { value: route.ip, enumerable: true });
+    }
+    if (route.body !== undefined) {
+      req.body = route.body;
+      (req as any)._body = true;
+    }
+
+    handler(req, res).then(route.resolve, route.reject);
+  });
+
+  return (req, res, route = {}) => new Promise<void>((resolve, reject) => {
+    Object.defineProperty(req, ROUTE, { value: { ...route, resolve, reject }, configurable: true });
+    host(req, res);
+  });
+}
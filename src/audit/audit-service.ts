@@ -21,6 +21,7 @@ import {
     RetentionCleanupResult,
 } from './audit-types';
 import { Logger } from '../utils/logger';
+import { getRequestId } from '../core/request-context';
 
 export class AuditService {
     private static instance: AuditService;
@@ -471,7 +472,7 @@ export class AuditService {
                 if (context.request.method && !enriched.method) enriched.method = context.request.method;
                 if (context.request.path && !enriched.endpoint) enriched.endpoint = context.request.path;
 
-                const requestId = (context.request as any).id || context.traceId;
+                const requestId = getRequestId() || (context.request as any).id || context.traceId;
                 if (requestId && !enriched.requestId) enriched.requestId = requestId;
             }
 
@@ -41,6 +41,8 @@ export enum AuditStatus {
     FAILURE = 'FAILURE',
     PARTIAL = 'PARTIAL',
     PENDING = 'PENDING',
+    REQUEST_TIMEOUT = 'REQUEST_TIMEOUT',
+    CLIENT_CLOSED = 'CLIENT_CLOSED',
 }
 
 export enum AuditSeverity {
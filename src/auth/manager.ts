@@ -6,6 +6,7 @@
 
 import { Request } from 'express';
 import { AuthStrategy, User } from '../core/types';
+import { emitFrameworkEvent } from '../core/events';
 
 export interface AuthConfig {
   strategies: AuthStrategy[];
@@ -31,6 +32,14 @@ export class AuthManager {
     return AuthManager.instance;
   }
 
+  /**
+   * New instance with its own strategies, separate from the shared one
+   * (used by `createApp`)
+   */
+  public static create(): AuthManager {
+    return new AuthManager();
+  }
+
   /**
    * Register authentication strategy
    */
@@ -90,6 +99,12 @@ export class AuthManager {
             ...user.metadata,
             authStrategy: strategyName,
           };
+          emitFrameworkEvent('auth:success', {
+            userId: user.id,
+            strategy: strategyName,
+            method: request.method,
+            path: request.path,
+          });
           return user;
         }
       } catch (error) {
@@ -98,6 +113,7 @@ export class AuthManager {
       }
     }
 
+    emitFrameworkEvent('auth:failure', { strategies, method: request.method, path: request.path });
     return null;
   }
 
@@ -6,6 +6,8 @@
 
 import { RedisCache, RedisCacheConfig } from './redis';
 import { MemoryCache, MemoryCacheConfig } from './memory';
+import { raceAbort } from '../core/cancellation';
+import { emitFrameworkEvent } from '../core/events';
 
 export interface CacheManagerConfig {
   provider?: 'redis' | 'memory' | 'auto';
@@ -14,14 +16,22 @@ export interface CacheManagerConfig {
   fallbackToMemory?: boolean;
 }
 
+export interface CacheCallOptions {
+  /** Abandon the call (get) or skip it (set) once the request is cancelled */
+  signal?: AbortSignal;
+}
+
 export class CacheManager {
   private static instance: CacheManager;
   private config: CacheManagerConfig & { provider: 'redis' | 'memory' | 'auto'; fallbackToMemory: boolean };
   private redisCache?: RedisCache;
   private memoryCache?: MemoryCache;
   private primaryCache: 'redis' | 'memory' = 'memory';
+  // Whether memoryCache is this manager's own rather than the shared one
+  private ownsMemoryCache: boolean;
 
-  private constructor(config: CacheManagerConfig = {}) {
+  private constructor(config: CacheManagerConfig = {}, ownsMemoryCache = false) {
+    this.ownsMemoryCache = ownsMemoryCache;
     this.config = {
       provider: config.provider || 'auto',
       ...(config.redis && { redis: config.redis }),
@@ -39,6 +49,14 @@ export class CacheManager {
     return CacheManager.instance;
   }
 
+  /**
+   * New instance with its own memory store, separate from the shared one
+   * (used by `createApp`). Redis connections are still shared.
+   */
+  public static create(config?: CacheManagerConfig): CacheManager {
+    return new CacheManager(config, true);
+  }
+
   private initializeCaches(): void {
     // Initialize Redis cache
     if (this.config.provider === 'redis' || this.config.provider === 'auto') {
@@ -55,17 +73,34 @@ export class CacheManager {
 
     // Initialize memory cache (as fallback or primary)
     if (!this.redisCache || this.config.provider === 'memory') {
-      this.memoryCache = MemoryCache.getInstance(this.config.memory);
+      this.memoryCache = this.createMemoryCache();
       this.primaryCache = 'memory';
     } else if (this.config.fallbackToMemory) {
-      this.memoryCache = MemoryCache.getInstance(this.config.memory);
+      this.memoryCache = this.createMemoryCache();
     }
   }
 
+  private createMemoryCache(): MemoryCache {
+    return this.ownsMemoryCache
+      ? MemoryCache.create(this.config.memory)
+      : MemoryCache.getInstance(this.config.memory);
+  }
+
   /**
    * Get a value from cache
    */
-  public async get<T = any>(key: string): Promise<T | null> {
+  public async get<T = any>(key: string, options: CacheCallOptions = {}): Promise<T | null> {
+    const { signal } = options;
+    return signal ? raceAbort(this.lookup<T>(key), signal) : this.lookup<T>(key);
+  }
+
+  private async lookup<T>(key: string): Promise<T | null> {
+    const value = await this.read<T>(key);
+    emitFrameworkEvent(value !== null ? 'cache:hit' : 'cache:miss', { key });
+    return value;
+  }
+
+  private async read<T>(key: string): Promise<T | null> {
     // Try primary cache first
     if (this.primaryCache === 'redis' && this.redisCache) {
       const value = await this.redisCache.get<T>(key);
@@ -88,8 +123,14 @@ export class CacheManager {
     key: string,
     value: T,
     ttl?: number,
-    tags?: string[]
+    tags?: string[],
+    options: CacheCallOptions = {}
   ): Promise<void> {
+    // Results of cancelled requests are not cached
+    if (options.signal?.aborted) {
+      return;
+    }
+
     const promises: Promise<void>[] = [];
 
     // Set in primary cache
@@ -367,6 +408,16 @@ export class CacheManager {
     };
   }
 
+  /**
+   * Stop the timers of a memory store created by `create()`; shared stores
+   * are left running
+   */
+  public close(): void {
+    if (this.ownsMemoryCache) {
+      this.memoryCache?.stopCleanupTimer();
+    }
+  }
+
   /**
    * Force cleanup of expired entries
    */
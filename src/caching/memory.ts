@@ -35,6 +35,13 @@ export class MemoryCache {
     return MemoryCache.instance;
   }
 
+  /**
+   * New cache with its own store, separate from the shared one
+   */
+  public static create(config?: MemoryCacheConfig): MemoryCache {
+    return new MemoryCache(config);
+  }
+
   /**
    * Get a value from cache
    */
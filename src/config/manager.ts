@@ -73,6 +73,14 @@ export class ConfigManager {
         strategy: (process.env.MULTITENANCY_STRATEGY as any) || 'shared_schema',
         tenantHeader: process.env.TENANT_HEADER || 'X-Tenant-ID',
       },
+      errors: {
+        format: process.env.ERROR_FORMAT === 'problem' ? 'problem' : 'envelope',
+        ...(process.env.ERROR_TYPE_BASE_URI ? { problemTypeBaseUri: process.env.ERROR_TYPE_BASE_URI } : {}),
+      },
+      loadShedding: {
+        enabled: process.env.LOAD_SHEDDING_ENABLED !== 'false',
+        lagThresholdMs: parseInt(process.env.LOAD_SHEDDING_LAG_MS || '200', 10),
+      },
       features: {},
     };
 
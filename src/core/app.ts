@@ -0,0 +1,206 @@
+/**
+ * App Container
+ *
+ * `createApp()` owns a set of service instances and hands them to the
+ * handlers created through it, so two differently configured apps can run
+ * in one process. Handlers created with the plain factories keep using the
+ * default app: the `getInstance()` singletons registered by
+ * `ServiceInitializer.initialize()`.
+ *
+ * Load shedding stays process-wide: it reacts to event-loop lag, which every
+ * app in the process shares.
+ */
+
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+
+import { HandlerConfig, MultitenancyConfig, SanitizationConfig } from './types';
+import { ServiceInitializer } from './service-initializer';
+import {
+  createAuthenticatedHandler,
+  createPublicHandler,
+  createSuperAdminHandler,
+  createTenantHandler,
+} from './handler';
+import { StreamHandlerConfig, createStreamHandler, createTenantStreamHandler } from './stream-handler';
+import { BatchRouterOptions, createBatchRouter } from './batch';
+import { CircuitBreakerRegistry } from './circuit-breaker';
+import { HookRegistry } from './hooks';
+import { RegisteredRoute, RouteRegistry, mountRouter } from './route-registry';
+import { ServiceRegistry } from '../monitoring/types';
+import { AuthManager } from '../auth/manager';
+import { CacheManager, CacheManagerConfig } from '../caching/manager';
+import { CSRFProtection, CSRFConfig } from '../security/csrf';
+import { EncryptionOptions, EncryptionService } from '../security/encryption';
+import { IdempotencyService } from '../security/idempotency';
+import { SanitizationService } from '../security/sanitization';
+import { TenantManager } from '../multitenancy/manager';
+
+// ============================================
+// Types
+// ============================================
+
+export type AppServices = Partial<ServiceRegistry>;
+
+export interface AppOptions {
+  /**
+   * Instances to use for any service, in place of the ones the app creates
+   * or shares with the default app
+   */
+  services?: AppServices;
+
+  /** Prisma client for the app's handlers */
+  prisma?: PrismaClient;
+
+  /** Config for the app's own CacheManager */
+  cache?: CacheManagerConfig;
+
+  /** Config for the app's own CSRFProtection */
+  csrf?: CSRFConfig;
+
+  /** Gives the app its own EncryptionService; otherwise the default app's is used */
+  encryption?: EncryptionOptions;
+
+  /** Gives the app its own SanitizationService; otherwise the default app's is used */
+  sanitization?: SanitizationConfig;
+
+  /** Gives the app its own TenantManager; otherwise the default app's is used */
+  multitenancy?: MultitenancyConfig;
+}
+
+/**
+ * Runs request handling with an app's services in effect
+ */
+export interface AppScope {
+  run<T>(fn: () => T): T;
+
+  /** Routes mounted through the app */
+  readonly routes?: RouteRegistry;
+}
+
+// ============================================
+// App
+// ============================================
+
+export class TenetApp implements AppScope {
+  /**
+   * The app's own services and overrides. Services not listed here
+   * (monitoring, config, versioning, audit, rate limiting unless overridden)
+   * come from the default app.
+   */
+  public readonly services: AppServices;
+  public readonly prisma: PrismaClient | undefined;
+
+  /** Hooks run by the app's handlers, in place of the shared `HookRegistry` */
+  public readonly hooks: HookRegistry;
+
+  /** Breakers behind `ctx.breaker` in the app's handlers */
+  public readonly breakers: CircuitBreakerRegistry;
+
+  /** Routes mounted with `app.mountRouter`, which the app's batch router dispatches to */
+  public readonly routes: RouteRegistry = RouteRegistry.create();
+
+  private readonly ownCache: CacheManager | undefined;
+
+  constructor(options: AppOptions = {}) {
+    const overrides = options.services || {};
+    this.ownCache = overrides.cacheManager ? undefined : CacheManager.create(options.cache);
+    const cacheManager = overrides.cacheManager || this.ownCache;
+
+    this.services = {
+      authManager: AuthManager.create(),
+      cacheManager,
+      csrfProtection: CSRFProtection.create(options.csrf, cacheManager),
+      idempotencyService: IdempotencyService.create(cacheManager),
+      circuitBreakers: CircuitBreakerRegistry.create(),
+      hookRegistry: HookRegistry.create(),
+      ...(options.encryption ? { encryptionService: EncryptionService.create(options.encryption) } : {}),
+      ...(options.sanitization ? { sanitizationService: SanitizationService.create(options.sanitization) } : {}),
+      ...(options.multitenancy ? { tenantManager: TenantManager.create(options.multitenancy) } : {}),
+      ...(options.prisma ? { prisma: options.prisma } : {}),
+      ...overrides,
+    };
+    this.prisma = options.prisma;
+    this.hooks = this.services.hookRegistry;
+    this.breakers = this.services.circuitBreakers;
+  }
+
+  /**
+   * Run `fn` with this app's services in effect. Services the app does not
+   * have are taken from the enclosing scope (the default app, or the
+   * services of `@tenet/api/testing`).
+   */
+  public run<T>(fn: () => T): T {
+    return ServiceInitializer.runWithServices({ ...ServiceInitializer.peekServices(), ...this.services }, fn);
+  }
+
+  // Handler factories bound to this app
+
+  public readonly createPublicHandler = <TInput, TOutput>(
+    config: Omit<HandlerConfig<TInput, TOutput>, 'requireAuth' | 'preset'>
+  ) => createPublicHandler(config, this.prisma, this);
+
+  public readonly createAuthenticatedHandler = <TInput, TOutput>(
+    config: Omit<HandlerConfig<TInput, TOutput>, 'requireAuth' | 'preset'>
+  ) => createAuthenticatedHandler(config, this.prisma, this);
+
+  public readonly createTenantHandler = <TInput, TOutput>(
+    config: Omit<HandlerConfig<TInput, TOutput>, 'requireAuth'>
+  ) => createTenantHandler(config, this.prisma, this);
+
+  public readonly createSuperAdminHandler = <TInput, TOutput>(
+    config: Omit<HandlerConfig<TInput, TOutput>, 'requireAuth' | 'allowedRoles'>
+  ) => createSuperAdminHandler(config, this.prisma, this);
+
+  public readonly createStreamHandler = <TInput, TEvent>(
+    config: StreamHandlerConfig<TInput, TEvent>
+  ) => createStreamHandler(config, this.prisma, this);
+
+  public readonly createTenantStreamHandler = <TInput, TEvent>(
+    config: Omit<StreamHandlerConfig<TInput, TEvent>, 'requireAuth'>
+  ) => createTenantStreamHandler(config, this.prisma, this);
+
+  public readonly createBatchRouter = (options: Omit<BatchRouterOptions, 'app'> = {}) =>
+    createBatchRouter({ ...options, app: this });
+
+  /**
+   * Mount a router and record its handlers in the app's route registry.
+   * Pass `app.routes.getRoutes()` to `generateOpenApiDocument`,
+   * `describeSecurityPosture` or `enforceSecurityPolicies` to cover them.
+   */
+  public mountRouter(
+    parent: { use: (path: string, router: Router) => unknown },
+    basePath: string,
+    router: Router
+  ): RegisteredRoute[] {
+    return mountRouter(parent, basePath, router, this.routes);
+  }
+
+  /**
+   * Stop the timers of the services the app created. Shared services are
+   * shut down by `ServiceInitializer.shutdown()`.
+   */
+  public shutdown(): void {
+    this.ownCache?.close();
+  }
+}
+
+/**
+ * Create an app with its own services: auth strategies, cache, CSRF and
+ * idempotency stores, circuit breakers, global hooks and route registry,
+ * plus encryption, sanitization and tenancy when configured. Monitoring,
+ * config, versioning, audit and rate limiting are shared with the default
+ * app unless given in `services`; load shedding is always process-wide.
+ *
+ * @example
+ * const app = createApp({
+ *   cache: { provider: 'memory' },
+ *   services: { auditService: new AuditSink() },
+ * });
+ * app.services.authManager.registerStrategy(new JWTStrategy(secret));
+ *
+ * router.get('/projects', app.createAuthenticatedHandler({ handler: listProjects }));
+ */
+export function createApp(options: AppOptions = {}): TenetApp {
+  return new TenetApp(options);
+}
@@ -0,0 +1,470 @@
+/**
+ * Batch Requests
+ *
+ * One HTTP call carrying several sub-requests, each dispatched in-process to
+ * the framework handler registered for its method and path. Every
+ * sub-request runs its handler's full pipeline (rate limiting, CSRF, audit);
+ * only authentication is done once for the whole batch.
+ */
+
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+
+import { User } from './types';
+import {
+  successResponse,
+  errorResponse,
+  validationErrorResponse,
+  unauthorizedResponse,
+  notFoundResponse,
+  internalErrorResponse,
+} from './response';
+import { RouteRegistry, RegisteredRoute } from './route-registry';
+import { BATCH_AUTHENTICATED_USER, getRequiredServices, readRequestBody, sanitizeErrorMessage } from './pipeline';
+import { runWithRequestContext } from './request-context';
+import type { AppScope } from './app';
+import { InMemoryResponse, parseQuery } from './in-process';
+import { AuthManager } from '../auth/manager';
+
+// ============================================
+// Types
+// ============================================
+
+export interface BatchRouterOptions {
+  /** Path the batch endpoint is served from */
+  path?: string;
+
+  /** Maximum number of sub-requests per batch */
+  maxBatchSize?: number;
+
+  /** Sub-requests dispatched at the same time */
+  concurrency?: number;
+
+  /**
+   * Authenticate the batch request once and run every sub-request as that
+   * user; sub-requests cannot change the identity
+   */
+  requireAuth?: boolean;
+
+  /**
+   * Strategies used for the batch authentication. Sub-requests to handlers
+   * whose `authStrategies` do not include the one that succeeded get 401.
+   */
+  authStrategies?: string[];
+
+  /**
+   * Headers sub-requests may not set, on top of the built-in credential,
+   * tenant and client address headers: a custom API key or tenant header
+   */
+  protectedHeaders?: string[];
+
+  /**
+   * Routes sub-requests may target (defaults to every route in the app's
+   * RouteRegistry, or the shared one)
+   */
+  routes?: RegisteredRoute[];
+
+  /** App whose services the batch request uses (set by `app.createBatchRouter`) */
+  app?: AppScope;
+}
+
+export interface BatchSubRequest {
+  /** Identifier used in `dependsOn` and echoed in the result (defaults to the index) */
+  id?: string;
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+  /** Path including any query string, e.g. `/api/tasks?status=open` */
+  path: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+
+  /** Sub-requests (listed earlier) that must succeed before this one runs */
+  dependsOn?: string[];
+}
+
+export interface BatchItemResult {
+  id: string;
+  status: number;
+  headers: Record<string, string>;
+
+  /** The `ApiResponse` (or problem details) the handler sent */
+  body: unknown;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const DEFAULT_MAX_BATCH_SIZE = 20;
+const DEFAULT_CONCURRENCY = 5;
+
+/**
+ * Headers taken from the batch request only: credentials, tenant, client
+ * address and framing. A batch whose sub-requests set them is rejected.
+ */
+const PROTECTED_HEADERS = new Set([
+  'authorization',
+  'cookie',
+  'x-api-key',
+  'x-tenant-id',
+  'forwarded',
+  'x-forwarded-for',
+  'x-forwarded-host',
+  'x-forwarded-proto',
+  'x-real-ip',
+  'host',
+  'content-length',
+  'content-type',
+]);
+
+const subRequestSchema = z.object({
+  id: z.string().min(1).max(64).optional(),
+  method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']),
+  path: z.string().startsWith('/').max(2048),
+  body: z.unknown().optional(),
+  headers: z.record(z.string()).optional(),
+  dependsOn: z.array(z.string()).optional(),
+});
+
+const batchSchema = z.object({
+  requests: z.array(subRequestSchema).min(1),
+  sequential: z.boolean().optional(),
+});
+
+/** Parsed sub-request with its id resolved */
+type BatchItem = z.infer<typeof subRequestSchema> & { id: string };
+
+// ============================================
+// Router
+// ============================================
+
+/**
+ * Create a router serving the batch endpoint
+ *
+ * @example
+ * app.use('/api', createBatchRouter({ maxBatchSize: 20, concurrency: 4 }));
+ *
+ * // POST /api/batch
+ * {
+ *   "requests": [
+ *     { "id": "project", "method": "POST", "path": "/api/projects", "body": { "name": "Launch" } },
+ *     { "id": "tasks", "method": "GET", "path": "/api/tasks?status=open" },
+ *     { "method": "GET", "path": "/api/projects/latest", "dependsOn": ["project"] }
+ *   ]
+ * }
+ */
+export function createBatchRouter(options: BatchRouterOptions = {}): Router {
+  const router = Router();
+  const {
+    path = '/batch',
+    maxBatchSize = DEFAULT_MAX_BATCH_SIZE,
+    concurrency = DEFAULT_CONCURRENCY,
+    requireAuth = true,
+    authStrategies = ['jwt'],
+    app,
+  } = options;
+  const protectedHeaders = new Set([
+    ...PROTECTED_HEADERS,
+    ...(options.protectedHeaders || []).map(name => name.toLowerCase()),
+  ]);
+
+  const handleBatch = async (req: Request, res: Response) => {
+    try {
+      const { monitoring, auditService, authManager = AuthManager.getInstance() } = getRequiredServices();
+
+      const bodyResponse = await readRequestBody(req, res, undefined, monitoring);
+      if (bodyResponse) {
+        return bodyResponse;
+      }
+
+      const parsed = batchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return validationErrorResponse(res, 'Invalid batch request', parsed.error.flatten().fieldErrors);
+      }
+
+      const { requests, sequential } = parsed.data;
+      if (requests.length > maxBatchSize) {
+        return errorResponse(res, 'PAYLOAD_TOO_LARGE', `Batch exceeds ${maxBatchSize} requests`, 413);
+      }
+
+      const items = requests.map((request, index) => ({ ...request, id: request.id ?? String(index) }));
+      const itemError = validateDependencies(items) || validateHeaders(items, protectedHeaders);
+      if (itemError) {
+        return validationErrorResponse(res, itemError);
+      }
+
+      // Single authentication pass for the whole batch
+      let user: User | null = null;
+      if (requireAuth) {
+        user = await authManager.authenticate(req, authStrategies);
+        if (!user) {
+          monitoring.recordMetric('auth.failure', 1, { method: req.method, path: req.path });
+          await auditService.logAuthEvent('login_failed', undefined, false, 'Authentication required', {
+            request: req,
+          });
+          return unauthorizedResponse(res, 'Authentication required');
+        }
+        await auditService.logAuthEvent('login', user.id, true, undefined, { user, request: req });
+      }
+
+      monitoring.recordMetric('batch.requests', 1, { size: items.length.toString() });
+
+      const routes = options.routes || (app?.routes || RouteRegistry.getInstance()).getRoutes();
+      const dispatcher = new BatchDispatcher(req, res, user, routes);
+      const responses = await dispatcher.run(items, sequential ? 1 : concurrency);
+
+      return successResponse(res, { responses });
+    } catch (error: any) {
+      console.error('[Batch Error]', sanitizeErrorMessage(error.message));
+      return internalErrorResponse(res);
+    }
+  };
+
+  router.post(path, (req: Request, res: Response) =>
+    runWithRequestContext(req, res, () => (app ? app.run(() => handleBatch(req, res)) : handleBatch(req, res))));
+
+  return router;
+}
+
+/**
+ * Dependencies must name a sub-request listed earlier, which also rules out cycles
+ */
+function validateDependencies(items: Array<BatchItem>): string | undefined {
+  const seen = new Set<string>();
+
+  for (const item of items) {
+    if (seen.has(item.id)) {
+      return `Duplicate sub-request id: ${item.id}`;
+    }
+    const unknown = (item.dependsOn || []).find(id => !seen.has(id));
+    if (unknown !== undefined) {
+      return `Sub-request ${item.id} depends on ${unknown}, which is not listed before it`;
+    }
+    seen.add(item.id);
+  }
+
+  return undefined;
+}
+
+/**
+ * Sub-requests act with the identity of the batch request and may not set
+ * its protected headers
+ */
+function validateHeaders(items: Array<BatchItem>, protectedHeaders: Set<string>): string | undefined {
+  for (const item of items) {
+    const name = Object.keys(item.headers || {}).find(header => protectedHeaders.has(header.toLowerCase()));
+    if (name !== undefined) {
+      return `Sub-request ${item.id} may not set the ${name} header`;
+    }
+  }
+
+  return undefined;
+}
+
+// ============================================
+// Dispatching
+// ============================================
+
+class BatchDispatcher {
+  private readonly pending = new Set<BatchResponse>();
+
+  constructor(
+    private readonly outerReq: Request,
+    outerRes: Response,
+    private readonly user: User | null,
+    private readonly routes: RegisteredRoute[]
+  ) {
+    // A client that leaves abandons every sub-request still running
+    outerRes.once('close', () => {
+      if (!outerRes.writableFinished) {
+        this.pending.forEach(subRes => subRes.emit('close'));
+      }
+    });
+  }
+
+  /**
+   * Run the sub-requests, at most `concurrency` at a time, returning their
+   * results in request order
+   */
+  public async run(items: Array<BatchItem>, concurrency: number): Promise<BatchItemResult[]> {
+    const acquire = createLimiter(concurrency);
+    const results = new Map<string, Promise<BatchItemResult>>();
+
+    for (const item of items) {
+      const dependencies = (item.dependsOn || []).map(id => results.get(id)!);
+
+      const result = Promise.all(dependencies).then(async (dependencyResults) => {
+        const failed = dependencyResults.find(dependency => dependency.status >= 400);
+        if (failed) {
+          const subRes = new BatchResponse(this.createRequest(item));
+          errorResponse(subRes as any, 'PRECONDITION_FAILED', `Dependency ${failed.id} failed`, 412);
+          return subRes.toResult(item.id);
+        }
+
+        const release = await acquire();
+        try {
+          return await this.dispatch(item);
+        } finally {
+          release();
+        }
+      });
+
+      results.set(item.id, result);
+    }
+
+    return Promise.all(results.values());
+  }
+
+  private async dispatch(item: BatchItem): Promise<BatchItemResult> {
+    const subReq = this.createRequest(item);
+    const subRes = new BatchResponse(subReq);
+    const match = this.matchRoute(item.method, subReq.path);
+
+    if (!match) {
+      notFoundResponse(subRes as any, `No handler for ${item.method} ${subReq.path}`);
+      return subRes.toResult(item.id);
+    }
+    if (match.route.metadata.stream) {
+      errorResponse(subRes as any, 'BAD_REQUEST', 'Streaming endpoints cannot be batched', 400);
+      return subRes.toResult(item.id);
+    }
+
+    Object.defineProperty(subReq, 'params', { value: match.params, enumerable: true });
+
+    this.pending.add(subRes);
+    try {
+      await match.route.handler(subReq, subRes as any);
+    } catch (error: any) {
+      console.error('[Batch Sub-request Error]', sanitizeErrorMessage(error.message));
+      if (!subRes.writableFinished) {
+        internalErrorResponse(subRes as any);
+      }
+    } finally {
+      this.pending.delete(subRes);
+    }
+
+    return subRes.toResult(item.id);
+  }
+
+  /**
+   * Sub-request sharing the connection, IP and protected headers of the batch request
+   */
+  private createRequest(item: BatchItem): Request {
+    const [pathname = '', search = ''] = item.path.split('?', 2);
+    const body = item.body ?? {};
+    const headers: Record<string, string | string[] | undefined> = { ...this.outerReq.headers };
+    // Each sub-request gets its own id unless it sends one
+    delete headers['x-request-id'];
+
+    for (const [name, value] of Object.entries(item.headers || {})) {
+      headers[name.toLowerCase()] = value;
+    }
+    headers['content-type'] = 'application/json';
+    headers['content-length'] = Buffer.byteLength(JSON.stringify(body)).toString();
+
+    const subReq: Request = Object.create(this.outerReq);
+    Object.defineProperties(subReq, {
+      method: { value: item.method, enumerable: true },
+      url: { value: item.path, enumerable: true },
+      originalUrl: { value: item.path, enumerable: true },
+      baseUrl: { value: '', enumerable: true },
+      path: { value: pathname, enumerable: true },
+      query: { value: parseQuery(search), enumerable: true },
+      params: { value: {}, enumerable: true, configurable: true },
+      headers: { value: headers, enumerable: true },
+      body: { value: body, enumerable: true, writable: true },
+    });
+
+    if (this.user) {
+      (subReq as any)[BATCH_AUTHENTICATED_USER] = this.user;
+    }
+
+    return subReq;
+  }
+
+  /**
+   * First route matching in registration order, the order Express tries them in
+   */
+  private matchRoute(method: string, pathname: string): { route: RegisteredRoute; params: Record<string, string> } | undefined {
+    for (const route of this.routes) {
+      if (route.method !== method) {
+        continue;
+      }
+      const params = matchPath(route.path, pathname);
+      if (params) {
+        return { route, params };
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * In-memory response a sub-request's handler writes to
+ */
+class BatchResponse extends InMemoryResponse {
+  /** Non-JSON sub-responses: text as-is, binary (MessagePack) as base64 */
+  public toResult(id: string): BatchItemResult {
+    const body = Buffer.isBuffer(this.body) ? this.body.toString('base64') : this.body;
+    return { id, status: this.statusCode, headers: this.getHeaders(), body };
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Match an Express-style path (`/api/tasks/:id`) and extract its parameters
+ */
+function matchPath(pattern: string, pathname: string): Record<string, string> | undefined {
+  const patternSegments = pattern.split('/').filter(Boolean);
+  const pathSegments = pathname.split('/').filter(Boolean);
+  if (patternSegments.length !== pathSegments.length) {
+    return undefined;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternSegments.length; i++) {
+    const expected = patternSegments[i] as string;
+    const actual = pathSegments[i] as string;
+
+    if (expected.startsWith(':')) {
+      try {
+        params[expected.slice(1)] = decodeURIComponent(actual);
+      } catch {
+        return undefined;
+      }
+    } else if (expected !== actual) {
+      return undefined;
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Resolve with a release function once fewer than `concurrency` holders remain
+ */
+function createLimiter(concurrency: number): () => Promise<() => void> {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  const release = () => {
+    active--;
+    const next = waiting.shift();
+    if (next) {
+      active++;
+      next();
+    }
+  };
+
+  return () => new Promise(resolve => {
+    if (active < concurrency) {
+      active++;
+      resolve(release);
+    } else {
+      waiting.push(() => resolve(release));
+    }
+  });
+}
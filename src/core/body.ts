@@ -0,0 +1,210 @@
+/**
+ * Request Bodies & Limits
+ *
+ * Reads JSON, form and other non-multipart bodies for handlers, counting
+ * bytes as they stream in so an oversized body is refused without being
+ * buffered. Also checks the request against `HandlerConfig.limits` before
+ * anything is read.
+ */
+
+import { Request } from 'express';
+
+import { ErrorCode, HandlerConfig, RequestLimits } from './types';
+
+// ============================================
+// Constants & Types
+// ============================================
+
+export const DEFAULT_MAX_BODY_BYTES = 10 * 1024 * 1024; // 10MB
+
+// Field names that must never become keys of the parsed body
+const FORBIDDEN_FIELD_NAMES = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Why a request was refused by its limits
+ */
+export interface LimitRejection {
+  statusCode: number;
+  code: ErrorCode;
+  message: string;
+}
+
+export type BodyReadResult =
+  | { raw: Buffer; rejection?: undefined }
+  | { raw?: undefined; rejection: LimitRejection };
+
+// ============================================
+// Limits
+// ============================================
+
+/**
+ * Media types a handler accepts request bodies in
+ */
+export function allowedContentTypes(config: HandlerConfig<any, any>): string[] {
+  return config.limits?.contentTypes
+    || ['application/json', ...(config.upload ? ['multipart/form-data'] : [])];
+}
+
+/**
+ * Media type of the request body without parameters, lower-cased
+ */
+export function bodyMediaType(req: Request): string | undefined {
+  const contentType = req.get('content-type');
+  return contentType ? contentType.split(';')[0]!.trim().toLowerCase() : undefined;
+}
+
+/**
+ * Whether `mediaType` matches one of `allowed` (`type/*` wildcards allowed)
+ */
+export function matchesContentType(mediaType: string, allowed: string[]): boolean {
+  return allowed.some(entry => {
+    const type = entry.toLowerCase();
+    return type.endsWith('/*') ? mediaType.startsWith(type.slice(0, -1)) : mediaType === type;
+  });
+}
+
+/**
+ * Check header size, query parameter count and declared body size. Runs
+ * before the body is read.
+ */
+export function findLimitViolation(
+  req: Request,
+  limits: RequestLimits = {},
+  maxBodyBytes: number = limits.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES
+): LimitRejection | undefined {
+  if (limits.maxHeaderBytes !== undefined && headerBytes(req) > limits.maxHeaderBytes) {
+    return { statusCode: 431, code: 'HEADERS_TOO_LARGE', message: 'Request headers too large' };
+  }
+
+  if (limits.maxQueryParams !== undefined && queryParamCount(req) > limits.maxQueryParams) {
+    return { statusCode: 400, code: 'BAD_REQUEST', message: `Too many query parameters (max ${limits.maxQueryParams})` };
+  }
+
+  const contentLength = parseInt(req.get('content-length') || '0', 10);
+  if (contentLength > maxBodyBytes) {
+    return { statusCode: 413, code: 'PAYLOAD_TOO_LARGE', message: 'Request body too large' };
+  }
+
+  return undefined;
+}
+
+function headerBytes(req: Request): number {
+  // rawHeaders alternates names and values, as sent
+  const raw: string[] = req.rawHeaders && req.rawHeaders.length > 0
+    ? req.rawHeaders
+    : Object.entries(req.headers || {}).flatMap(([name, value]) => [name, String(value)]);
+
+  let size = 0;
+  for (let i = 0; i < raw.length; i += 2) {
+    size += Buffer.byteLength(raw[i]!) + Buffer.byteLength(raw[i + 1] || '') + 4; // ': ' and CRLF
+  }
+  return size;
+}
+
+function queryParamCount(req: Request): number {
+  const search = (req.originalUrl || req.url || '').split('?', 2)[1];
+  if (search !== undefined) {
+    return [...new URLSearchParams(search).keys()].length;
+  }
+  return Object.values(req.query || {}).reduce<number>(
+    (count, value) => count + (Array.isArray(value) ? value.length : 1),
+    0
+  );
+}
+
+// ============================================
+// Reading
+// ============================================
+
+/**
+ * Whether the body is still in the request stream: no body parser has
+ * consumed it and it was not set in-process
+ */
+export function hasUnreadBody(req: Request): boolean {
+  return !(req as any)._body && req.readable === true;
+}
+
+/**
+ * Read the body, refusing it as soon as it passes `maxBytes`. The rest of
+ * a refused body is discarded as it arrives.
+ */
+export function readBody(req: Request, maxBytes: number): Promise<BodyReadResult> {
+  return new Promise(resolve => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const cleanup = () => {
+      req.off('data', onData);
+      req.off('end', onEnd);
+      req.off('error', onError);
+    };
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        cleanup();
+        req.resume();
+        resolve({ rejection: { statusCode: 413, code: 'PAYLOAD_TOO_LARGE', message: 'Request body too large' } });
+        return;
+      }
+      chunks.push(chunk);
+    };
+    const onEnd = () => {
+      cleanup();
+      resolve({ raw: Buffer.concat(chunks) });
+    };
+    const onError = () => {
+      cleanup();
+      resolve({ rejection: { statusCode: 400, code: 'BAD_REQUEST', message: 'Request body could not be read' } });
+    };
+
+    req.on('data', onData);
+    req.on('end', onEnd);
+    req.on('error', onError);
+  });
+}
+
+/**
+ * Parse a body by its media type: JSON and forms become objects, other
+ * text types strings, anything else stays a Buffer. Throws `SyntaxError`
+ * for malformed JSON.
+ */
+export function parseBody(raw: Buffer, mediaType: string | undefined): unknown {
+  if (raw.length === 0) {
+    return {};
+  }
+
+  if (mediaType === 'application/json' || mediaType?.endsWith('+json')) {
+    return JSON.parse(raw.toString('utf8'));
+  }
+
+  if (mediaType === 'application/x-www-form-urlencoded') {
+    return parseUrlEncoded(raw.toString('utf8'));
+  }
+
+  if (mediaType?.startsWith('text/')) {
+    return raw.toString('utf8');
+  }
+
+  return raw;
+}
+
+/**
+ * Parse `application/x-www-form-urlencoded` text (or a query string);
+ * repeated keys become arrays as with Express
+ */
+export function parseUrlEncoded(text: string): Record<string, string | string[]> {
+  const form: Record<string, string | string[]> = {};
+
+  for (const [key, value] of new URLSearchParams(text)) {
+    if (FORBIDDEN_FIELD_NAMES.has(key)) {
+      continue;
+    }
+    // Own keys only: `toString` and friends are inherited from Object.prototype
+    const existing = Object.hasOwn(form, key) ? form[key] : undefined;
+    form[key] = existing === undefined
+      ? value
+      : Array.isArray(existing) ? [...existing, value] : [existing, value];
+  }
+
+  return form;
+}
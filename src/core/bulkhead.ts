@@ -0,0 +1,212 @@
+/**
+ * Bulkheads & Load Shedding
+ *
+ * A bulkhead caps how many requests one handler runs at once, with a
+ * bounded queue in front, so a slow endpoint fills its own slots instead of
+ * the whole process. The load shedder watches event-loop lag and turns away
+ * low-priority handlers while the process is overloaded.
+ */
+
+import { monitorEventLoopDelay, IntervalHistogram } from 'perf_hooks';
+
+import { ConcurrencyConfig, HandlerPriority, LoadSheddingConfig } from './types';
+
+// ============================================
+// Constants & Types
+// ============================================
+
+const DEFAULT_QUEUE_TIMEOUT = 5000;
+const LAG_SAMPLE_INTERVAL = 500;
+
+export const DEFAULT_LOAD_SHEDDING: LoadSheddingConfig = {
+  enabled: true,
+  lagThresholdMs: 200,
+  retryAfter: 5,
+};
+
+export type BulkheadRejection = 'queue_full' | 'queue_timeout' | 'cancelled';
+
+export type BulkheadResult =
+  | { admitted: true; release: () => void }
+  | { admitted: false; reason: BulkheadRejection };
+
+interface Waiter {
+  admit(): void;
+}
+
+interface Lane {
+  inFlight: number;
+  queue: Waiter[];
+}
+
+// ============================================
+// Bulkhead
+// ============================================
+
+export class Bulkhead {
+  private readonly maxQueue: number;
+  private readonly queueTimeoutMs: number;
+  private readonly lanes = new Map<string, Lane>();
+
+  constructor(private readonly config: ConcurrencyConfig) {
+    this.maxQueue = config.maxQueue ?? 0;
+    this.queueTimeoutMs = config.queueTimeoutMs ?? DEFAULT_QUEUE_TIMEOUT;
+  }
+
+  /**
+   * Take a slot in the lane for `key`, waiting in its queue if all are busy.
+   * `release` must be called exactly once when the request is done.
+   */
+  public async acquire(key: string, signal?: AbortSignal): Promise<BulkheadResult> {
+    const lane = this.lane(key);
+
+    if (lane.inFlight < this.config.maxInFlight) {
+      lane.inFlight++;
+      return { admitted: true, release: this.releaser(key, lane) };
+    }
+
+    if (lane.queue.length >= this.maxQueue || signal?.aborted) {
+      return { admitted: false, reason: signal?.aborted ? 'cancelled' : 'queue_full' };
+    }
+
+    const outcome = await new Promise<'admitted' | 'queue_timeout' | 'cancelled'>(resolve => {
+      const settle = (result: 'admitted' | 'queue_timeout' | 'cancelled') => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      };
+      const leave = (result: 'queue_timeout' | 'cancelled') => {
+        lane.queue = lane.queue.filter(queued => queued !== waiter);
+        this.prune(key, lane);
+        settle(result);
+      };
+      const onAbort = () => leave('cancelled');
+
+      // The releasing request hands its slot over, so inFlight is unchanged
+      const waiter: Waiter = { admit: () => settle('admitted') };
+      const timer = setTimeout(() => leave('queue_timeout'), this.queueTimeoutMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      lane.queue.push(waiter);
+    });
+
+    return outcome === 'admitted'
+      ? { admitted: true, release: this.releaser(key, lane) }
+      : { admitted: false, reason: outcome };
+  }
+
+  /**
+   * Requests running and waiting in the lane for `key`
+   */
+  public depth(key: string): { inFlight: number; queued: number } {
+    const lane = this.lanes.get(key);
+    return { inFlight: lane?.inFlight ?? 0, queued: lane?.queue.length ?? 0 };
+  }
+
+  /**
+   * Seconds a rejected client should wait before retrying
+   */
+  public get retryAfter(): number {
+    return Math.max(1, Math.ceil(this.queueTimeoutMs / 1000));
+  }
+
+  private lane(key: string): Lane {
+    let lane = this.lanes.get(key);
+    if (!lane) {
+      lane = { inFlight: 0, queue: [] };
+      this.lanes.set(key, lane);
+    }
+    return lane;
+  }
+
+  private releaser(key: string, lane: Lane): () => void {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      const next = lane.queue.shift();
+      if (next) {
+        next.admit();
+      } else {
+        lane.inFlight--;
+        this.prune(key, lane);
+      }
+    };
+  }
+
+  // Per-tenant lanes would otherwise accumulate for every tenant ever seen
+  private prune(key: string, lane: Lane): void {
+    if (lane.inFlight === 0 && lane.queue.length === 0) {
+      this.lanes.delete(key);
+    }
+  }
+}
+
+// ============================================
+// Load Shedder
+// ============================================
+
+export class LoadShedder {
+  private static instance: LoadShedder;
+  private histogram?: IntervalHistogram;
+  private sampler?: NodeJS.Timeout;
+  private lagMs = 0;
+
+  private constructor() { }
+
+  public static getInstance(): LoadShedder {
+    if (!LoadShedder.instance) {
+      LoadShedder.instance = new LoadShedder();
+    }
+    return LoadShedder.instance;
+  }
+
+  /**
+   * Event-loop lag in ms: the p99 delay over the last sample interval.
+   * Measuring starts on first use.
+   */
+  public getLag(): number {
+    this.start();
+    return this.lagMs;
+  }
+
+  /**
+   * Whether a request to a handler of `priority` should be turned away now
+   */
+  public shouldShed(priority: HandlerPriority | undefined, config: LoadSheddingConfig = DEFAULT_LOAD_SHEDDING): boolean {
+    if (priority !== 'low' || !config.enabled) {
+      return false;
+    }
+    return this.getLag() > config.lagThresholdMs;
+  }
+
+  /**
+   * Stop measuring (e.g. on shutdown)
+   */
+  public stop(): void {
+    clearInterval(this.sampler);
+    this.histogram?.disable();
+    delete this.sampler;
+    delete this.histogram;
+    this.lagMs = 0;
+  }
+
+  private start(): void {
+    if (this.sampler) {
+      return;
+    }
+
+    const histogram = monitorEventLoopDelay({ resolution: 10 });
+    histogram.enable();
+    this.histogram = histogram;
+
+    this.sampler = setInterval(() => {
+      // Recorded in nanoseconds
+      this.lagMs = histogram.percentile(99) / 1e6;
+      histogram.reset();
+    }, LAG_SAMPLE_INTERVAL);
+    this.sampler.unref();
+  }
+}
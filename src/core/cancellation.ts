@@ -0,0 +1,95 @@
+/**
+ * Request Cancellation
+ *
+ * One AbortSignal per request that fires when the handler times out or the
+ * client disconnects, so handler code can stop work nobody will receive.
+ * The abort reason is a `RequestTimeoutError` or a `ClientClosedError`.
+ */
+
+import { Response } from 'express';
+
+import { RequestTimeoutError } from './errors';
+
+// ============================================
+// Errors
+// ============================================
+
+export class ClientClosedError extends Error {
+  constructor() {
+    super('Client closed the connection');
+    this.name = 'ClientClosedError';
+  }
+}
+
+// ============================================
+// Request Cancellation
+// ============================================
+
+export interface RequestCancellation {
+  signal: AbortSignal;
+
+  /** Abort with a `RequestTimeoutError` after `timeoutMs` */
+  startTimeout(timeoutMs: number): void;
+
+  /** Clear the timer and stop watching the connection */
+  dispose(): void;
+}
+
+/**
+ * Create the cancellation state for one request
+ */
+export function createRequestCancellation(res: Response): RequestCancellation {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+
+  // 'close' after the response finished is a normal end, not a disconnect
+  const onClose = () => {
+    if (!res.writableFinished && !controller.signal.aborted) {
+      controller.abort(new ClientClosedError());
+    }
+  };
+  res.on('close', onClose);
+
+  return {
+    signal: controller.signal,
+
+    startTimeout(timeoutMs: number) {
+      clearTimeout(timer);
+      timer = setTimeout(() => controller.abort(new RequestTimeoutError(`Request timeout after ${timeoutMs}ms`, {
+        timeoutMs,
+        expose: false,
+      })), timeoutMs);
+    },
+
+    dispose() {
+      clearTimeout(timer);
+      res.off('close', onClose);
+    },
+  };
+}
+
+/**
+ * Settle with `promise`, or reject with the abort reason as soon as `signal`
+ * fires. The underlying work is not stopped; it should observe the signal.
+ */
+export function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,463 @@
+/**
+ * Circuit Breaker
+ *
+ * Stops calling a failing dependency for a while, so requests fail fast (or
+ * use a fallback) instead of piling up behind its timeouts. A breaker stays
+ * closed while the failure rate over its rolling window is under the
+ * threshold. Past it the breaker opens. After `resetTimeoutMs` it goes
+ * half-open and lets trial calls through: a success closes it, a failure
+ * opens it again.
+ *
+ * Breakers are named per dependency and shared by all handlers
+ * (`ctx.breaker(name)`). With a Redis-backed cache an open breaker is seen
+ * by every instance. State changes are audited as SYSTEM events, and open
+ * breakers report the `circuit_breakers` health check as degraded.
+ */
+
+import { HealthCheck } from './types';
+import { ServiceUnavailableError } from './errors';
+import { ServiceInitializer } from './service-initializer';
+import { CacheManager } from '../caching/manager';
+import { HealthChecker } from '../monitoring/health';
+import { AuditCategory, AuditEventType, AuditSeverity, AuditStatus } from '../audit/audit-types';
+import { ServiceRegistry } from '../monitoring/types';
+
+// ============================================
+// Constants & Types
+// ============================================
+
+const WINDOW_BUCKETS = 10;
+const SHARED_STATE_SYNC_INTERVAL = 1000;
+const HEALTH_CHECK_NAME = 'circuit_breakers';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  /**
+   * Failure rate (0-1) over the window at which the breaker opens
+   * @default 0.5
+   */
+  failureThreshold?: number;
+
+  /**
+   * Calls the window must hold before the failure rate counts
+   * @default 10
+   */
+  minimumRequests?: number;
+
+  /**
+   * Length of the rolling window in ms
+   * @default 60000
+   */
+  windowMs?: number;
+
+  /**
+   * How long the breaker stays open before trial calls are let through
+   * @default 30000
+   */
+  resetTimeoutMs?: number;
+
+  /**
+   * Trial calls let through at once while half-open
+   * @default 1
+   */
+  halfOpenMaxCalls?: number;
+
+  /** Which errors count as failures (default: all) */
+  isFailure?: (error: unknown) => boolean;
+}
+
+export interface CircuitBreakerStats {
+  state: CircuitState;
+  calls: number;
+  failures: number;
+  failureRate: number;
+  openedAt?: Date;
+}
+
+/**
+ * Where open breakers are published for other instances (a `CacheManager`)
+ */
+export interface CircuitStateStore {
+  get<T = any>(key: string): Promise<T | null>;
+  set<T = any>(key: string, value: T, ttl?: number): Promise<unknown>;
+  delete(key: string): Promise<unknown>;
+}
+
+export interface CircuitBreakerDeps {
+  store?: CircuitStateStore;
+  onStateChange?: (breaker: CircuitBreaker, from: CircuitState, to: CircuitState) => void;
+}
+
+interface Bucket {
+  start: number;
+  calls: number;
+  failures: number;
+}
+
+// ============================================
+// Errors
+// ============================================
+
+export class CircuitOpenError extends ServiceUnavailableError {
+  constructor(public readonly breaker: string) {
+    super(`Circuit breaker ${breaker} is open`);
+  }
+}
+
+// ============================================
+// Circuit Breaker
+// ============================================
+
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly minimumRequests: number;
+  private readonly windowMs: number;
+  private readonly resetTimeoutMs: number;
+  private readonly halfOpenMaxCalls: number;
+  private readonly isFailure: (error: unknown) => boolean;
+
+  private state: CircuitState = 'closed';
+  private openedAt = 0;
+  private halfOpenCalls = 0;
+  private buckets: Bucket[] = [];
+  private sharedCheckedAt = 0;
+
+  constructor(
+    public readonly name: string,
+    options: CircuitBreakerOptions = {},
+    private readonly deps: CircuitBreakerDeps = {}
+  ) {
+    this.failureThreshold = options.failureThreshold ?? 0.5;
+    this.minimumRequests = options.minimumRequests ?? 10;
+    this.windowMs = options.windowMs ?? 60000;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+    this.halfOpenMaxCalls = options.halfOpenMaxCalls ?? 1;
+    this.isFailure = options.isFailure ?? (() => true);
+  }
+
+  /**
+   * Run `fn` through the breaker. While open, `fn` is not called: `fallback`
+   * gets a `CircuitOpenError`, or it is thrown (503). `fallback` also
+   * receives the errors `fn` throws.
+   */
+  public async exec<T>(fn: () => Promise<T>, fallback?: (error: unknown) => T | Promise<T>): Promise<T> {
+    await this.syncSharedState();
+
+    if (!this.tryAcquire()) {
+      const error = new CircuitOpenError(this.name);
+      if (fallback) {
+        return fallback(error);
+      }
+      throw error;
+    }
+
+    try {
+      const result = await fn();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (this.isFailure(error)) {
+        this.recordFailure();
+      } else {
+        this.recordSuccess();
+      }
+
+      if (fallback) {
+        return fallback(error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Current state; an open breaker past its reset timeout reads half-open
+   */
+  public getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+      return 'half_open';
+    }
+    return this.state;
+  }
+
+  public getStats(): CircuitBreakerStats {
+    const { calls, failures } = this.windowCounts();
+    return {
+      state: this.getState(),
+      calls,
+      failures,
+      failureRate: calls > 0 ? failures / calls : 0,
+      ...(this.state !== 'closed' ? { openedAt: new Date(this.openedAt) } : {}),
+    };
+  }
+
+  /**
+   * Close the breaker and forget recorded calls
+   */
+  public reset(): void {
+    this.buckets = [];
+    this.transition('closed');
+  }
+
+  private tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.resetTimeoutMs) {
+        return false;
+      }
+      this.transition('half_open');
+    }
+
+    if (this.state === 'half_open') {
+      if (this.halfOpenCalls >= this.halfOpenMaxCalls) {
+        return false;
+      }
+      this.halfOpenCalls++;
+    }
+
+    return true;
+  }
+
+  private recordSuccess(): void {
+    if (this.state === 'half_open') {
+      this.transition('closed');
+      return;
+    }
+    this.record(false);
+  }
+
+  private recordFailure(): void {
+    if (this.state === 'half_open') {
+      this.transition('open');
+      return;
+    }
+
+    this.record(true);
+    const { calls, failures } = this.windowCounts();
+    if (this.state === 'closed' && calls >= this.minimumRequests && failures / calls >= this.failureThreshold) {
+      this.transition('open');
+    }
+  }
+
+  private transition(to: CircuitState, openedAt: number = Date.now(), publish: boolean = true): void {
+    const from = this.state;
+    if (from === to) {
+      return;
+    }
+
+    this.state = to;
+    this.halfOpenCalls = 0;
+
+    if (to === 'open') {
+      this.openedAt = openedAt;
+    }
+    if (to === 'closed') {
+      this.buckets = [];
+    }
+
+    if (publish) {
+      this.publishSharedState(to);
+    }
+    this.deps.onStateChange?.(this, from, to);
+  }
+
+  // ============================================
+  // Rolling Window
+  // ============================================
+
+  private record(failed: boolean): void {
+    const now = Date.now();
+    const bucketSize = this.windowMs / WINDOW_BUCKETS;
+    const start = now - (now % bucketSize);
+
+    let bucket = this.buckets[this.buckets.length - 1];
+    if (!bucket || bucket.start !== start) {
+      bucket = { start, calls: 0, failures: 0 };
+      this.buckets.push(bucket);
+    }
+
+    bucket.calls++;
+    if (failed) {
+      bucket.failures++;
+    }
+  }
+
+  private windowCounts(): { calls: number; failures: number } {
+    const cutoff = Date.now() - this.windowMs;
+    this.buckets = this.buckets.filter(bucket => bucket.start > cutoff);
+
+    return this.buckets.reduce(
+      (totals, bucket) => ({ calls: totals.calls + bucket.calls, failures: totals.failures + bucket.failures }),
+      { calls: 0, failures: 0 }
+    );
+  }
+
+  // ============================================
+  // Shared State
+  // ============================================
+
+  private get sharedKey(): string {
+    return `circuit:${this.name}`;
+  }
+
+  /**
+   * Open a closed breaker that another instance has opened. The store is
+   * read at most once a second; it failing leaves the local state in charge.
+   */
+  private async syncSharedState(): Promise<void> {
+    const { store } = this.deps;
+    const now = Date.now();
+    if (!store || this.state !== 'closed' || now - this.sharedCheckedAt < SHARED_STATE_SYNC_INTERVAL) {
+      return;
+    }
+    this.sharedCheckedAt = now;
+
+    try {
+      const shared = await store.get<{ openedAt: number }>(this.sharedKey);
+      if (shared && now - shared.openedAt < this.resetTimeoutMs && this.state === 'closed') {
+        this.transition('open', shared.openedAt, false);
+      }
+    } catch (error: any) {
+      console.error(`[CircuitBreaker] Failed to read shared state of ${this.name}:`, error.message);
+    }
+  }
+
+  private publishSharedState(state: CircuitState): void {
+    const { store } = this.deps;
+    if (!store || state === 'half_open') {
+      return;
+    }
+
+    // Expires when the breaker would go half-open, so instances retry on their own
+    const write = state === 'open'
+      ? store.set(this.sharedKey, { openedAt: this.openedAt }, Math.ceil(this.resetTimeoutMs / 1000))
+      : store.delete(this.sharedKey);
+
+    write.catch((error: any) => {
+      console.error(`[CircuitBreaker] Failed to publish state of ${this.name}:`, error.message);
+    });
+  }
+}
+
+// ============================================
+// Registry
+// ============================================
+
+export class CircuitBreakerRegistry {
+  private static instance: CircuitBreakerRegistry;
+
+  /** Every registry with breakers, all reported by the one health check */
+  private static active: Set<CircuitBreakerRegistry> = new Set();
+  private static healthCheckRegistered = false;
+
+  private breakers: Map<string, CircuitBreaker> = new Map();
+
+  private constructor() { }
+
+  public static getInstance(): CircuitBreakerRegistry {
+    if (!CircuitBreakerRegistry.instance) {
+      CircuitBreakerRegistry.instance = new CircuitBreakerRegistry();
+    }
+    return CircuitBreakerRegistry.instance;
+  }
+
+  /**
+   * New registry with its own breakers, separate from the shared one
+   * (used by `createApp`)
+   */
+  public static create(): CircuitBreakerRegistry {
+    return new CircuitBreakerRegistry();
+  }
+
+  /**
+   * The breaker named `name`, created with `options` on first use
+   */
+  public get(name: string, options?: CircuitBreakerOptions): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      const store = resolveSharedStore();
+      breaker = new CircuitBreaker(name, options, {
+        ...(store ? { store } : {}),
+        onStateChange: (changed, from, to) => this.auditStateChange(changed, from, to),
+      });
+      this.breakers.set(name, breaker);
+      CircuitBreakerRegistry.active.add(this);
+      CircuitBreakerRegistry.registerHealthCheck();
+    }
+    return breaker;
+  }
+
+  public list(): CircuitBreaker[] {
+    return [...this.breakers.values()];
+  }
+
+  /**
+   * Forget all breakers (e.g. between tests)
+   */
+  public clear(): void {
+    this.breakers.clear();
+    CircuitBreakerRegistry.active.delete(this);
+  }
+
+  private static registerHealthCheck(): void {
+    if (CircuitBreakerRegistry.healthCheckRegistered) {
+      return;
+    }
+    CircuitBreakerRegistry.healthCheckRegistered = true;
+
+    HealthChecker.getInstance().registerCheck(HEALTH_CHECK_NAME, async (): Promise<HealthCheck> => {
+      const breakers = [...CircuitBreakerRegistry.active].flatMap(registry => registry.list());
+      const notClosed = breakers.filter(breaker => breaker.getState() !== 'closed');
+      return {
+        name: HEALTH_CHECK_NAME,
+        status: notClosed.length > 0 ? 'degraded' : 'healthy',
+        message: notClosed.length > 0
+          ? `Open circuit breakers: ${notClosed.map(breaker => breaker.name).join(', ')}`
+          : 'All circuit breakers closed',
+        timestamp: new Date(),
+        details: Object.fromEntries(breakers.map(breaker => [breaker.name, breaker.getStats()])),
+      };
+    });
+  }
+
+  private auditStateChange(breaker: CircuitBreaker, from: CircuitState, to: CircuitState): void {
+    const { auditService } = currentServices();
+    if (!auditService) {
+      return;
+    }
+
+    const stats = breaker.getStats();
+    auditService.logEvent({
+      eventType: AuditEventType.SYSTEM,
+      category: AuditCategory.SYSTEM,
+      action: `circuit_breaker.${to}`,
+      description: `Circuit breaker ${breaker.name} changed from ${from} to ${to}`,
+      status: AuditStatus.SUCCESS,
+      severity: to === 'open' ? AuditSeverity.WARNING : AuditSeverity.INFO,
+      metadata: { breaker: breaker.name, from, to, calls: stats.calls, failureRate: stats.failureRate },
+    }).catch((error: any) => {
+      console.error('[CircuitBreaker] Audit log failed:', error.message);
+    });
+  }
+}
+
+// ============================================
+// Utility Functions
+// ============================================
+
+function currentServices(): Partial<ServiceRegistry> {
+  try {
+    return ServiceInitializer.getServices();
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * The cache to publish open breakers in. A memory-only `CacheManager` is
+ * per process, so breakers keep their state local instead.
+ */
+function resolveSharedStore(): CircuitStateStore | undefined {
+  const cache = currentServices().cacheManager || CacheManager.getInstance();
+  const provider = typeof cache.getProviderInfo === 'function' ? cache.getProviderInfo().primary : undefined;
+  return provider === 'memory' ? undefined : cache;
+}
@@ -0,0 +1,83 @@
+/**
+ * Conditional Requests
+ *
+ * Strong ETags computed from a hash of a value's canonical JSON, and the
+ * `If-None-Match` / `If-Match` comparisons (RFC 9110, section 13) used for
+ * 304 responses and optimistic concurrency.
+ */
+
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+
+// Methods whose `If-Match` is checked against the loaded resource
+export const PRECONDITION_METHODS = new Set(['PUT', 'PATCH', 'DELETE']);
+
+/**
+ * Canonical JSON: `JSON.stringify` output with object keys sorted, so equal
+ * values serialize alike and values that differ in type or content do not.
+ * `toJSON()` is honoured (Dates become ISO strings); `undefined` alone
+ * serializes as ''.
+ */
+export function stableStringify(obj: any): string {
+  if (obj !== null && typeof obj === 'object' && typeof obj.toJSON === 'function') {
+    return stableStringify(obj.toJSON());
+  }
+  if (obj === null || typeof obj !== 'object') {
+    return JSON.stringify(obj) ?? '';
+  }
+
+  if (Array.isArray(obj)) {
+    return `[${obj.map(item => stableStringify(item) || 'null').join(',')}]`;
+  }
+
+  const pairs = Object.keys(obj).sort()
+    .map(k => [k, stableStringify(obj[k])])
+    .filter(([, value]) => value !== '')
+    .map(([k, value]) => `${JSON.stringify(k)}:${value}`);
+  return `{${pairs.join(',')}}`;
+}
+
+/**
+ * Strong entity tag for a value
+ */
+export function computeETag(value: unknown): string {
+  const hash = crypto
+    .createHash('sha256')
+    .update(stableStringify(value))
+    .digest('base64url');
+
+  return `"${hash}"`;
+}
+
+/**
+ * Whether an `If-Match` / `If-None-Match` header matches `etag`.
+ * `If-None-Match` uses the weak comparison, `If-Match` the strong one, so
+ * a weak tag never satisfies `If-Match`.
+ */
+export function etagMatches(header: string | undefined, etag: string, comparison: 'weak' | 'strong'): boolean {
+  if (!header) {
+    return false;
+  }
+  if (header.trim() === '*') {
+    return true;
+  }
+
+  return header.split(',').some(entry => {
+    const tag = entry.trim();
+    if (comparison === 'weak') {
+      return tag.replace(/^W\//, '') === etag;
+    }
+    return tag === etag;
+  });
+}
+
+/**
+ * Set the `ETag` of a GET result. Returns true when the client's copy is
+ * current and a 304 should be sent instead of the body.
+ */
+export function applyETag(req: Request, res: Response, data: unknown): boolean {
+  const etag = computeETag(data);
+  res.set('ETag', etag);
+
+  return etagMatches(req.get('If-None-Match'), etag, 'weak');
+}
@@ -5,6 +5,8 @@
  */
 
 import { createAuthenticatedHandler } from './handler';
+import { ForbiddenError } from './errors';
+import { ServiceInitializer } from './service-initializer';
 import { CSRFProtection } from '../security/csrf';
 
 /**
@@ -25,7 +27,7 @@ import { CSRFProtection } from '../security/csrf';
  */
 export const generateCSRFToken = createAuthenticatedHandler({
     handler: async ({ user }) => {
-        const csrfProtection = CSRFProtection.getInstance();
+        const csrfProtection: CSRFProtection = ServiceInitializer.getServices().csrfProtection || CSRFProtection.getInstance();
         const token = await csrfProtection.generateToken(user!.id);
 
         return {
@@ -60,17 +62,17 @@ export const generateCSRFToken = createAuthenticatedHandler({
  */
 export const refreshCSRFToken = createAuthenticatedHandler({
     handler: async ({ request }) => {
-        const csrfProtection = CSRFProtection.getInstance();
+        const csrfProtection: CSRFProtection = ServiceInitializer.getServices().csrfProtection || CSRFProtection.getInstance();
         const currentToken = request.get('X-CSRF-Token');
 
         if (!currentToken) {
-            throw new Error('CSRF token required for refresh');
+            throw new ForbiddenError('CSRF token required for refresh');
         }
 
         const refreshed = await csrfProtection.refreshToken(currentToken);
 
         if (!refreshed) {
-            throw new Error('Invalid or expired CSRF token');
+            throw new ForbiddenError('Invalid or expired CSRF token');
         }
 
         return {
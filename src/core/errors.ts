@@ -0,0 +1,229 @@
+/**
+ * HTTP Error Hierarchy
+ *
+ * Error classes handlers can throw to end a request with a specific
+ * `ErrorCode`. The handler maps them to the matching error response instead
+ * of a generic 500.
+ *
+ * Messages of 4xx errors are sent to the client as-is; 5xx errors are
+ * answered with a generic message unless `expose: true` is passed, and their
+ * real message only reaches the (sanitized) logs.
+ */
+
+import { ErrorCode } from './types';
+
+// ============================================
+// Base Class
+// ============================================
+
+export interface HttpErrorOptions {
+  /** Extra data sent in `error.details` */
+  details?: Record<string, any>;
+
+  /** Send the message to the client even for 5xx errors */
+  expose?: boolean;
+
+  /** Underlying error, kept for logging */
+  cause?: unknown;
+}
+
+/**
+ * Default HTTP status for each error code
+ */
+export const ERROR_STATUS_CODES: Record<ErrorCode, number> = {
+  VALIDATION_ERROR: 400,
+  BAD_REQUEST: 400,
+  AUTHENTICATION_ERROR: 401,
+  AUTHORIZATION_ERROR: 403,
+  RESOURCE_FORBIDDEN: 403,
+  RESOURCE_NOT_FOUND: 404,
+  NOT_ACCEPTABLE: 406,
+  REQUEST_TIMEOUT: 408,
+  CONFLICT: 409,
+  PRECONDITION_FAILED: 412,
+  PAYLOAD_TOO_LARGE: 413,
+  UNSUPPORTED_MEDIA_TYPE: 415,
+  UNPROCESSABLE_ENTITY: 422,
+  PRECONDITION_REQUIRED: 428,
+  HEADERS_TOO_LARGE: 431,
+  RATE_LIMIT_EXCEEDED: 429,
+  INTERNAL_ERROR: 500,
+  SERVICE_UNAVAILABLE: 503,
+};
+
+/**
+ * Client-safe message used when an error's own message is not exposed
+ */
+export const DEFAULT_ERROR_MESSAGES: Record<ErrorCode, string> = {
+  VALIDATION_ERROR: 'Validation failed',
+  BAD_REQUEST: 'Bad request',
+  AUTHENTICATION_ERROR: 'Authentication required',
+  AUTHORIZATION_ERROR: 'Insufficient permissions',
+  RESOURCE_FORBIDDEN: 'Access to this resource is forbidden',
+  RESOURCE_NOT_FOUND: 'Resource not found',
+  NOT_ACCEPTABLE: 'No acceptable response format',
+  REQUEST_TIMEOUT: 'Request timed out',
+  CONFLICT: 'Resource conflict',
+  PRECONDITION_FAILED: 'Precondition failed',
+  PAYLOAD_TOO_LARGE: 'Request body too large',
+  UNSUPPORTED_MEDIA_TYPE: 'Unsupported media type',
+  UNPROCESSABLE_ENTITY: 'Request could not be processed',
+  PRECONDITION_REQUIRED: 'Precondition required',
+  HEADERS_TOO_LARGE: 'Request headers too large',
+  RATE_LIMIT_EXCEEDED: 'Rate limit exceeded',
+  INTERNAL_ERROR: 'An unexpected error occurred',
+  SERVICE_UNAVAILABLE: 'Service temporarily unavailable',
+};
+
+export class HttpError extends Error {
+  public readonly code: ErrorCode;
+  public readonly statusCode: number;
+  public readonly details?: Record<string, any>;
+  public readonly expose: boolean;
+
+  constructor(code: ErrorCode, message: string = DEFAULT_ERROR_MESSAGES[code], options: HttpErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = new.target.name;
+    this.code = code;
+    this.statusCode = ERROR_STATUS_CODES[code];
+    this.expose = options.expose ?? this.statusCode < 500;
+    if (options.details) {
+      this.details = options.details;
+    }
+  }
+
+  /**
+   * Message that is safe to send to the client
+   */
+  public get publicMessage(): string {
+    return this.expose ? this.message : DEFAULT_ERROR_MESSAGES[this.code];
+  }
+}
+
+// ============================================
+// 4xx Errors
+// ============================================
+
+export class BadRequestError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super('BAD_REQUEST', message, options);
+  }
+}
+
+export class ValidationError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super('VALIDATION_ERROR', message, options);
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super('AUTHENTICATION_ERROR', message, options);
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super('AUTHORIZATION_ERROR', message, options);
+  }
+}
+
+export class ResourceForbiddenError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super('RESOURCE_FORBIDDEN', message, options);
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super('RESOURCE_NOT_FOUND', message, options);
+  }
+}
+
+export class NotAcceptableError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super('NOT_ACCEPTABLE', message, options);
+  }
+}
+
+export class RequestTimeoutError extends HttpError {
+  /** Timeout that elapsed, when raised by the handler timeout */
+  public readonly timeoutMs?: number;
+
+  constructor(message?: string, options: HttpErrorOptions & { timeoutMs?: number } = {}) {
+    super('REQUEST_TIMEOUT', message, options);
+    if (options.timeoutMs !== undefined) {
+      this.timeoutMs = options.timeoutMs;
+    }
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super('CONFLICT', message, options);
+  }
+}
+
+export class PreconditionFailedError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super('PRECONDITION_FAILED', message, options);
+  }
+}
+
+export class PayloadTooLargeError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super('PAYLOAD_TOO_LARGE', message, options);
+  }
+}
+
+export class UnsupportedMediaTypeError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super('UNSUPPORTED_MEDIA_TYPE', message, options);
+  }
+}
+
+export class UnprocessableEntityError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super('UNPROCESSABLE_ENTITY', message, options);
+  }
+}
+
+export class PreconditionRequiredError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super('PRECONDITION_REQUIRED', message, options);
+  }
+}
+
+export class HeadersTooLargeError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super('HEADERS_TOO_LARGE', message, options);
+  }
+}
+
+export class RateLimitError extends HttpError {
+  /** Seconds until the client may retry, sent as `Retry-After` */
+  public readonly retryAfter?: number;
+
+  constructor(message?: string, options: HttpErrorOptions & { retryAfter?: number } = {}) {
+    super('RATE_LIMIT_EXCEEDED', message, options);
+    if (options.retryAfter !== undefined) {
+      this.retryAfter = options.retryAfter;
+    }
+  }
+}
+
+// ============================================
+// 5xx Errors
+// ============================================
+
+export class InternalServerError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super('INTERNAL_ERROR', message, options);
+  }
+}
+
+export class ServiceUnavailableError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super('SERVICE_UNAVAILABLE', message, options);
+  }
+}
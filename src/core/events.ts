@@ -0,0 +1,149 @@
+/**
+ * Framework Events
+ *
+ * Typed publish/subscribe for what happens inside the framework: the handler
+ * lifecycle, authentication, caching, rate limiting, sanitization and
+ * encryption. Use it for alerting, analytics or plugins without touching
+ * core code.
+ *
+ * Subscribers cannot affect request handling. Their errors (thrown or
+ * rejected) are logged and dropped. Sync subscribers run inline when the
+ * event is published. Async subscribers run after the publisher has moved
+ * on, so slow work never delays a response.
+ */
+
+import type { FrameworkEvent, FrameworkEventData, FrameworkEventType, HandlerContext } from './types';
+import { getRequestId } from './request-context';
+
+// ============================================
+// Types
+// ============================================
+
+export type FrameworkEventListener<T extends FrameworkEventType = FrameworkEventType> =
+  (event: FrameworkEvent<T>) => void | Promise<void>;
+
+export interface SubscribeOptions {
+  /** Run after the publishing code has moved on instead of inline (default false) */
+  async?: boolean;
+}
+
+/** Every event type, for subscribers that want all of them */
+const ALL_EVENTS = '*';
+
+interface Subscriber {
+  listener: FrameworkEventListener<any>;
+  async: boolean;
+}
+
+// ============================================
+// Event Bus
+// ============================================
+
+export class FrameworkEvents {
+  private static instance: FrameworkEvents;
+  private subscribers: Map<FrameworkEventType | typeof ALL_EVENTS, Subscriber[]> = new Map();
+
+  private constructor() { }
+
+  public static getInstance(): FrameworkEvents {
+    if (!FrameworkEvents.instance) {
+      FrameworkEvents.instance = new FrameworkEvents();
+    }
+    return FrameworkEvents.instance;
+  }
+
+  /**
+   * Subscribe to one event type, or to all with `'*'`. Returns a function
+   * that unsubscribes.
+   */
+  public on<T extends FrameworkEventType>(
+    type: T,
+    listener: FrameworkEventListener<T>,
+    options?: SubscribeOptions
+  ): () => void;
+  public on(type: typeof ALL_EVENTS, listener: FrameworkEventListener, options?: SubscribeOptions): () => void;
+  public on(
+    type: FrameworkEventType | typeof ALL_EVENTS,
+    listener: FrameworkEventListener<any>,
+    options: SubscribeOptions = {}
+  ): () => void {
+    const subscriber: Subscriber = { listener, async: options.async === true };
+    this.subscribers.set(type, [...(this.subscribers.get(type) || []), subscriber]);
+
+    return () => {
+      const current = this.subscribers.get(type) || [];
+      this.subscribers.set(type, current.filter(s => s !== subscriber));
+    };
+  }
+
+  /**
+   * Publish an event. Never throws and never waits for subscribers.
+   */
+  public emit<T extends FrameworkEventType>(type: T, data: FrameworkEventData[T], context?: HandlerContext): void {
+    const subscribers = [...(this.subscribers.get(type) || []), ...(this.subscribers.get(ALL_EVENTS) || [])];
+    if (subscribers.length === 0) {
+      return;
+    }
+
+    const requestId = getRequestId();
+    const event = {
+      type,
+      timestamp: new Date(),
+      data,
+      ...(requestId ? { requestId } : {}),
+      ...(context ? { context } : {}),
+    } as FrameworkEvent;
+
+    for (const subscriber of subscribers) {
+      if (subscriber.async) {
+        setImmediate(() => this.deliver(subscriber, event));
+      } else {
+        this.deliver(subscriber, event);
+      }
+    }
+  }
+
+  /**
+   * Number of subscribers to an event type, counting `'*'` subscribers
+   */
+  public listenerCount(type: FrameworkEventType): number {
+    return (this.subscribers.get(type)?.length || 0) + (this.subscribers.get(ALL_EVENTS)?.length || 0);
+  }
+
+  /**
+   * Remove all subscribers (or all subscribers of one type)
+   */
+  public clear(type?: FrameworkEventType | typeof ALL_EVENTS): void {
+    if (type) {
+      this.subscribers.delete(type);
+    } else {
+      this.subscribers.clear();
+    }
+  }
+
+  private deliver(subscriber: Subscriber, event: FrameworkEvent): void {
+    try {
+      const result = subscriber.listener(event);
+      if (result && typeof result.then === 'function') {
+        result.then(undefined, error => reportFailure(event, error));
+      }
+    } catch (error) {
+      reportFailure(event, error);
+    }
+  }
+}
+
+function reportFailure(event: FrameworkEvent, error: unknown): void {
+  console.error(`[FrameworkEvents] ${event.type} subscriber failed:`, error instanceof Error ? error.message : error);
+}
+
+/**
+ * Publish a framework event on the app-wide bus
+ */
+export function emitFrameworkEvent<T extends FrameworkEventType>(
+  type: T,
+  data: FrameworkEventData[T],
+  context?: HandlerContext
+): void {
+  FrameworkEvents.getInstance().emit(type, data, context);
+}
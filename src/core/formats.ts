@@ -0,0 +1,299 @@
+/**
+ * Response Formats
+ *
+ * Content negotiation for handlers that declare `produces`, and the
+ * serializers for the non-JSON formats. JSON keeps the usual envelope; CSV,
+ * NDJSON and MessagePack send the data alone with `meta` moved to headers.
+ */
+
+import { Request, Response } from 'express';
+
+import { ApiMeta, ResponseFormat } from './types';
+
+export const FORMAT_MEDIA_TYPES: Record<ResponseFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  ndjson: 'application/x-ndjson',
+  msgpack: 'application/msgpack',
+};
+
+// Older MessagePack media types clients still send
+const MEDIA_TYPE_ALIASES: Record<string, ResponseFormat> = {
+  'application/x-msgpack': 'msgpack',
+  'application/vnd.msgpack': 'msgpack',
+};
+
+// CSV cells starting with these are read as formulas by spreadsheets
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+/**
+ * Pick the response format: `?format=` wins over `Accept`, and no
+ * preference means the first format in `produces`. Returns undefined when
+ * none of `produces` is acceptable (406).
+ */
+export function negotiateFormat(req: Request, produces: ResponseFormat[]): ResponseFormat | undefined {
+  const requested = req.query?.format;
+  if (typeof requested === 'string' && requested !== '') {
+    return produces.find(format => format === requested.toLowerCase());
+  }
+
+  const accept = req.get('Accept');
+  if (!accept) {
+    return produces[0];
+  }
+
+  const candidates = [
+    ...produces.map(format => FORMAT_MEDIA_TYPES[format]),
+    ...Object.keys(MEDIA_TYPE_ALIASES).filter(type => produces.includes(MEDIA_TYPE_ALIASES[type]!)),
+  ];
+  const match = req.accepts(candidates);
+  if (!match) {
+    return undefined;
+  }
+
+  return MEDIA_TYPE_ALIASES[match]
+    || produces.find(format => FORMAT_MEDIA_TYPES[format] === match);
+}
+
+/**
+ * Record the negotiated format; `successResponse` serializes with it
+ */
+export function setResponseFormat(res: Response, format: ResponseFormat): void {
+  res.locals.responseFormat = format;
+}
+
+export function getResponseFormat(res: Response): ResponseFormat {
+  return res.locals?.responseFormat || 'json';
+}
+
+/**
+ * Send `data` in a non-JSON format with `meta` as headers
+ */
+export function sendFormatted(
+  res: Response,
+  format: Exclude<ResponseFormat, 'json'>,
+  data: unknown,
+  status: number,
+  meta: ApiMeta
+): Response {
+  res.set(metaHeaders(meta));
+
+  switch (format) {
+    case 'csv':
+      return res.status(status).type('text/csv; charset=utf-8').send(toCsv(data));
+    case 'ndjson':
+      return res.status(status).type(FORMAT_MEDIA_TYPES.ndjson).send(toNdjson(data));
+    case 'msgpack':
+      return res.status(status).type(FORMAT_MEDIA_TYPES.msgpack).send(encodeMsgpack(data));
+  }
+}
+
+/**
+ * `meta` of the JSON envelope as response headers
+ */
+export function metaHeaders(meta: ApiMeta): Record<string, string> {
+  return {
+    'X-Request-Id': meta.requestId,
+    'X-API-Version': meta.version,
+    ...(meta.executionTime !== undefined ? { 'X-Execution-Time': String(meta.executionTime) } : {}),
+    ...(meta.cached ? { 'X-Cache': 'HIT' } : {}),
+    ...(meta.idempotent ? { 'Idempotent-Replayed': 'true' } : {}),
+    ...(meta.pagination?.total !== undefined ? { 'X-Total-Count': String(meta.pagination.total) } : {}),
+    ...(meta.pagination?.nextCursor ? { 'X-Next-Cursor': meta.pagination.nextCursor } : {}),
+  };
+}
+
+// ============================================
+// CSV (RFC 4180)
+// ============================================
+
+/**
+ * One row per list item (a single object is one row). Nested objects are
+ * flattened to `owner.email` columns; arrays are written as JSON.
+ */
+export function toCsv(data: unknown): string {
+  const items = Array.isArray(data) ? data : data === undefined || data === null ? [] : [data];
+  const rows: Record<string, unknown>[] = items.map(item => (isRecord(item) ? flatten(item) : { value: item }));
+
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  for (const row of rows) {
+    for (const column of Object.keys(row)) {
+      if (!seen.has(column)) {
+        seen.add(column);
+        columns.push(column);
+      }
+    }
+  }
+
+  const lines = [
+    columns.map(escapeCsvField).join(','),
+    ...rows.map(row => columns.map(column => escapeCsvField(formatCsvValue(row[column]))).join(',')),
+  ];
+  return columns.length > 0 ? `${lines.join('\r\n')}\r\n` : '';
+}
+
+function flatten(record: Record<string, unknown>, prefix = '', into: Record<string, unknown> = {}): Record<string, unknown> {
+  for (const [key, value] of Object.entries(record)) {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (isRecord(value)) {
+      flatten(value, column, into);
+    } else {
+      into[column] = value;
+    }
+  }
+  return into;
+}
+
+function formatCsvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof (value as any).toJSON === 'function') {
+    // Dates, Decimals
+    return formatCsvValue((value as any).toJSON());
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+
+  const text = String(value);
+  // Neutralize formula injection in strings; numbers like -5 stay as they are
+  if (typeof value === 'string' && FORMULA_PREFIXES.some(prefix => text.startsWith(prefix))) {
+    return `'${text}`;
+  }
+  return text;
+}
+
+function escapeCsvField(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// ============================================
+// NDJSON
+// ============================================
+
+/**
+ * One JSON document per line; a single object is one line
+ */
+export function toNdjson(data: unknown): string {
+  const items = Array.isArray(data) ? data : data === undefined ? [] : [data];
+  return items.map(item => `${JSON.stringify(item ?? null)}\n`).join('');
+}
+
+// ============================================
+// MessagePack
+// ============================================
+
+/**
+ * Encode a value as MessagePack. Values are first reduced the way
+ * `JSON.stringify` would (Dates become ISO strings, `undefined` properties
+ * are dropped); Buffers are sent as binary.
+ */
+export function encodeMsgpack(value: unknown): Buffer {
+  const chunks: Buffer[] = [];
+  writeMsgpack(value, chunks);
+  return Buffer.concat(chunks);
+}
+
+function writeMsgpack(value: unknown, chunks: Buffer[]): void {
+  if (value === null || value === undefined) {
+    chunks.push(Buffer.from([0xc0]));
+  } else if (typeof value === 'boolean') {
+    chunks.push(Buffer.from([value ? 0xc3 : 0xc2]));
+  } else if (typeof value === 'number') {
+    writeNumber(value, chunks);
+  } else if (typeof value === 'bigint') {
+    const buffer = Buffer.alloc(9);
+    if (value < 0n) {
+      buffer[0] = 0xd3;
+      buffer.writeBigInt64BE(value, 1);
+    } else {
+      buffer[0] = 0xcf;
+      buffer.writeBigUInt64BE(value, 1);
+    }
+    chunks.push(buffer);
+  } else if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    chunks.push(lengthHeader(bytes.length, [0xa0, 0x1f], 0xd9, 0xda, 0xdb), bytes);
+  } else if (Buffer.isBuffer(value)) {
+    chunks.push(lengthHeader(value.length, undefined, 0xc4, 0xc5, 0xc6), value);
+  } else if (Array.isArray(value)) {
+    chunks.push(lengthHeader(value.length, [0x90, 0x0f], undefined, 0xdc, 0xdd));
+    for (const item of value) {
+      writeMsgpack(item, chunks);
+    }
+  } else if (typeof (value as any).toJSON === 'function') {
+    writeMsgpack((value as any).toJSON(), chunks);
+  } else if (typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, entry]) => entry !== undefined && typeof entry !== 'function');
+    chunks.push(lengthHeader(entries.length, [0x80, 0x0f], undefined, 0xde, 0xdf));
+    for (const [key, entry] of entries) {
+      writeMsgpack(key, chunks);
+      writeMsgpack(entry, chunks);
+    }
+  } else {
+    chunks.push(Buffer.from([0xc0]));
+  }
+}
+
+function writeNumber(value: number, chunks: Buffer[]): void {
+  if (!Number.isSafeInteger(value)) {
+    const buffer = Buffer.alloc(9);
+    buffer[0] = 0xcb;
+    buffer.writeDoubleBE(value, 1);
+    chunks.push(buffer);
+  } else if (value >= 0 && value <= 0x7f) {
+    chunks.push(Buffer.from([value]));
+  } else if (value < 0 && value >= -32) {
+    chunks.push(Buffer.from([0xe0 | (value + 32)]));
+  } else if (value >= 0) {
+    chunks.push(value <= 0xff ? Buffer.from([0xcc, value])
+      : value <= 0xffff ? withInt(0xcd, 2, buffer => buffer.writeUInt16BE(value, 1))
+        : value <= 0xffffffff ? withInt(0xce, 4, buffer => buffer.writeUInt32BE(value, 1))
+          : withInt(0xcf, 8, buffer => buffer.writeBigUInt64BE(BigInt(value), 1)));
+  } else {
+    chunks.push(value >= -0x80 ? withInt(0xd0, 1, buffer => buffer.writeInt8(value, 1))
+      : value >= -0x8000 ? withInt(0xd1, 2, buffer => buffer.writeInt16BE(value, 1))
+        : value >= -0x80000000 ? withInt(0xd2, 4, buffer => buffer.writeInt32BE(value, 1))
+          : withInt(0xd3, 8, buffer => buffer.writeBigInt64BE(BigInt(value), 1)));
+  }
+}
+
+function withInt(type: number, size: number, write: (buffer: Buffer) => void): Buffer {
+  const buffer = Buffer.alloc(size + 1);
+  buffer[0] = type;
+  write(buffer);
+  return buffer;
+}
+
+/**
+ * Header for a string/binary/array/map of `length`: the fix- form when
+ * `fixed` is given and it fits, otherwise the 8/16/32-bit length form
+ */
+function lengthHeader(
+  length: number,
+  fixed: [number, number] | undefined,
+  type8: number | undefined,
+  type16: number,
+  type32: number
+): Buffer {
+  if (fixed && length <= fixed[1]) {
+    return Buffer.from([fixed[0] | length]);
+  }
+  if (type8 !== undefined && length <= 0xff) {
+    return Buffer.from([type8, length]);
+  }
+  if (length <= 0xffff) {
+    return withInt(type16, 2, buffer => buffer.writeUInt16BE(length, 1));
+  }
+  return withInt(type32, 4, buffer => buffer.writeUInt32BE(length, 1));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
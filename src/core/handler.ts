@@ -30,26 +30,71 @@ import {
   HandlerContext,
   User,
   TenantContext,
+  TraceContext,
+  FieldSelection,
 } from './types';
 import {
   successResponse,
   errorResponse,
   validationErrorResponse,
-  unauthorizedResponse,
-  forbiddenResponse,
-  rateLimitResponse,
   internalErrorResponse,
+  httpErrorResponse,
+  notModifiedResponse,
+  sendApiResponse,
 } from './response';
+import { PRECONDITION_METHODS, stableStringify, computeETag, etagMatches, applyETag } from './conditional';
+import { HttpError, RequestTimeoutError } from './errors';
+import { buildLinkHeader, createPaginator } from './pagination';
+import { applySelection } from './selection';
+import { getRequestId, runWithRequestContext } from './request-context';
+import { runHooks } from './hooks';
+import { emitFrameworkEvent } from './events';
+import { Bulkhead } from './bulkhead';
+import { CircuitBreakerRegistry } from './circuit-breaker';
+import { attachHandlerMetadata } from './route-registry';
+import type { AppScope } from './app';
+import {
+  ClientClosedError,
+  createRequestCancellation,
+  raceAbort,
+} from './cancellation';
+import {
+  PipelineState,
+  RateLimitInfo,
+  RequiredServices,
+  STATE_CHANGING_METHODS,
+  DEFAULT_REQUEST_TIMEOUT,
+  generateSecureTraceId,
+  generateSpanId,
+  sanitizeErrorMessage,
+  mapMethodToAuditEventType,
+  getRequiredServices,
+  configureErrorResponses,
+  negotiateResponseFormat,
+  enforceRequestLimits,
+  readRequestBody,
+  initializeEncryptionService,
+  getPrismaClient,
+  shedLoad,
+  checkFeatureFlags,
+  checkApiVersion,
+  resolveTenant,
+  authenticateRequest,
+  verifyCsrfToken,
+  enforceRateLimit,
+  acquireConcurrencySlot,
+  parseUpload,
+  validateInput,
+  resolveSelection,
+  verifyTenantRole,
+  verifyOwnership,
+  AllowedModel,
+} from './pipeline';
 
 // Import services
-import { AuthManager } from '../auth/manager';
 import { SanitizationService } from '../security/sanitization';
-import { EncryptionService } from '../security/encryption';
-import { RedisRateLimiter } from '../security/rate-limiting';
 import { CacheManager } from '../caching/manager';
-import { AuditEventType, AuditCategory, AuditStatus, AuditSeverity } from '../audit/audit-types';
-import { ServiceInitializer } from './service-initializer';
-import { CSRFProtection } from '../security/csrf';
+import { AuditCategory, AuditStatus, AuditSeverity } from '../audit/audit-types';
 import { IdempotencyService } from '../security/idempotency';
 import { createTenantExtension } from '../database/prisma-tenant-extension';
 
@@ -57,20 +102,6 @@ import { createTenantExtension } from '../database/prisma-tenant-extension';
 // Constants & Configuration
 // ============================================
 
-const ALLOWED_PRISMA_MODELS = [
-  'user',
-  'project',
-  'task',
-  'auditLog',
-  'tenant',
-  'tenantMember',
-  'organization',
-  'document',
-  'comment',
-] as const;
-
-type AllowedModel = typeof ALLOWED_PRISMA_MODELS[number];
-
 const TENANT_SCOPED_MODELS = new Set([
   'project',
   'task',
@@ -79,55 +110,20 @@ const TENANT_SCOPED_MODELS = new Set([
   'comment',
 ]);
 
-const DEFAULT_REQUEST_TIMEOUT = 30000; // 30 seconds
-const MAX_REQUEST_BODY_SIZE = 10 * 1024 * 1024; // 10MB
-
-// State-changing HTTP methods that require CSRF protection
-const STATE_CHANGING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
-
 // ============================================
 // Enhanced Types
 // ============================================
 
 interface EnhancedHandlerContext<TInput> extends HandlerContext<TInput> {
-  transaction: <T>(fn: (tx: PrismaClient) => Promise<T>) => Promise<T>;
+  /** Run `fn` in a transaction that rolls back if the request is cancelled */
+  transaction: <T>(fn: (tx: PrismaClient, signal: AbortSignal) => Promise<T>) => Promise<T>;
   idempotencyKey?: string;
 }
 
-interface RateLimitInfo {
-  limit: number;
-  remaining: number;
-  reset: number;
-}
-
 // ============================================
 // Utility Functions
 // ============================================
 
-function generateSecureTraceId(): string {
-  return `trace_${Date.now()}_${crypto.randomUUID()}`;
-}
-
-function generateSpanId(): string {
-  return `span_${crypto.randomUUID()}`;
-}
-
-/**
- * Stable JSON stringify that sorts keys for deterministic output
- */
-function stableStringify(obj: any): string {
-  if (obj === null || obj === undefined) return '';
-  if (typeof obj !== 'object') return String(obj);
-
-  if (Array.isArray(obj)) {
-    return `[${obj.map(stableStringify).join(',')}]`;
-  }
-
-  const keys = Object.keys(obj).sort();
-  const pairs = keys.map(k => `"${k}":${stableStringify(obj[k])}`);
-  return `{${pairs.join(',')}}`;
-}
-
 /**
  * Deep clone an object for audit trail
  */
@@ -150,48 +146,6 @@ function deepClone<T>(obj: T): T {
   return cloned;
 }
 
-/**
- * Sanitize error message for safe logging
- */
-function sanitizeErrorMessage(message: string): string {
-  // Remove potential SQL fragments
-  let sanitized = message.replace(/SELECT|INSERT|UPDATE|DELETE|DROP|CREATE|ALTER/gi, '[SQL]');
-
-  // Remove potential file paths
-  sanitized = sanitized.replace(/[A-Za-z]:\\[\w\\.-]+|\/[\w\/.-]+/g, '[PATH]');
-
-  // Remove email addresses
-  sanitized = sanitized.replace(/[\w.-]+@[\w.-]+\.\w+/g, '[EMAIL]');
-
-  // Remove potential API keys/tokens (common patterns)
-  sanitized = sanitized.replace(/[a-zA-Z0-9_-]{32,}/g, '[TOKEN]');
-
-  return sanitized;
-}
-
-function mapMethodToAuditEventType(method: string): AuditEventType {
-  switch (method.toUpperCase()) {
-    case 'POST':
-      return AuditEventType.CREATE;
-    case 'GET':
-      return AuditEventType.READ;
-    case 'PUT':
-    case 'PATCH':
-      return AuditEventType.UPDATE;
-    case 'DELETE':
-      return AuditEventType.DELETE;
-    default:
-      return AuditEventType.CUSTOM;
-  }
-}
-
-/**
- * Validate that a model name is in the allowed list
- */
-function validateModelName(model: string): model is AllowedModel {
-  return ALLOWED_PRISMA_MODELS.includes(model as AllowedModel);
-}
-
 /**
  * Generate a secure cache key with proper isolation and hashing
  * Uses SHA-256 to hash input data to prevent cache key length issues
@@ -200,12 +154,18 @@ function generateCacheKey(
   path: string,
   input: any,
   userId?: string,
-  tenantId?: string
+  tenantId?: string,
+  selection?: FieldSelection
 ): string {
+  // Each field selection is a different projection of the result
+  const keyInput = selection
+    ? { input, fields: [...selection.fields].sort(), expand: [...selection.expand].sort() }
+    : input;
+
   // Hash the input to prevent cache key length issues and improve security
   const inputHash = crypto
     .createHash('sha256')
-    .update(stableStringify(input))
+    .update(stableStringify(keyInput))
     .digest('hex')
     .substring(0, 16); // First 16 chars for brevity
 
@@ -220,87 +180,38 @@ function generateCacheKey(
   return parts.join(':');
 }
 
-// ============================================
-// Enhanced Service Initialization
-// ============================================
-
-interface RequiredServices {
-  monitoring: any;
-  configManager: any;
-  tenantManager: any;
-  versionManager: any;
-  auditService: any;
-  encryptionService?: EncryptionService;
-  csrfProtection?: CSRFProtection;
-  idempotencyService?: IdempotencyService;
-}
-
-/**
- * Validate and get required services with proper error handling
- */
-function getRequiredServices(): RequiredServices {
-  const services = ServiceInitializer.getServices();
-
-  if (!services.monitoring) {
-    throw new Error('Monitoring service not initialized');
-  }
-  if (!services.configManager) {
-    throw new Error('ConfigManager service not initialized');
-  }
-  if (!services.tenantManager) {
-    throw new Error('TenantManager service not initialized');
-  }
-  if (!services.versionManager) {
-    throw new Error('VersionManager service not initialized');
-  }
-  if (!services.auditService) {
-    throw new Error('AuditService not initialized');
-  }
-
-  return services as RequiredServices;
-}
-
 /**
- * Initialize encryption service with proper validation
+ * A loaded resource as a GET handler returning it sends it (outputSchema,
+ * sanitization and encryption applied, no field selection), for comparing
+ * `If-Match` with the ETag that GET set
  */
-function initializeEncryptionService(): EncryptionService {
-  const encryptionKey = process.env.ENCRYPTION_KEY;
-
-  if (!encryptionKey) {
-    if (process.env.NODE_ENV === 'production') {
-      throw new Error('ENCRYPTION_KEY environment variable must be set in production');
+async function renderResource(
+  resource: unknown,
+  config: HandlerConfig<any, any>,
+  services: RequiredServices,
+  encryptionService: { processResponse: (data: any) => Promise<any> }
+): Promise<unknown> {
+  let rendered = resource;
+
+  if (config.outputSchema) {
+    const parsed = await config.outputSchema.safeParseAsync(resource);
+    if (parsed.success) {
+      rendered = parsed.data;
     }
-    console.warn('⚠️  ENCRYPTION_KEY not set - using development key (DO NOT USE IN PRODUCTION)');
-  }
-
-  const key = encryptionKey || 'dev-key-change-in-production-32chars!!!';
-
-  if (key.length < 32) {
-    throw new Error('ENCRYPTION_KEY must be at least 32 characters');
   }
-
-  return EncryptionService.getInstance({ key });
-}
-
-/**
- * Get or create tenant-aware Prisma client with proper connection management
- */
-async function getPrismaClient(
-  tenantId: string | undefined,
-  tenantManager: any,
-  globalPrisma: PrismaClient
-): Promise<PrismaClient> {
-  if (tenantId) {
-    return await tenantManager.getPrismaClient(tenantId);
+  if (config.sanitizeResponse !== false) {
+    rendered = await (services.sanitizationService || SanitizationService.getInstance()).sanitizeResponse(rendered);
   }
-
-  if (!globalPrisma) {
-    throw new Error('Global Prisma client not provided. Please inject via dependency injection.');
+  try {
+    rendered = await encryptionService.processResponse(rendered);
+  } catch {
+    // The GET failed the same way (production) or sent it unencrypted
   }
 
-  return globalPrisma;
+  return rendered;
 }
 
+
 // ============================================
 // Prisma Middleware Factory
 // ============================================
@@ -393,7 +304,8 @@ function createTenantScopingMiddleware(tenantId: string) {
  */
 function _createHandler<TInput = unknown, TOutput = unknown>(
   config: HandlerConfig<TInput, TOutput>,
-  injectedPrisma?: PrismaClient
+  injectedPrisma?: PrismaClient,
+  app?: AppScope
 ) {
   // Apply security preset if specified
   let effectiveConfig = config;
@@ -403,7 +315,10 @@ function _createHandler<TInput = unknown, TOutput = unknown>(
     effectiveConfig = mergePresetConfig(config.preset, config);
   }
 
-  return async (req: Request, res: Response): Promise<any> => {
+  // Shared by every request to this handler
+  const bulkhead = effectiveConfig.concurrency ? new Bulkhead(effectiveConfig.concurrency) : undefined;
+
+  const handleRequest = async (req: Request, res: Response): Promise<any> => {
     const traceId = generateSecureTraceId();
     const startTime = Date.now();
 
@@ -414,9 +329,20 @@ function _createHandler<TInput = unknown, TOutput = unknown>(
     let prisma: any = null;
     let monitoring: any;
     let auditService: any;
+    const cancellation = createRequestCancellation(res);
+    const { signal } = cancellation;
+    // Context shared with lifecycle hooks; grows as the pipeline progresses
+    let hookContext: any = { request: req, signal };
+    const hooks = effectiveConfig.hooks;
+    // Reported to framework event subscribers once the request is done
+    let failure: { errorType: string; message: string } | undefined;
+    let eventContext: HandlerContext<TInput> | undefined;
+    let releaseSlot: (() => void) | undefined;
 
     // Wrap everything in try-finally to ensure cleanup
     try {
+      emitFrameworkEvent('handler:start', { method: req.method, path: req.path, traceId });
+
       // ============================================
       // 0. Service Initialization & Validation
       // ============================================
@@ -424,290 +350,202 @@ function _createHandler<TInput = unknown, TOutput = unknown>(
       const services = getRequiredServices();
       monitoring = services.monitoring;
       auditService = services.auditService;
-      const { configManager, tenantManager, versionManager } = services;
+      const { tenantManager } = services;
+      configureErrorResponses(effectiveConfig, services, res);
 
       // Initialize optional services
-      const encryptionService = initializeEncryptionService();
-      const csrfProtection = services.csrfProtection || CSRFProtection.getInstance();
+      const encryptionService = services.encryptionService || initializeEncryptionService();
       const idempotencyService = services.idempotencyService || IdempotencyService.getInstance();
 
       // Start monitoring span
       if (effectiveConfig.monitoring?.enableTracing) {
-        span = monitoring.startSpan('handler', { traceId });
+        span = monitoring.startSpan('handler', { traceId, request_id: getRequestId() });
       }
 
       const params = req.params || {};
       const query = req.query || {};
 
       // ============================================
-      // 0a. Request Size Validation
+      // 0a. Request Limits & Content Type
       // ============================================
 
-      const contentLength = parseInt(req.get('content-length') || '0', 10);
-      if (contentLength > MAX_REQUEST_BODY_SIZE) {
-        monitoring.recordMetric('request.too_large', 1, {
-          size: contentLength.toString(),
-        });
-        return errorResponse(res, 'PAYLOAD_TOO_LARGE', 'Request body too large', 413);
+      const limitResponse = enforceRequestLimits(req, res, effectiveConfig, monitoring);
+      if (limitResponse) {
+        return limitResponse;
       }
 
       // ============================================
-      // 0b. Content-Type Validation
+      // 0b. Request Body (read while streaming)
       // ============================================
 
-      if (STATE_CHANGING_METHODS.has(req.method)) {
-        const contentType = req.get('content-type');
-        if (contentType && !contentType.includes('application/json') && !contentType.includes('multipart/form-data')) {
-          return errorResponse(res, 'UNSUPPORTED_MEDIA_TYPE', 'Content-Type must be application/json', 415);
-        }
+      const bodyResponse = await readRequestBody(req, res, effectiveConfig.limits, monitoring);
+      if (bodyResponse) {
+        return bodyResponse;
       }
 
       // ============================================
-      // 1. Configuration & Feature Flags
+      // 0c. Response Format Negotiation
       // ============================================
 
-      if (effectiveConfig.featureFlags) {
-        const featureFlags = configManager.getFeatureFlags();
-        const disabledFeatures = effectiveConfig.featureFlags.filter(
-          (flag: string) => !featureFlags[flag]
-        );
+      const formatResponse = negotiateResponseFormat(req, res, effectiveConfig);
+      if (formatResponse) {
+        return formatResponse;
+      }
 
-        if (disabledFeatures.length > 0) {
-          return errorResponse(
-            res,
-            'SERVICE_UNAVAILABLE',
-            `Feature ${disabledFeatures[0]} is disabled`,
-            503
-          );
-        }
+      // ============================================
+      // 1. Configuration, Load Shedding & Feature Flags
+      // ============================================
+
+      const pipeline: PipelineState<TInput> = {
+        config: effectiveConfig,
+        services,
+        auditEnabled,
+        user: null,
+      };
+
+      let stepResponse = shedLoad(req, res, pipeline);
+      if (stepResponse) {
+        return stepResponse;
+      }
+
+      stepResponse = checkFeatureFlags(res, pipeline);
+      if (stepResponse) {
+        return stepResponse;
       }
 
       // ============================================
       // 2. API Versioning
       // ============================================
 
-      if (effectiveConfig.apiVersion) {
-        const clientVersion = versionManager.getClientVersion(req);
-        if (!versionManager.isVersionSupported(clientVersion, effectiveConfig.apiVersion)) {
-          return errorResponse(
-            res,
-            'BAD_REQUEST',
-            `API version ${clientVersion} is not supported. Required: ${effectiveConfig.apiVersion}`,
-            400
-          );
-        }
+      stepResponse = checkApiVersion(req, res, pipeline);
+      if (stepResponse) {
+        return stepResponse;
       }
 
       // ============================================
       // 3. Multi-Tenant Context
       // ============================================
 
-      if (tenantManager.isEnabled()) {
-        const tenantId = await tenantManager.resolveTenantId(req);
-        if (tenantId) {
-          tenant = await tenantManager.getTenantContext(tenantId) || undefined;
-        }
-
-        // Only fail if tenant is required
-        if (!tenant && configManager.getConfig().multitenancy.enabled) {
-          return errorResponse(res, 'BAD_REQUEST', 'Invalid tenant', 400);
-        }
+      stepResponse = await resolveTenant(req, res, pipeline);
+      tenant = pipeline.tenant;
+      if (stepResponse) {
+        return stepResponse;
       }
 
       // ============================================
-      // 4. Authentication
+      // 3a. Lifecycle Hooks: beforeAuth
       // ============================================
 
-      if (effectiveConfig.requireAuth) {
-        const authManager = AuthManager.getInstance();
-        const strategies = effectiveConfig.authStrategies || ['jwt'];
-
-        user = await authManager.authenticate(req, strategies);
-
-        if (!user) {
-          monitoring.recordMetric('auth.failure', 1, {
-            method: req.method,
-            path: req.path,
-          });
-
-          // Audit: Log authentication failure
-          if (auditEnabled) {
-            await auditService.logAuthEvent('login_failed', undefined, false, 'Authentication required', {
-              request: req,
-            });
-          }
-
-          return unauthorizedResponse(res, 'Authentication required');
-        }
-
-        monitoring.recordMetric('auth.success', 1, {
+      const trace: TraceContext = {
+        traceId,
+        spanId: generateSpanId(),
+        startTime: new Date(startTime),
+        tags: {
           method: req.method,
-          user_role: user?.role || 'user',
-        });
+          path: req.path,
+          user_id: '',
+          tenant_id: tenant?.id || '',
+        },
+      };
 
-        // Audit: Log successful authentication
-        if (auditEnabled && effectiveConfig.auditConfig?.trackDataChanges !== false) {
-          await auditService.logAuthEvent('login', user.id, true, undefined, {
-            user,
-            request: req,
-          });
-        }
+      hookContext = {
+        request: req,
+        params,
+        query,
+        trace,
+        signal,
+        ...(tenant ? { tenant } : {}),
+      };
 
-        // Role-based access control (global check)
-        if (effectiveConfig.allowedRoles && effectiveConfig.allowedRoles.length > 0) {
-          const userRole = user?.role || 'user';
-
-          // Note: Tenant-scoped role validation happens after Prisma initialization
-          if (!tenant && !effectiveConfig.allowedRoles.includes(userRole)) {
-            monitoring.recordMetric('auth.forbidden', 1, {
-              required_roles: effectiveConfig.allowedRoles.join(','),
-              user_role: userRole,
-            });
-            return forbiddenResponse(res, 'Insufficient permissions for this operation');
-          }
-        }
+      const beforeAuthResponse = await runHooks('beforeAuth', hooks?.beforeAuth, hookContext);
+      if (beforeAuthResponse) {
+        return sendApiResponse(res, beforeAuthResponse);
+      }
 
-        // Permission-based access control
-        if (effectiveConfig.requiredPermissions && effectiveConfig.requiredPermissions.length > 0) {
-          const userPermissions = user?.permissions || [];
-          const hasPermissions = effectiveConfig.requiredPermissions.every(
-            (permission: string) => userPermissions.includes(permission)
-          );
+      // ============================================
+      // 4. Authentication
+      // ============================================
 
-          if (!hasPermissions) {
-            monitoring.recordMetric('auth.forbidden', 1, {
-              required_permissions: effectiveConfig.requiredPermissions.join(','),
-            });
-            return forbiddenResponse(res, 'Missing required permissions');
-          }
-        }
+      stepResponse = await authenticateRequest(req, res, pipeline);
+      user = pipeline.user;
+      if (stepResponse) {
+        return stepResponse;
       }
 
       // ============================================
       // 5. CSRF Protection
       // ============================================
 
-      if (STATE_CHANGING_METHODS.has(req.method) && effectiveConfig.requireAuth && effectiveConfig.csrfProtection !== false) {
-        const csrfToken = req.get('X-CSRF-Token') || req.body?._csrf;
-
-        if (!csrfToken) {
-          monitoring.recordMetric('csrf.missing_token', 1);
-          return forbiddenResponse(res, 'CSRF token required');
-        }
-
-        const isValidCsrf = await csrfProtection.validateToken(csrfToken, user?.id);
-
-        if (!isValidCsrf) {
-          monitoring.recordMetric('csrf.invalid_token', 1);
-
-          if (auditEnabled) {
-            await auditService.logSecurityEvent(
-              'csrf.validation.failed',
-              AuditSeverity.WARNING,
-              'Invalid CSRF token',
-              { userId: user?.id },
-              { user, request: req }
-            );
-          }
-
-          return forbiddenResponse(res, 'Invalid CSRF token');
-        }
-
-        monitoring.recordMetric('csrf.valid', 1);
+      stepResponse = await verifyCsrfToken(req, res, pipeline);
+      if (stepResponse) {
+        return stepResponse;
       }
 
       // ============================================
       // 6. Rate Limiting
       // ============================================
 
-      let rateLimitInfo: RateLimitInfo | undefined;
-
-      if (effectiveConfig.rateLimit) {
-        const rateLimiter = RedisRateLimiter.getInstance();
-        const key = effectiveConfig.rateLimit.keyGenerator
-          ? effectiveConfig.rateLimit.keyGenerator(req, user || undefined)
-          : `rate-limit:${user?.id || req.ip}:${req.path}`;
-
-        const result = await rateLimiter.getLimitInfo(key, effectiveConfig.rateLimit);
-
-        if (!result.allowed) {
-          monitoring.recordMetric('rate_limit.exceeded', 1, {
-            key,
-            method: req.method,
-            path: req.path,
-          });
-
-          const resetAt = result.resetTime.getTime();
-
-          // Add rate limit headers
-          res.set({
-            'X-RateLimit-Limit': effectiveConfig.rateLimit.maxRequests.toString(),
-            'X-RateLimit-Remaining': '0',
-            'X-RateLimit-Reset': resetAt.toString(),
-            'Retry-After': Math.ceil((resetAt - Date.now()) / 1000).toString(),
-          });
+      stepResponse = await enforceRateLimit(req, res, pipeline);
+      if (stepResponse) {
+        return stepResponse;
+      }
+      const rateLimitInfo = pipeline.rateLimitInfo;
 
-          return rateLimitResponse(res, 'Rate limit exceeded');
-        }
+      // ============================================
+      // 6a. Concurrency Limits (Bulkhead)
+      // ============================================
 
-        const resetAt = result.resetTime.getTime();
+      stepResponse = await acquireConcurrencySlot(req, res, pipeline, bulkhead, signal);
+      releaseSlot = pipeline.releaseSlot;
+      if (stepResponse) {
+        return stepResponse;
+      }
 
-        rateLimitInfo = {
-          limit: effectiveConfig.rateLimit.maxRequests,
-          remaining: result.remaining,
-          reset: resetAt,
-        };
+      // ============================================
+      // 6b. File Uploads
+      // ============================================
 
-        // Add rate limit headers to successful responses
-        res.set({
-          'X-RateLimit-Limit': effectiveConfig.rateLimit.maxRequests.toString(),
-          'X-RateLimit-Remaining': result.remaining.toString(),
-          'X-RateLimit-Reset': resetAt.toString(),
-        });
+      stepResponse = await parseUpload(req, res, pipeline);
+      if (stepResponse) {
+        return stepResponse;
       }
 
       // ============================================
       // 7. Input Validation & Sanitization
       // ============================================
 
-      let input: TInput;
+      stepResponse = await validateInput(req, res, pipeline);
+      if (stepResponse) {
+        return stepResponse;
+      }
+      let input = pipeline.input as TInput;
 
-      if (effectiveConfig.schema) {
-        try {
-          // Get request body from Express (already parsed by express.json())
-          const body = req.method !== 'GET' ? req.body : {};
+      // ============================================
+      // 7a. Lifecycle Hooks: afterValidation
+      // ============================================
 
-          // Combine body and query params for validation
-          const rawInput = {
-            ...body,
-            ...query,
-          };
+      trace.tags.user_id = user?.id || '';
+      hookContext.user = user;
+      hookContext.input = input;
 
-          // Sanitize input
-          const sanitizationService = SanitizationService.getInstance();
-          const sanitizedInput = await sanitizationService.sanitize(rawInput);
+      const afterValidationResponse = await runHooks('afterValidation', hooks?.afterValidation, hookContext);
+      if (afterValidationResponse) {
+        return sendApiResponse(res, afterValidationResponse);
+      }
 
-          // Validate with Zod
-          const parseResult = effectiveConfig.schema.safeParse(sanitizedInput);
+      // Hooks may enrich or replace the user and input
+      user = hookContext.user;
+      input = hookContext.input;
 
-          if (!parseResult.success) {
-            const details = parseResult.error.flatten().fieldErrors;
-            monitoring.recordMetric('validation.error', 1, {
-              field_count: Object.keys(details).length.toString(),
-            });
-            return validationErrorResponse(res, 'Invalid input data', details);
-          }
+      // ============================================
+      // 7b. Field Selection
+      // ============================================
 
-          input = parseResult.data;
-        } catch (error) {
-          if (error instanceof SyntaxError) {
-            return validationErrorResponse(res, 'Invalid JSON in request body');
-          }
-          throw error;
-        }
-      } else {
-        input = {} as TInput;
+      stepResponse = resolveSelection(req, res, pipeline);
+      if (stepResponse) {
+        return stepResponse;
       }
+      const selection = pipeline.selection;
 
       // ============================================
       // 8. Idempotency Check
@@ -752,18 +590,28 @@ function _createHandler<TInput = unknown, TOutput = unknown>(
       // 9. Cache Check
       // ============================================
 
+      // GET results carry an ETag unless disabled or sent with a custom status
+      const sendETag = effectiveConfig.etag !== false
+        && req.method === 'GET'
+        && (effectiveConfig.successStatus || 200) === 200;
+
       if (effectiveConfig.cache && req.method === 'GET') {
-        const cacheManager = CacheManager.getInstance();
+        const cacheManager = services.cacheManager || CacheManager.getInstance();
         const cacheKey = effectiveConfig.cache.keyGenerator
           ? effectiveConfig.cache.keyGenerator(req, user || undefined)
-          : generateCacheKey(req.path, input, user?.id, tenant?.id);
+          : generateCacheKey(req.path, input, user?.id, tenant?.id, selection);
 
-        const cached = await cacheManager.get(cacheKey);
+        const cached = await cacheManager.get(cacheKey, { signal });
         if (cached) {
           monitoring.recordMetric('cache.hit', 1, {
             key: cacheKey,
           });
 
+          if (sendETag && applyETag(req, res, cached)) {
+            monitoring.recordMetric('conditional.not_modified', 1);
+            return notModifiedResponse(res);
+          }
+
           const executionTime = Date.now() - startTime;
           return successResponse(res, cached, undefined, 200, {
             executionTime,
@@ -780,57 +628,16 @@ function _createHandler<TInput = unknown, TOutput = unknown>(
       // 10. Database Connection
       // ============================================
 
-      prisma = await getPrismaClient(tenant?.id, tenantManager, injectedPrisma!);
+      prisma = await getPrismaClient(tenant?.id, tenantManager, services.prisma || injectedPrisma!);
 
       // ============================================
       // 10a. Tenant-Scoped Role Validation
       // ============================================
 
-      if (tenant && effectiveConfig.allowedRoles && effectiveConfig.allowedRoles.length > 0 && effectiveConfig.tenantRoleValidation !== false) {
-        try {
-          // Check if user has required role in THIS tenant
-          const tenantMembership = await prisma.tenantMember.findFirst({
-            where: {
-              userId: user!.id,
-              tenantId: tenant!.id,
-              role: { in: effectiveConfig.allowedRoles as any[] },
-              isActive: true,
-            },
-          });
-
-          if (!tenantMembership) {
-            monitoring.recordMetric('auth.tenant_role_forbidden', 1, {
-              required_roles: effectiveConfig.allowedRoles.join(','),
-              user_role: user?.role || 'unknown',
-              tenant_id: tenant.id,
-            });
-
-            // Audit: Log tenant authorization failure
-            if (auditEnabled) {
-              await auditService.logSecurityEvent(
-                'tenant.authorization.failed',
-                AuditSeverity.WARNING,
-                `User ${user!.id} attempted to access tenant ${tenant.id} with insufficient role`,
-                { required_roles: effectiveConfig.allowedRoles, user_role: user?.role },
-                { user, tenant, request: req }
-              );
-            }
-
-            return forbiddenResponse(
-              res,
-              `Insufficient permissions in this tenant. Required: ${effectiveConfig.allowedRoles.join(' or ')}`
-            );
-          }
-
-          // Success - user has required role in this tenant
-          monitoring.recordMetric('auth.tenant_role_success', 1, {
-            role: tenantMembership.role,
-            tenant_id: tenant.id,
-          });
-        } catch (error) {
-          console.error('Tenant role validation error:', error);
-          return forbiddenResponse(res, 'Role verification failed');
-        }
+      pipeline.user = user;
+      stepResponse = await verifyTenantRole(req, res, pipeline, prisma);
+      if (stepResponse) {
+        return stepResponse;
       }
 
       // ============================================
@@ -855,67 +662,31 @@ function _createHandler<TInput = unknown, TOutput = unknown>(
       // 11. Resource Ownership Verification
       // ============================================
 
-      let resource: any = undefined;
+      stepResponse = await verifyOwnership(req, res, pipeline, prisma);
+      if (stepResponse) {
+        return stepResponse;
+      }
+      const { resource } = pipeline;
 
-      if (effectiveConfig.requireOwnership && user) {
-        const { model, resourceIdParam, resourceIdField, ownerIdField, tenantIdField, selectFields } = effectiveConfig.requireOwnership;
-        const resourceId = params[resourceIdParam];
+      // ============================================
+      // 11a. Preconditions (Optimistic Concurrency)
+      // ============================================
 
-        if (!resourceId) {
-          return validationErrorResponse(res, `Missing required parameter: ${resourceIdParam}`);
-        }
+      if (PRECONDITION_METHODS.has(req.method)) {
+        const ifMatch = req.get('If-Match');
 
-        // Validate model name to prevent SQL injection
-        if (!validateModelName(model)) {
-          console.error(`Invalid model name: ${model}`);
-          return forbiddenResponse(res, 'Invalid resource type');
+        if (!ifMatch && effectiveConfig.requirePrecondition) {
+          return errorResponse(res, 'PRECONDITION_REQUIRED', 'If-Match header required', 428);
         }
 
-        try {
-          // Build Prisma query with ownership filters
-          const where: any = {
-            [resourceIdField || 'id']: resourceId,
-          };
-
-          // Add owner filter
-          if (ownerIdField && user.id) {
-            where[ownerIdField] = user.id;
-          }
-
-          // Add tenant filter
-          if (tenantIdField && tenant?.id) {
-            where[tenantIdField] = tenant.id;
-          }
-
-          // Query using validated model name
-          const modelName = model.toLowerCase();
-          resource = await (prisma as any)[modelName].findFirst({
-            where,
-            select: selectFields ? Object.fromEntries(selectFields.map((f: string) => [f, true])) : undefined,
+        // Compared with the ETag a GET sends for the resource, so rendered the same way
+        if (ifMatch && resource
+          && !etagMatches(ifMatch, computeETag(await renderResource(resource, effectiveConfig, services, encryptionService)), 'strong')) {
+          monitoring.recordMetric('conditional.precondition_failed', 1, {
+            method: req.method,
+            path: req.path,
           });
-
-          if (!resource) {
-            monitoring.recordMetric('ownership.verification_failed', 1, {
-              model,
-              resource_id: resourceId,
-            });
-
-            // Audit: Log authorization failure
-            if (auditEnabled) {
-              await auditService.logSecurityEvent(
-                'authorization.failed',
-                AuditSeverity.WARNING,
-                `Access denied to ${model} ${resourceId}`,
-                { model, resourceId },
-                { user, tenant, request: req }
-              );
-            }
-
-            return forbiddenResponse(res, 'Resource not found or access denied');
-          }
-        } catch (error) {
-          console.error('Ownership verification error:', error);
-          return forbiddenResponse(res, 'Resource verification failed');
+          return errorResponse(res, 'PRECONDITION_FAILED', 'Resource has been modified', 412);
         }
       }
 
@@ -923,6 +694,7 @@ function _createHandler<TInput = unknown, TOutput = unknown>(
       // 12. Execute Handler with Timeout
       // ============================================
 
+      const paginator = createPaginator(req, effectiveConfig.paginate);
       const handlerContext: EnhancedHandlerContext<TInput> = {
         input,
         user,
@@ -930,27 +702,27 @@ function _createHandler<TInput = unknown, TOutput = unknown>(
         params,
         query,
         request: req,
+        signal,
         ...(resource ? { resource } : {}),
+        ...(pipeline.files ? { files: pipeline.files } : {}),
+        ...(selection ? { selection } : {}),
         ...(tenant ? { tenant } : {}),
         ...(idempotencyKey ? { idempotencyKey } : {}),
-        trace: {
-          traceId,
-          spanId: generateSpanId(),
-          startTime: new Date(startTime),
-          tags: {
-            method: req.method,
-            path: req.path,
-            user_id: user?.id || '',
-            tenant_id: tenant?.id || '',
-          },
-        },
-        // Transaction helper
-        transaction: async <T>(fn: (tx: PrismaClient) => Promise<T>): Promise<T> => {
+        trace,
+        // Transaction helper; throwing the abort reason before commit rolls back
+        transaction: async <T>(fn: (tx: PrismaClient, signal: AbortSignal) => Promise<T>): Promise<T> => {
+          signal.throwIfAborted();
           return await prisma!.$transaction(async (tx: any) => {
-            return await fn(tx as PrismaClient);
+            const result = await fn(tx as PrismaClient, signal);
+            signal.throwIfAborted();
+            return result;
           });
         },
+        paginate: paginator.paginate,
+        breaker: (name, options) => (services.circuitBreakers || CircuitBreakerRegistry.getInstance()).get(name, options),
       };
+      hookContext = handlerContext;
+      eventContext = handlerContext;
 
       // Capture old data for UPDATE/DELETE operations (deep clone for audit trail)
       let oldData: any;
@@ -958,38 +730,89 @@ function _createHandler<TInput = unknown, TOutput = unknown>(
         oldData = deepClone(resource);
       }
 
-      // Execute with timeout
-      const timeout = effectiveConfig.timeout || DEFAULT_REQUEST_TIMEOUT;
+      // Execute with timeout; the handler sees it through ctx.signal
+      cancellation.startTimeout(effectiveConfig.timeout || DEFAULT_REQUEST_TIMEOUT);
 
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          reject(new Error(`Request timeout after ${timeout}ms`));
-        }, timeout);
-      });
+      const result = await raceAbort(effectiveConfig.handler(handlerContext), signal);
+
+      // ============================================
+      // 12a. Lifecycle Hooks: beforeResponse
+      // ============================================
+
+      const beforeResponseContext = Object.assign(handlerContext, { result });
+      const beforeResponseResponse = await runHooks('beforeResponse', hooks?.beforeResponse, beforeResponseContext);
+      if (beforeResponseResponse) {
+        return sendApiResponse(res, beforeResponseResponse);
+      }
+
+      // ============================================
+      // 12b. Output Validation
+      // ============================================
+
+      if (effectiveConfig.outputSchema) {
+        const outputResult = await effectiveConfig.outputSchema.safeParseAsync(beforeResponseContext.result);
+
+        if (!outputResult.success) {
+          const issues = outputResult.error.issues.map(issue => ({
+            path: issue.path.join('.') || '(root)',
+            code: issue.code,
+            message: issue.message,
+          }));
+
+          monitoring.recordMetric('output_validation.error', 1, {
+            method: req.method,
+            path: req.path,
+            issue_count: issues.length.toString(),
+          });
+          console.error('[API Handler] Response failed output schema validation', {
+            method: req.method,
+            path: req.path,
+            traceId,
+            paths: issues.map(issue => issue.path),
+          });
+
+          if (process.env.NODE_ENV === 'development') {
+            return errorResponse(
+              res,
+              'INTERNAL_ERROR',
+              'Handler result does not match outputSchema',
+              500,
+              { issues },
+              traceId
+            );
+          }
+          return internalErrorResponse(res);
+        }
 
-      const result = await Promise.race([
-        effectiveConfig.handler(handlerContext),
-        timeoutPromise,
-      ]);
+        // Parsed output has unknown keys stripped
+        beforeResponseContext.result = outputResult.data as Awaited<TOutput>;
+      }
 
       // ============================================
       // 13. Auto-sanitize and encrypt response
       // ============================================
 
-      let processedResult = result;
+      let processedResult = beforeResponseContext.result;
+
+      // Project onto the requested fields before sanitizing
+      if (selection) {
+        processedResult = applySelection(processedResult, selection);
+      }
 
       // Sanitize response
       const shouldSanitize = effectiveConfig.sanitizeResponse !== false;
       if (shouldSanitize) {
-        const sanitizationService = SanitizationService.getInstance();
+        const sanitizationService = services.sanitizationService || SanitizationService.getInstance();
         processedResult = await sanitizationService.sanitizeResponse(processedResult);
         monitoring.recordMetric('sanitization.applied', 1);
+        emitFrameworkEvent('sanitization:applied', { target: 'response' }, eventContext);
       }
 
       // Encrypt sensitive fields if configured
       try {
         processedResult = await encryptionService.processResponse(processedResult);
         monitoring.recordMetric('encryption.applied', 1);
+        emitFrameworkEvent('encryption:applied', { target: 'response' }, eventContext);
       } catch (error: any) {
         // In production, encryption failures should fail the request
         if (process.env.NODE_ENV === 'production') {
@@ -1004,14 +827,15 @@ function _createHandler<TInput = unknown, TOutput = unknown>(
       // 14. Cache Result
       // ============================================
 
-      if (effectiveConfig.cache && req.method === 'GET') {
-        const cacheManager = CacheManager.getInstance();
+      // Paginated results are not cached: a hit could not restore their links
+      if (effectiveConfig.cache && req.method === 'GET' && !paginator.meta) {
+        const cacheManager = services.cacheManager || CacheManager.getInstance();
         const cacheKey = effectiveConfig.cache.keyGenerator
           ? effectiveConfig.cache.keyGenerator(req, user || undefined)
-          : generateCacheKey(req.path, input, user?.id, tenant?.id);
+          : generateCacheKey(req.path, input, user?.id, tenant?.id, selection);
 
         try {
-          await cacheManager.set(cacheKey, processedResult, effectiveConfig.cache.ttl);
+          await cacheManager.set(cacheKey, processedResult, effectiveConfig.cache.ttl, undefined, { signal });
           monitoring.recordMetric('cache.set', 1);
         } catch (error: any) {
           console.error('Cache set failed:', sanitizeErrorMessage(error.message));
@@ -1040,6 +864,7 @@ function _createHandler<TInput = unknown, TOutput = unknown>(
       // 16. Success Response
       // ============================================
 
+      const notModified = sendETag && applyETag(req, res, processedResult);
       const executionTime = Date.now() - startTime;
       monitoring.recordMetric('handler.success', 1, {
         method: req.method,
@@ -1065,7 +890,7 @@ function _createHandler<TInput = unknown, TOutput = unknown>(
               ...(effectiveConfig.auditConfig?.trackDataChanges ? { oldData } : {}),
               ...(effectiveConfig.auditConfig?.captureResponseBody ? { newData: processedResult } : {}),
               status: AuditStatus.SUCCESS,
-              statusCode: effectiveConfig.successStatus || 200,
+              statusCode: notModified ? 304 : effectiveConfig.successStatus || 200,
               severity: AuditSeverity.INFO,
               executionTimeMs: executionTime,
               ...(effectiveConfig.auditConfig?.metadata ? { metadata: effectiveConfig.auditConfig.metadata } : {}),
@@ -1085,16 +910,34 @@ function _createHandler<TInput = unknown, TOutput = unknown>(
         }
       }
 
+      const pagination = paginator.meta;
+      const link = pagination ? buildLinkHeader(req, pagination) : undefined;
+      if (link) {
+        res.set('Link', link);
+      }
+
+      if (notModified) {
+        monitoring.recordMetric('conditional.not_modified', 1);
+        return notModifiedResponse(res);
+      }
+
       return successResponse(res, processedResult, undefined, effectiveConfig.successStatus, {
         executionTime,
         ...(rateLimitInfo ? { rateLimit: rateLimitInfo } : {}),
+        ...(pagination ? { pagination } : {}),
       });
 
-    } catch (error: any) {
+    } catch (caught: any) {
       const executionTime = Date.now() - startTime;
 
+      // Once the request is cancelled, whatever the handler threw is a consequence of it
+      const error = signal.aborted ? signal.reason : caught;
+      const isTimeout = error instanceof RequestTimeoutError;
+      const isClientClosed = error instanceof ClientClosedError;
+
       // Sanitize error message for logging
       const sanitizedError = sanitizeErrorMessage(error.message);
+      failure = { errorType: error.constructor.name, message: sanitizedError };
 
       // Record error metrics
       if (monitoring) {
@@ -1124,9 +967,18 @@ function _createHandler<TInput = unknown, TOutput = unknown>(
               category: AuditCategory.SYSTEM,
               action: `${req.method.toLowerCase()}.error`,
               description: `Error in ${req.method} ${req.path}`,
-              status: AuditStatus.FAILURE,
+              ...(isTimeout
+                ? { status: AuditStatus.REQUEST_TIMEOUT, statusCode: 408, severity: AuditSeverity.WARNING }
+                : isClientClosed
+                  ? { status: AuditStatus.CLIENT_CLOSED, statusCode: 499, severity: AuditSeverity.NOTICE }
+                  : error instanceof HttpError
+                    ? {
+                      status: AuditStatus.FAILURE,
+                      statusCode: error.statusCode,
+                      severity: error.statusCode < 500 ? AuditSeverity.WARNING : AuditSeverity.ERROR,
+                    }
+                    : { status: AuditStatus.FAILURE, severity: AuditSeverity.ERROR }),
               errorMessage: sanitizedError,
-              severity: AuditSeverity.ERROR,
               executionTimeMs: executionTime,
               metadata: {
                 errorType: error.constructor.name,
@@ -1145,6 +997,24 @@ function _createHandler<TInput = unknown, TOutput = unknown>(
         }
       }
 
+      // Nobody is left to receive a response
+      if (isClientClosed) {
+        if (monitoring) {
+          monitoring.recordMetric('handler.client_closed', 1);
+        }
+        return undefined;
+      }
+
+      // Lifecycle hooks: onError (may replace the default error response)
+      try {
+        const onErrorResponse = await runHooks('onError', hooks?.onError, { ...hookContext, error });
+        if (onErrorResponse) {
+          return sendApiResponse(res, onErrorResponse);
+        }
+      } catch (hookError: any) {
+        console.error('onError hook failed:', sanitizeErrorMessage(hookError.message));
+      }
+
       // Zod validation errors
       if (error instanceof z.ZodError) {
         return validationErrorResponse(
@@ -1155,11 +1025,13 @@ function _createHandler<TInput = unknown, TOutput = unknown>(
       }
 
       // Timeout errors
-      if (error.message && error.message.includes('timeout')) {
-        if (monitoring) {
-          monitoring.recordMetric('handler.timeout', 1);
-        }
-        return errorResponse(res, 'REQUEST_TIMEOUT', 'Request timed out', 408);
+      if (isTimeout && monitoring) {
+        monitoring.recordMetric('handler.timeout', 1);
+      }
+
+      // Typed errors thrown by the handler (or the timeout) carry their own status
+      if (error instanceof HttpError) {
+        return httpErrorResponse(res, error, traceId);
       }
 
       // Return generic error (don't expose internal details)
@@ -1171,6 +1043,12 @@ function _createHandler<TInput = unknown, TOutput = unknown>(
       );
 
     } finally {
+      // Cleanup: Clear the timeout and stop watching the connection
+      cancellation.dispose();
+
+      // Cleanup: Free the bulkhead slot for the next queued request
+      releaseSlot?.();
+
       // Cleanup: Always end monitoring span
       if (span && monitoring) {
         try {
@@ -1180,6 +1058,19 @@ function _createHandler<TInput = unknown, TOutput = unknown>(
         }
       }
 
+      const outcome = {
+        method: req.method,
+        path: req.path,
+        traceId,
+        statusCode: res.statusCode,
+        duration: Date.now() - startTime,
+      };
+      if (failure) {
+        emitFrameworkEvent('handler:error', { ...outcome, ...failure }, eventContext);
+      } else {
+        emitFrameworkEvent('handler:complete', outcome, eventContext);
+      }
+
       // Cleanup: Disconnect Prisma if needed
       // Note: In production, use connection pooling and don't disconnect on every request
       // Only disconnect tenant-specific clients that were created for this request
@@ -1195,6 +1086,16 @@ function _createHandler<TInput = unknown, TOutput = unknown>(
       }
     }
   };
+
+  // Everything the request triggers can read its id through getRequestId(),
+  // and the services of the app the handler was created by
+  const requestHandler = (req: Request, res: Response): Promise<any> =>
+    runWithRequestContext(req, res, () => (app ? app.run(() => handleRequest(req, res)) : handleRequest(req, res)));
+
+  return attachHandlerMetadata(requestHandler, {
+    config: effectiveConfig,
+    ...(config.preset ? { preset: config.preset } : {}),
+  });
 }
 
 // ============================================
@@ -1220,12 +1121,13 @@ function _createHandler<TInput = unknown, TOutput = unknown>(
  */
 export const createAuthenticatedHandler = <TInput, TOutput>(
   config: Omit<HandlerConfig<TInput, TOutput>, 'requireAuth' | 'preset'>,
-  injectedPrisma?: PrismaClient
+  injectedPrisma?: PrismaClient,
+  app?: AppScope
 ): ReturnType<typeof _createHandler<TInput, TOutput>> => {
   return _createHandler({
     preset: 'authenticated',
     ...config,
-  }, injectedPrisma);
+  }, injectedPrisma, app);
 };
 
 /**
@@ -1249,12 +1151,13 @@ export const createAuthenticatedHandler = <TInput, TOutput>(
  */
 export const createPublicHandler = <TInput, TOutput>(
   config: Omit<HandlerConfig<TInput, TOutput>, 'requireAuth' | 'preset'>,
-  injectedPrisma?: PrismaClient
+  injectedPrisma?: PrismaClient,
+  app?: AppScope
 ): ReturnType<typeof _createHandler<TInput, TOutput>> => {
   return _createHandler({
     preset: 'public',
     ...config,
-  }, injectedPrisma);
+  }, injectedPrisma, app);
 };
 
 /**
@@ -1277,12 +1180,13 @@ export const createPublicHandler = <TInput, TOutput>(
  */
 export const createSuperAdminHandler = <TInput, TOutput>(
   config: Omit<HandlerConfig<TInput, TOutput>, 'requireAuth' | 'allowedRoles'>,
-  injectedPrisma?: PrismaClient
+  injectedPrisma?: PrismaClient,
+  app?: AppScope
 ): ReturnType<typeof _createHandler<TInput, TOutput>> => {
   return _createHandler({
     preset: 'admin',
     ...config,
-  }, injectedPrisma);
+  }, injectedPrisma, app);
 };
 
 /**
@@ -1335,7 +1239,8 @@ export const createSuperAdminHandler = <TInput, TOutput>(
  */
 export const createTenantHandler = <TInput, TOutput>(
   config: Omit<HandlerConfig<TInput, TOutput>, 'requireAuth'>,
-  injectedPrisma?: PrismaClient
+  injectedPrisma?: PrismaClient,
+  app?: AppScope
 ): ReturnType<typeof _createHandler<TInput, TOutput>> => {
   return _createHandler({
     preset: 'tenant',
@@ -1343,7 +1248,7 @@ export const createTenantHandler = <TInput, TOutput>(
     // Allow overriding tenant-specific settings
     tenantRoleValidation: config.tenantRoleValidation !== false,
     autoTenantScope: config.autoTenantScope !== false,
-  }, injectedPrisma);
+  }, injectedPrisma, app);
 };
 
 // ============================================
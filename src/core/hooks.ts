@@ -0,0 +1,184 @@
+/**
+ * Handler Lifecycle Hooks
+ *
+ * Extension points that run between the built-in steps of the handler
+ * pipeline. Hooks can be declared per handler (`HandlerConfig.hooks`) or
+ * registered app-wide through the `HookRegistry`.
+ *
+ * Execution order for every phase:
+ * 1. Global hooks, in registration order
+ * 2. Handler hooks, in array order
+ *
+ * A hook may return an `ApiResponse` to short-circuit the pipeline; the
+ * remaining hooks and steps are skipped and that response is sent as-is.
+ */
+
+import type { ApiResponse } from './types';
+import { ServiceInitializer } from './service-initializer';
+import type { EnhancedHandlerContext } from './handler';
+
+// ============================================
+// Hook Types
+// ============================================
+
+export type HookPhase = 'beforeAuth' | 'afterValidation' | 'beforeResponse' | 'onError';
+
+/** Value a hook may return: nothing to continue, or a response to short-circuit */
+export type HookResult = ApiResponse | void;
+
+/**
+ * Context available before authentication (after tenant resolution)
+ */
+export type BeforeAuthContext<TInput = unknown> = Pick<
+  EnhancedHandlerContext<TInput>,
+  'request' | 'params' | 'query' | 'tenant' | 'trace' | 'signal'
+>;
+
+/**
+ * Context available once the user is authenticated and input is validated
+ */
+export type AfterValidationContext<TInput = unknown> = BeforeAuthContext<TInput> &
+  Pick<EnhancedHandlerContext<TInput>, 'user' | 'input'>;
+
+/**
+ * Full handler context plus the handler result.
+ * Assign to `result` to rewrite what is sanitized and sent.
+ */
+export type BeforeResponseContext<TInput = unknown, TOutput = unknown> =
+  EnhancedHandlerContext<TInput> & { result: TOutput };
+
+/**
+ * Whatever context was built before the failure, plus the error
+ */
+export type OnErrorContext<TInput = unknown> = Partial<EnhancedHandlerContext<TInput>> &
+  Pick<EnhancedHandlerContext<TInput>, 'request'> & { error: unknown };
+
+export type BeforeAuthHook<TInput = unknown> =
+  (ctx: BeforeAuthContext<TInput>) => HookResult | Promise<HookResult>;
+
+export type AfterValidationHook<TInput = unknown> =
+  (ctx: AfterValidationContext<TInput>) => HookResult | Promise<HookResult>;
+
+export type BeforeResponseHook<TInput = unknown, TOutput = unknown> =
+  (ctx: BeforeResponseContext<TInput, TOutput>) => HookResult | Promise<HookResult>;
+
+export type OnErrorHook<TInput = unknown> =
+  (ctx: OnErrorContext<TInput>) => HookResult | Promise<HookResult>;
+
+export interface HandlerHooks<TInput = unknown, TOutput = unknown> {
+  /** Runs after tenant resolution, before authentication */
+  beforeAuth?: BeforeAuthHook<TInput>[];
+
+  /** Runs after input validation, before idempotency and cache checks */
+  afterValidation?: AfterValidationHook<TInput>[];
+
+  /** Runs after the handler returns, before sanitization and encryption */
+  beforeResponse?: BeforeResponseHook<TInput, TOutput>[];
+
+  /**
+   * Runs when the pipeline throws. Returning a response replaces the
+   * default error response; errors thrown by these hooks are ignored.
+   */
+  onError?: OnErrorHook<TInput>[];
+}
+
+type AnyHook = (ctx: any) => HookResult | Promise<HookResult>;
+
+// ============================================
+// Global Hook Registry
+// ============================================
+
+export class HookRegistry {
+  private static instance: HookRegistry;
+  private hooks: Map<HookPhase, AnyHook[]> = new Map();
+
+  private constructor() { }
+
+  public static getInstance(): HookRegistry {
+    if (!HookRegistry.instance) {
+      HookRegistry.instance = new HookRegistry();
+    }
+    return HookRegistry.instance;
+  }
+
+  /**
+   * New registry with its own hooks, separate from the shared one
+   * (used by `createApp`)
+   */
+  public static create(): HookRegistry {
+    return new HookRegistry();
+  }
+
+  /**
+   * Register an app-wide hook. Returns a function that unregisters it.
+   */
+  public register(phase: 'beforeAuth', hook: BeforeAuthHook<any>): () => void;
+  public register(phase: 'afterValidation', hook: AfterValidationHook<any>): () => void;
+  public register(phase: 'beforeResponse', hook: BeforeResponseHook<any, any>): () => void;
+  public register(phase: 'onError', hook: OnErrorHook<any>): () => void;
+  public register(phase: HookPhase, hook: AnyHook): () => void {
+    const hooks = this.hooks.get(phase) || [];
+    hooks.push(hook);
+    this.hooks.set(phase, hooks);
+
+    return () => {
+      const current = this.hooks.get(phase) || [];
+      this.hooks.set(phase, current.filter(h => h !== hook));
+    };
+  }
+
+  /**
+   * Get global hooks for a phase
+   */
+  public getHooks(phase: HookPhase): AnyHook[] {
+    return [...(this.hooks.get(phase) || [])];
+  }
+
+  /**
+   * Remove all hooks (or all hooks of one phase)
+   */
+  public clear(phase?: HookPhase): void {
+    if (phase) {
+      this.hooks.delete(phase);
+    } else {
+      this.hooks.clear();
+    }
+  }
+}
+
+// ============================================
+// Hook Execution
+// ============================================
+
+/**
+ * Run global then handler hooks for a phase.
+ * Returns the first response a hook short-circuits with, if any.
+ */
+export async function runHooks(
+  phase: HookPhase,
+  handlerHooks: AnyHook[] | undefined,
+  ctx: any
+): Promise<ApiResponse | undefined> {
+  const hooks = [...currentHookRegistry().getHooks(phase), ...(handlerHooks || [])];
+
+  for (const hook of hooks) {
+    const result = await hook(ctx);
+    if (result && typeof result === 'object' && 'success' in result) {
+      return result;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * The app's hook registry when running inside `createApp` handlers,
+ * otherwise the shared one
+ */
+function currentHookRegistry(): HookRegistry {
+  try {
+    return ServiceInitializer.getServices().hookRegistry || HookRegistry.getInstance();
+  } catch {
+    return HookRegistry.getInstance();
+  }
+}
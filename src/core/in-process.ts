@@ -0,0 +1,148 @@
+/**
+ * In-Process Requests
+ *
+ * What it takes to run a handler without an HTTP server: a request built
+ * from plain values, a response kept in memory and Express-style query
+ * parsing. Used by batch sub-requests, the fetch adapter and the
+ * `@tenet/api/testing` harness.
+ */
+
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import express, { Request } from 'express';
+
+import { parseUrlEncoded } from './body';
+
+/**
+ * A request as any transport can describe it
+ */
+export interface InProcessRequestInit {
+  method: string;
+
+  /** Path including any query string */
+  url: string;
+
+  /** Header values by lower-case name */
+  headers: Record<string, string>;
+  params?: Record<string, string>;
+
+  /** Merged over the query parsed from `url` */
+  query?: Record<string, string | string[]>;
+
+  /** An already parsed body; the pipeline does not read `stream` when set */
+  body?: unknown;
+
+  /** The unread body, read by the pipeline within the handler's `limits` */
+  stream?: Readable;
+  ip?: string;
+}
+
+/**
+ * Build the Express-compatible request the handler pipeline reads from
+ */
+export function createInProcessRequest(init: InProcessRequestInit): Request {
+  const [pathname = '/', search = ''] = init.url.split('?', 2);
+
+  // Express's request methods (get, accepts, is) over plain properties; with
+  // a body stream, over the stream itself so it can be read and piped
+  const req: Request = init.stream
+    ? Object.setPrototypeOf(init.stream, express.request)
+    : Object.create(express.request);
+
+  Object.defineProperties(req, {
+    method: { value: init.method, enumerable: true },
+    url: { value: init.url, enumerable: true },
+    originalUrl: { value: init.url, enumerable: true },
+    baseUrl: { value: '', enumerable: true },
+    path: { value: pathname, enumerable: true },
+    query: { value: { ...parseQuery(search), ...init.query }, enumerable: true },
+    params: { value: init.params || {}, enumerable: true },
+    headers: { value: init.headers, enumerable: true },
+    body: { value: init.body ?? {}, enumerable: true, writable: true },
+    ip: { value: init.ip, enumerable: true },
+  });
+
+  return req;
+}
+
+/**
+ * The part of Express's `Response` the handler pipeline writes to
+ */
+export class InMemoryResponse extends EventEmitter {
+  public statusCode = 200;
+  public locals: Record<string, any> = {};
+  public writableFinished = false;
+
+  /** What the handler sent: the object given to `json()`, or the `send()` payload */
+  public body: unknown;
+  private readonly headers: Record<string, string> = {};
+
+  constructor(public readonly req: Request) {
+    super();
+  }
+
+  public status(code: number): this {
+    this.statusCode = code;
+    return this;
+  }
+
+  public set(field: string | Record<string, string>, value?: string): this {
+    if (typeof field === 'string') {
+      return this.setHeader(field, value ?? '');
+    }
+    for (const [name, headerValue] of Object.entries(field)) {
+      this.setHeader(name, headerValue);
+    }
+    return this;
+  }
+
+  public setHeader(name: string, value: string | number): this {
+    this.headers[name.toLowerCase()] = String(value);
+    return this;
+  }
+
+  public getHeader(name: string): string | undefined {
+    return this.headers[name.toLowerCase()];
+  }
+
+  /** Headers set so far, with lower-case names */
+  public getHeaders(): Record<string, string> {
+    return { ...this.headers };
+  }
+
+  public json(body: unknown): this {
+    this.body = body;
+    return this.finish();
+  }
+
+  public type(contentType: string): this {
+    return this.setHeader('Content-Type', contentType);
+  }
+
+  public vary(field: string): this {
+    const current = this.getHeader('Vary');
+    return this.setHeader('Vary', current ? `${current}, ${field}` : field);
+  }
+
+  public send(body: string | Buffer): this {
+    this.body = body;
+    return this.finish();
+  }
+
+  public end(): this {
+    return this.finish();
+  }
+
+  protected finish(): this {
+    this.writableFinished = true;
+    this.emit('finish');
+    return this;
+  }
+}
+
+/**
+ * Parse a query string; repeated keys become arrays as with Express
+ */
+export function parseQuery(search: string): Record<string, string | string[]> {
+  return parseUrlEncoded(search);
+}
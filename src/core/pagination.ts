@@ -0,0 +1,278 @@
+/**
+ * Pagination
+ *
+ * Backs `ctx.paginate`. Cursor mode (the default) seeks past an opaque,
+ * HMAC-signed cursor on a stable sort key plus `id`, so pages stay correct
+ * while rows are inserted. Offset mode uses `page` and a total count for UIs
+ * that jump between numbered pages.
+ *
+ * The last page fetched is recorded so the handler can add `meta.pagination`
+ * and an RFC 8288 `Link` header.
+ */
+
+import { Request } from 'express';
+import crypto from 'crypto';
+
+import { PaginateArgs, PaginationConfig, PaginationDelegate, PaginationMeta } from './types';
+import { BadRequestError } from './errors';
+
+const DEFAULT_LIMIT = 20;
+const DEFAULT_MAX_LIMIT = 100;
+
+type CursorDirection = 'next' | 'prev';
+
+interface CursorPayload {
+  /** Route the cursor was issued for */
+  p: string;
+
+  /** Sort field and order */
+  s: string;
+  o: 'asc' | 'desc';
+
+  /** Sort value and id of the boundary row */
+  v: [unknown, unknown];
+  d: CursorDirection;
+}
+
+export interface Paginator {
+  paginate: <T>(delegate: PaginationDelegate<T>, args?: PaginateArgs) => Promise<T[]>;
+
+  /** Page recorded by the last `paginate` call */
+  readonly meta: PaginationMeta | undefined;
+}
+
+/**
+ * Create the `ctx.paginate` helper for one request
+ */
+export function createPaginator(req: Request, config: PaginationConfig = {}): Paginator {
+  const { mode = 'cursor', defaultLimit = DEFAULT_LIMIT, maxLimit = DEFAULT_MAX_LIMIT } = config;
+  let meta: PaginationMeta | undefined;
+
+  const paginate = async <T>(delegate: PaginationDelegate<T>, args: PaginateArgs = {}): Promise<T[]> => {
+    const limit = parseLimit(req.query.limit, defaultLimit, maxLimit);
+    const page = mode === 'offset'
+      ? await paginateByOffset(delegate, args, limit, parsePage(req.query.page))
+      : await paginateByCursor(delegate, args, limit, req.path, req.query.cursor);
+
+    meta = page.meta;
+    return page.items;
+  };
+
+  return {
+    paginate,
+    get meta() {
+      return meta;
+    },
+  };
+}
+
+/**
+ * RFC 8288 `Link` header pointing at the neighbouring pages
+ */
+export function buildLinkHeader(req: Request, meta: PaginationMeta): string | undefined {
+  const [pathname = '', search = ''] = (req.originalUrl || req.url).split('?', 2);
+
+  const link = (rel: string, params: Record<string, string>) => {
+    const query = new URLSearchParams(search);
+    query.delete('cursor');
+    query.delete('page');
+    query.set('limit', String(meta.limit));
+    for (const [name, value] of Object.entries(params)) {
+      query.set(name, value);
+    }
+    return `<${pathname}?${query.toString()}>; rel="${rel}"`;
+  };
+
+  const links: string[] = [];
+  if (meta.mode === 'cursor') {
+    if (meta.nextCursor) links.push(link('next', { cursor: meta.nextCursor }));
+    if (meta.prevCursor) links.push(link('prev', { cursor: meta.prevCursor }));
+  } else {
+    const page = meta.page || 1;
+    const totalPages = meta.totalPages || 0;
+    links.push(link('first', { page: '1' }));
+    if (page > 1) links.push(link('prev', { page: String(Math.min(page - 1, Math.max(totalPages, 1))) }));
+    if (meta.hasMore) links.push(link('next', { page: String(page + 1) }));
+    if (totalPages > 0) links.push(link('last', { page: String(totalPages) }));
+  }
+
+  return links.length > 0 ? links.join(', ') : undefined;
+}
+
+// ============================================
+// Cursor Mode
+// ============================================
+
+async function paginateByCursor<T>(
+  delegate: PaginationDelegate<T>,
+  args: PaginateArgs,
+  limit: number,
+  path: string,
+  rawCursor: unknown
+): Promise<{ items: T[]; meta: PaginationMeta }> {
+  const { where, select, include, sortBy = 'id', sortOrder = 'desc' } = args;
+  const cursor = rawCursor !== undefined ? decodeCursor(rawCursor, path, sortBy, sortOrder) : undefined;
+  const backwards = cursor?.d === 'prev';
+
+  // Walking backwards reads the preceding rows in reverse order
+  const order = backwards ? flipOrder(sortOrder) : sortOrder;
+  const seek = cursor ? seekCondition(sortBy, order === 'asc' ? 'gt' : 'lt', cursor.v) : undefined;
+  const filters = [where, seek].filter(Boolean);
+
+  const rows = await delegate.findMany({
+    ...(filters.length > 1 ? { where: { AND: filters } } : filters.length === 1 ? { where: filters[0] } : {}),
+    ...(select ? { select: { ...select, [sortBy]: true, id: true } } : {}),
+    ...(include ? { include } : {}),
+    orderBy: sortBy === 'id' ? [{ id: order }] : [{ [sortBy]: order }, { id: order }],
+    take: limit + 1,
+  });
+
+  const hasMoreInDirection = rows.length > limit;
+  const items = rows.slice(0, limit);
+  if (backwards) {
+    items.reverse();
+  }
+
+  const first = items[0] as any;
+  const last = items[items.length - 1] as any;
+  const hasNext = backwards ? true : hasMoreInDirection;
+  const hasPrev = backwards ? hasMoreInDirection : cursor !== undefined;
+  const encode = (row: any, d: CursorDirection) =>
+    encodeCursor({ p: path, s: sortBy, o: sortOrder, v: [row[sortBy], row.id], d });
+
+  return {
+    items,
+    meta: {
+      mode: 'cursor',
+      limit,
+      hasMore: hasNext && items.length > 0,
+      ...(hasNext && last ? { nextCursor: encode(last, 'next') } : {}),
+      ...(hasPrev && first ? { prevCursor: encode(first, 'prev') } : {}),
+    },
+  };
+}
+
+/**
+ * Rows strictly after `[value, id]` in the given comparison direction
+ */
+function seekCondition(sortBy: string, op: 'gt' | 'lt', [value, id]: [unknown, unknown]): Record<string, any> {
+  if (sortBy === 'id') {
+    return { id: { [op]: id } };
+  }
+  return {
+    OR: [
+      { [sortBy]: { [op]: value } },
+      { [sortBy]: value, id: { [op]: id } },
+    ],
+  };
+}
+
+function flipOrder(order: 'asc' | 'desc'): 'asc' | 'desc' {
+  return order === 'asc' ? 'desc' : 'asc';
+}
+
+// ============================================
+// Offset Mode
+// ============================================
+
+async function paginateByOffset<T>(
+  delegate: PaginationDelegate<T>,
+  args: PaginateArgs,
+  limit: number,
+  page: number
+): Promise<{ items: T[]; meta: PaginationMeta }> {
+  const { where, select, include, sortBy = 'id', sortOrder = 'desc' } = args;
+
+  const [items, total] = await Promise.all([
+    delegate.findMany({
+      ...(where ? { where } : {}),
+      ...(select ? { select } : {}),
+      ...(include ? { include } : {}),
+      orderBy: sortBy === 'id' ? [{ id: sortOrder }] : [{ [sortBy]: sortOrder }, { id: sortOrder }],
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    delegate.count(where ? { where } : {}),
+  ]);
+
+  const totalPages = Math.ceil(total / limit);
+  return {
+    items,
+    meta: { mode: 'offset', limit, hasMore: page < totalPages, page, total, totalPages },
+  };
+}
+
+// ============================================
+// Cursor Encoding
+// ============================================
+
+/**
+ * `<base64url payload>.<base64url HMAC>`; Date sort values round-trip as `{ $date }`
+ */
+function encodeCursor(payload: CursorPayload): string {
+  const json = JSON.stringify(payload, function (this: any, key, value) {
+    // `value` has already been through Date#toJSON; check the raw property
+    return this[key] instanceof Date ? { $date: value } : value;
+  });
+  const body = Buffer.from(json).toString('base64url');
+
+  return `${body}.${sign(body)}`;
+}
+
+function decodeCursor(raw: unknown, path: string, sortBy: string, sortOrder: 'asc' | 'desc'): CursorPayload {
+  const [body, signature] = typeof raw === 'string' ? raw.split('.', 2) : [];
+  const expected = body ? sign(body) : '';
+
+  if (!body || !signature || signature.length !== expected.length
+    || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    throw new BadRequestError('Invalid cursor');
+  }
+
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'), (_key, value) =>
+      value && typeof value === 'object' && typeof value.$date === 'string' ? new Date(value.$date) : value
+    );
+  } catch {
+    throw new BadRequestError('Invalid cursor');
+  }
+
+  // A cursor only continues the listing it was issued for
+  if (payload.p !== path || payload.s !== sortBy || payload.o !== sortOrder) {
+    throw new BadRequestError('Cursor does not match this listing');
+  }
+
+  return payload;
+}
+
+function sign(body: string): string {
+  return crypto.createHmac('sha256', getCursorSecret()).update(body).digest('base64url');
+}
+
+function getCursorSecret(): string {
+  const secret = process.env.CURSOR_SECRET || process.env.ENCRYPTION_KEY;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('CURSOR_SECRET or ENCRYPTION_KEY must be set in production');
+    }
+    return 'dev-cursor-secret-change-in-production';
+  }
+  return secret;
+}
+
+// ============================================
+// Query Parameters
+// ============================================
+
+function parseLimit(raw: unknown, defaultLimit: number, maxLimit: number): number {
+  const limit = typeof raw === 'string' ? parseInt(raw, 10) : NaN;
+  if (Number.isNaN(limit)) {
+    return defaultLimit;
+  }
+  return Math.min(Math.max(limit, 1), maxLimit);
+}
+
+function parsePage(raw: unknown): number {
+  const page = typeof raw === 'string' ? parseInt(raw, 10) : NaN;
+  return Number.isNaN(page) || page < 1 ? 1 : page;
+}
@@ -0,0 +1,947 @@
+/**
+ * Shared Handler Pipeline Steps
+ *
+ * The access-control steps every handler factory runs before user code:
+ * load shedding, feature flags, versioning, tenant resolution,
+ * authentication, CSRF, rate limiting, concurrency limits, input
+ * validation, field selection, tenant role and resource ownership checks.
+ *
+ * Each step reads and updates a `PipelineState` and returns the response it
+ * sent when the request must stop, or `undefined` to continue.
+ */
+
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+
+import crypto from 'crypto';
+
+import { HandlerConfig, User, TenantContext, UploadedFile, ErrorResponseConfig, FieldSelection, RequestLimits } from './types';
+import {
+  errorResponse,
+  validationErrorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  rateLimitResponse,
+  serviceUnavailableResponse,
+  setErrorResponseConfig,
+} from './response';
+import { AuthManager } from '../auth/manager';
+import { SanitizationService } from '../security/sanitization';
+import { EncryptionService } from '../security/encryption';
+import { RedisRateLimiter } from '../security/rate-limiting';
+import { AuditEventType, AuditSeverity } from '../audit/audit-types';
+import { ServiceInitializer } from './service-initializer';
+import { CSRFProtection } from '../security/csrf';
+import { IdempotencyService } from '../security/idempotency';
+import { CacheManager } from '../caching/manager';
+import { isMultipartRequest, parseMultipart, storeUploads } from '../uploads/multipart';
+import { parseSelection } from './selection';
+import { FORMAT_MEDIA_TYPES, negotiateFormat, setResponseFormat } from './formats';
+import { emitFrameworkEvent } from './events';
+import { isRequestSchemas, parseRequestParts } from './request-schemas';
+import { Bulkhead, DEFAULT_LOAD_SHEDDING, LoadShedder } from './bulkhead';
+import type { CircuitBreakerRegistry } from './circuit-breaker';
+import type { HookRegistry } from './hooks';
+import {
+  DEFAULT_MAX_BODY_BYTES,
+  allowedContentTypes,
+  bodyMediaType,
+  findLimitViolation,
+  hasUnreadBody,
+  matchesContentType,
+  parseBody,
+  readBody,
+} from './body';
+
+// ============================================
+// Constants & Types
+// ============================================
+
+// State-changing HTTP methods that require CSRF protection
+export const STATE_CHANGING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+export const DEFAULT_REQUEST_TIMEOUT = 30000; // 30 seconds
+
+// Strategies tried when a handler requiring auth does not name any
+export const DEFAULT_AUTH_STRATEGIES = ['jwt'];
+
+/**
+ * Set by the batch router on sub-requests: the user it authenticated once
+ * for the whole batch, with the strategy that did it in
+ * `metadata.authStrategy`. A symbol, so it cannot be supplied by a client.
+ */
+export const BATCH_AUTHENTICATED_USER = Symbol.for('tenet.batch.user');
+
+// Models `requireOwnership` may query
+const ALLOWED_PRISMA_MODELS = [
+  'user',
+  'project',
+  'task',
+  'auditLog',
+  'tenant',
+  'tenantMember',
+  'organization',
+  'document',
+  'comment',
+] as const;
+
+export type AllowedModel = typeof ALLOWED_PRISMA_MODELS[number];
+
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  reset: number;
+}
+
+export interface RequiredServices {
+  monitoring: any;
+  configManager: any;
+  tenantManager: any;
+  versionManager: any;
+  auditService: any;
+  encryptionService?: EncryptionService;
+  csrfProtection?: Pick<CSRFProtection, 'validateToken'>;
+  idempotencyService?: Pick<IdempotencyService, 'get' | 'set'>;
+  authManager?: Pick<AuthManager, 'authenticate'>;
+  rateLimiter?: Pick<RedisRateLimiter, 'checkLimit' | 'getLimitInfo'>;
+  cacheManager?: Pick<CacheManager, 'get' | 'set'>;
+  sanitizationService?: Pick<SanitizationService, 'sanitize' | 'sanitizeResponse'>;
+  circuitBreakers?: CircuitBreakerRegistry;
+  hookRegistry?: HookRegistry;
+  prisma?: PrismaClient;
+}
+
+/**
+ * Per-request state threaded through the pipeline steps
+ */
+export interface PipelineState<TInput = unknown> {
+  config: HandlerConfig<TInput, any>;
+  services: RequiredServices;
+  auditEnabled: boolean;
+  user: User | null;
+  tenant?: TenantContext | undefined;
+  rateLimitInfo?: RateLimitInfo | undefined;
+  input?: TInput;
+  files?: Record<string, UploadedFile[]> | undefined;
+  selection?: FieldSelection | undefined;
+  /** Row loaded by `verifyOwnership` */
+  resource?: any;
+  /** Frees the bulkhead slot taken by `acquireConcurrencySlot` */
+  releaseSlot?: (() => void) | undefined;
+}
+
+/**
+ * Response sent by a step that stopped the request
+ */
+export type StepResult = Response | undefined;
+
+// ============================================
+// Utility Functions
+// ============================================
+
+export function generateSecureTraceId(): string {
+  return `trace_${Date.now()}_${crypto.randomUUID()}`;
+}
+
+export function generateSpanId(): string {
+  return `span_${crypto.randomUUID()}`;
+}
+
+/**
+ * Sanitize error message for safe logging
+ */
+export function sanitizeErrorMessage(message: string): string {
+  // Remove potential SQL fragments
+  let sanitized = message.replace(/SELECT|INSERT|UPDATE|DELETE|DROP|CREATE|ALTER/gi, '[SQL]');
+
+  // Remove potential file paths
+  sanitized = sanitized.replace(/[A-Za-z]:\\[\w\\.-]+|\/[\w\/.-]+/g, '[PATH]');
+
+  // Remove email addresses
+  sanitized = sanitized.replace(/[\w.-]+@[\w.-]+\.\w+/g, '[EMAIL]');
+
+  // Remove potential API keys/tokens (common patterns)
+  sanitized = sanitized.replace(/[a-zA-Z0-9_-]{32,}/g, '[TOKEN]');
+
+  return sanitized;
+}
+
+export function mapMethodToAuditEventType(method: string): AuditEventType {
+  switch (method.toUpperCase()) {
+    case 'POST':
+      return AuditEventType.CREATE;
+    case 'GET':
+      return AuditEventType.READ;
+    case 'PUT':
+    case 'PATCH':
+      return AuditEventType.UPDATE;
+    case 'DELETE':
+      return AuditEventType.DELETE;
+    default:
+      return AuditEventType.CUSTOM;
+  }
+}
+
+// ============================================
+// Service Initialization
+// ============================================
+
+/**
+ * Validate and get required services with proper error handling
+ */
+export function getRequiredServices(): RequiredServices {
+  const services = ServiceInitializer.getServices();
+
+  if (!services.monitoring) {
+    throw new Error('Monitoring service not initialized');
+  }
+  if (!services.configManager) {
+    throw new Error('ConfigManager service not initialized');
+  }
+  if (!services.tenantManager) {
+    throw new Error('TenantManager service not initialized');
+  }
+  if (!services.versionManager) {
+    throw new Error('VersionManager service not initialized');
+  }
+  if (!services.auditService) {
+    throw new Error('AuditService not initialized');
+  }
+
+  return services as RequiredServices;
+}
+
+/**
+ * Initialize encryption service with proper validation
+ */
+export function initializeEncryptionService(): EncryptionService {
+  const encryptionKey = process.env.ENCRYPTION_KEY;
+
+  if (!encryptionKey) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('ENCRYPTION_KEY environment variable must be set in production');
+    }
+    console.warn('⚠️  ENCRYPTION_KEY not set - using development key (DO NOT USE IN PRODUCTION)');
+  }
+
+  const key = encryptionKey || 'dev-key-change-in-production-32chars!!!';
+
+  if (key.length < 32) {
+    throw new Error('ENCRYPTION_KEY must be at least 32 characters');
+  }
+
+  return EncryptionService.getInstance({ key });
+}
+
+/**
+ * Apply the error format for this request: the handler's `errorFormat`,
+ * then the global `errors` config
+ */
+export function configureErrorResponses(
+  config: HandlerConfig<any, any>,
+  services: RequiredServices,
+  res: Response
+): void {
+  const globalConfig: ErrorResponseConfig | undefined = services.configManager.getConfig().errors;
+
+  setErrorResponseConfig(res, {
+    ...globalConfig,
+    format: config.errorFormat || globalConfig?.format || 'envelope',
+  });
+}
+
+/**
+ * Choose the success body format from `config.produces`; 406 when the
+ * client accepts none of them
+ */
+export function negotiateResponseFormat(
+  req: Request,
+  res: Response,
+  config: HandlerConfig<any, any>
+): StepResult {
+  if (!config.produces || config.produces.length === 0) {
+    return undefined;
+  }
+
+  res.vary('Accept');
+  const format = negotiateFormat(req, config.produces);
+  if (!format) {
+    const available = config.produces.map(name => FORMAT_MEDIA_TYPES[name]);
+    return errorResponse(res, 'NOT_ACCEPTABLE', `Available formats: ${config.produces.join(', ')}`, 406, { available });
+  }
+
+  setResponseFormat(res, format);
+  return undefined;
+}
+
+/**
+ * Enforce `config.limits` before anything is read: header size (431), query
+ * parameter count (400), declared body size (413) and the body's content
+ * type (415). Requests without a Content-Type are let through.
+ */
+export function enforceRequestLimits(
+  req: Request,
+  res: Response,
+  config: HandlerConfig<any, any>,
+  monitoring: RequiredServices['monitoring']
+): StepResult {
+  const mediaType = bodyMediaType(req);
+  const maxBodyBytes = mediaType === 'multipart/form-data' && config.upload?.maxTotalSize
+    ? config.upload.maxTotalSize
+    : config.limits?.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+  const violation = findLimitViolation(req, config.limits, maxBodyBytes);
+  if (violation) {
+    monitoring.recordMetric('request.limit_exceeded', 1, { code: violation.code });
+    return errorResponse(res, violation.code, violation.message, violation.statusCode);
+  }
+
+  if (STATE_CHANGING_METHODS.has(req.method) && mediaType) {
+    const allowed = allowedContentTypes(config);
+    if (!matchesContentType(mediaType, allowed)) {
+      return errorResponse(res, 'UNSUPPORTED_MEDIA_TYPE', `Content-Type must be one of: ${allowed.join(', ')}`, 415);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Read and parse a body still in the request stream into `req.body`,
+ * refusing it once it passes `limits.maxBodyBytes` (413). Multipart bodies
+ * are left to `parseUpload`.
+ */
+export async function readRequestBody(
+  req: Request,
+  res: Response,
+  limits: RequestLimits | undefined,
+  monitoring: RequiredServices['monitoring']
+): Promise<StepResult> {
+  const mediaType = bodyMediaType(req);
+  if (!STATE_CHANGING_METHODS.has(req.method) || !hasUnreadBody(req) || mediaType === 'multipart/form-data') {
+    return undefined;
+  }
+
+  const result = await readBody(req, limits?.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES);
+  if (result.rejection) {
+    const { statusCode, code, message } = result.rejection;
+    monitoring.recordMetric('request.limit_exceeded', 1, { code });
+    // The rest of the body is discarded, not read; don't reuse the connection
+    res.set('Connection', 'close');
+    return errorResponse(res, code, message, statusCode);
+  }
+
+  // Marks the body as consumed, as body-parser does
+  (req as any)._body = true;
+  try {
+    req.body = parseBody(result.raw, mediaType);
+  } catch {
+    return errorResponse(res, 'BAD_REQUEST', 'Invalid JSON in request body', 400);
+  }
+  return undefined;
+}
+
+/**
+ * Get or create tenant-aware Prisma client with proper connection management
+ */
+export async function getPrismaClient(
+  tenantId: string | undefined,
+  tenantManager: any,
+  globalPrisma: PrismaClient
+): Promise<PrismaClient> {
+  if (tenantId) {
+    return await tenantManager.getPrismaClient(tenantId);
+  }
+
+  if (!globalPrisma) {
+    throw new Error('Global Prisma client not provided. Please inject via dependency injection.');
+  }
+
+  return globalPrisma;
+}
+
+// ============================================
+// Pipeline Steps
+// ============================================
+
+/**
+ * Reject requests for disabled features
+ */
+export function checkFeatureFlags(res: Response, state: PipelineState<any>): StepResult {
+  const { config } = state;
+  if (!config.featureFlags) {
+    return undefined;
+  }
+
+  const featureFlags = state.services.configManager.getFeatureFlags();
+  const disabledFeatures = config.featureFlags.filter(
+    (flag: string) => !featureFlags[flag]
+  );
+
+  if (disabledFeatures.length > 0) {
+    return errorResponse(
+      res,
+      'SERVICE_UNAVAILABLE',
+      `Feature ${disabledFeatures[0]} is disabled`,
+      503
+    );
+  }
+
+  return undefined;
+}
+
+/**
+ * Reject clients requesting an unsupported API version
+ */
+export function checkApiVersion(req: Request, res: Response, state: PipelineState<any>): StepResult {
+  const { config, services: { versionManager } } = state;
+  if (!config.apiVersion) {
+    return undefined;
+  }
+
+  const clientVersion = versionManager.getClientVersion(req);
+  if (!versionManager.isVersionSupported(clientVersion, config.apiVersion)) {
+    return errorResponse(
+      res,
+      'BAD_REQUEST',
+      `API version ${clientVersion} is not supported. Required: ${config.apiVersion}`,
+      400
+    );
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve the tenant for this request into `state.tenant`
+ */
+export async function resolveTenant(req: Request, res: Response, state: PipelineState<any>): Promise<StepResult> {
+  const { configManager, tenantManager } = state.services;
+  if (!tenantManager.isEnabled()) {
+    return undefined;
+  }
+
+  const tenantId = await tenantManager.resolveTenantId(req);
+  if (tenantId) {
+    state.tenant = await tenantManager.getTenantContext(tenantId) || undefined;
+  }
+
+  // Only fail if tenant is required
+  if (!state.tenant && configManager.getConfig().multitenancy.enabled) {
+    return errorResponse(res, 'BAD_REQUEST', 'Invalid tenant', 400);
+  }
+
+  return undefined;
+}
+
+/**
+ * Authenticate the request into `state.user` and apply global role and
+ * permission checks
+ */
+export async function authenticateRequest(req: Request, res: Response, state: PipelineState<any>): Promise<StepResult> {
+  const { config, auditEnabled, services: { monitoring, auditService } } = state;
+  if (!config.requireAuth) {
+    return undefined;
+  }
+
+  const batchUser: User | undefined = (req as any)[BATCH_AUTHENTICATED_USER];
+  const authManager = state.services.authManager || AuthManager.getInstance();
+  const strategies = config.authStrategies || DEFAULT_AUTH_STRATEGIES;
+
+  // A batch identity only counts where the strategy that established it is accepted
+  const user: User | null = batchUser
+    ? strategies.includes(batchUser.metadata?.authStrategy) ? batchUser : null
+    : await authManager.authenticate(req, strategies);
+  state.user = user;
+
+  if (!user) {
+    monitoring.recordMetric('auth.failure', 1, {
+      method: req.method,
+      path: req.path,
+    });
+
+    // Audit: Log authentication failure
+    if (auditEnabled) {
+      await auditService.logAuthEvent('login_failed', undefined, false, 'Authentication required', {
+        request: req,
+      });
+    }
+
+    return unauthorizedResponse(res, 'Authentication required');
+  }
+
+  monitoring.recordMetric('auth.success', 1, {
+    method: req.method,
+    user_role: user.role || 'user',
+  });
+
+  // Audit: Log successful authentication (batches log it once for all sub-requests)
+  if (auditEnabled && !batchUser && config.auditConfig?.trackDataChanges !== false) {
+    await auditService.logAuthEvent('login', user.id, true, undefined, {
+      user,
+      request: req,
+    });
+  }
+
+  // Role-based access control (global check)
+  if (config.allowedRoles && config.allowedRoles.length > 0) {
+    const userRole = user.role || 'user';
+
+    // Note: Tenant-scoped role validation happens after Prisma initialization
+    if (!state.tenant && !config.allowedRoles.includes(userRole)) {
+      monitoring.recordMetric('auth.forbidden', 1, {
+        required_roles: config.allowedRoles.join(','),
+        user_role: userRole,
+      });
+      return forbiddenResponse(res, 'Insufficient permissions for this operation');
+    }
+  }
+
+  // Permission-based access control
+  if (config.requiredPermissions && config.requiredPermissions.length > 0) {
+    const userPermissions = user.permissions || [];
+    const hasPermissions = config.requiredPermissions.every(
+      (permission: string) => userPermissions.includes(permission)
+    );
+
+    if (!hasPermissions) {
+      monitoring.recordMetric('auth.forbidden', 1, {
+        required_permissions: config.requiredPermissions.join(','),
+      });
+      return forbiddenResponse(res, 'Missing required permissions');
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Require a valid CSRF token on authenticated state-changing requests
+ */
+export async function verifyCsrfToken(req: Request, res: Response, state: PipelineState<any>): Promise<StepResult> {
+  const { config, user, auditEnabled, services: { monitoring, auditService } } = state;
+  if (!STATE_CHANGING_METHODS.has(req.method) || !config.requireAuth || config.csrfProtection === false) {
+    return undefined;
+  }
+
+  const csrfProtection = state.services.csrfProtection || CSRFProtection.getInstance();
+  const csrfToken = req.get('X-CSRF-Token') || req.body?._csrf;
+
+  if (!csrfToken) {
+    monitoring.recordMetric('csrf.missing_token', 1);
+    return forbiddenResponse(res, 'CSRF token required');
+  }
+
+  const isValidCsrf = await csrfProtection.validateToken(csrfToken, user?.id);
+
+  if (!isValidCsrf) {
+    monitoring.recordMetric('csrf.invalid_token', 1);
+
+    if (auditEnabled) {
+      await auditService.logSecurityEvent(
+        'csrf.validation.failed',
+        AuditSeverity.WARNING,
+        'Invalid CSRF token',
+        { userId: user?.id },
+        { user, request: req }
+      );
+    }
+
+    return forbiddenResponse(res, 'Invalid CSRF token');
+  }
+
+  monitoring.recordMetric('csrf.valid', 1);
+  return undefined;
+}
+
+/**
+ * Turn away `priority: 'low'` handlers while the event loop lags (503)
+ */
+export function shedLoad(req: Request, res: Response, state: PipelineState<any>): StepResult {
+  const { config, services: { monitoring, configManager } } = state;
+  if (config.priority !== 'low') {
+    return undefined;
+  }
+
+  const shedding = { ...DEFAULT_LOAD_SHEDDING, ...configManager.getConfig().loadShedding };
+  const shedder = LoadShedder.getInstance();
+  if (!shedder.shouldShed(config.priority, shedding)) {
+    return undefined;
+  }
+
+  monitoring.recordMetric('load.shed', 1, {
+    method: req.method,
+    path: req.path,
+    lag_ms: Math.round(shedder.getLag()).toString(),
+  });
+
+  return serviceUnavailableResponse(res, 'Server is overloaded, try again later', shedding.retryAfter);
+}
+
+/**
+ * Take a slot in the handler's bulkhead, waiting in its queue when all are
+ * busy. The slot is released through `state.releaseSlot`.
+ */
+export async function acquireConcurrencySlot(
+  req: Request,
+  res: Response,
+  state: PipelineState<any>,
+  bulkhead: Bulkhead | undefined,
+  signal?: AbortSignal
+): Promise<StepResult> {
+  const { config, services: { monitoring } } = state;
+  if (!bulkhead || !config.concurrency) {
+    return undefined;
+  }
+
+  const key = config.concurrency.perTenant && state.tenant ? state.tenant.id : 'handler';
+  const labels = { method: req.method, path: req.path };
+
+  monitoring.recordMetric('concurrency.queue_depth', bulkhead.depth(key).queued, labels);
+  const result = await bulkhead.acquire(key, signal);
+
+  if (result.admitted) {
+    state.releaseSlot = result.release;
+    return undefined;
+  }
+
+  // Whoever waits for the response is gone; let the handler treat it as cancelled
+  if (result.reason === 'cancelled') {
+    signal?.throwIfAborted();
+  }
+
+  monitoring.recordMetric('concurrency.rejected', 1, { ...labels, reason: result.reason });
+  return serviceUnavailableResponse(res, 'Too many concurrent requests, try again later', bulkhead.retryAfter);
+}
+
+/**
+ * Enforce the configured rate limit and set the X-RateLimit-* headers
+ */
+export async function enforceRateLimit(req: Request, res: Response, state: PipelineState<any>): Promise<StepResult> {
+  const { config, user, services: { monitoring } } = state;
+  if (!config.rateLimit) {
+    return undefined;
+  }
+
+  const rateLimiter = state.services.rateLimiter || RedisRateLimiter.getInstance();
+  const key = config.rateLimit.keyGenerator
+    ? config.rateLimit.keyGenerator(req, user || undefined)
+    : `rate-limit:${user?.id || req.ip}:${req.path}`;
+
+  // Count the request, then read the window it was counted in for the headers
+  const allowed = await rateLimiter.checkLimit(key, config.rateLimit);
+  const result = await rateLimiter.getLimitInfo(key, config.rateLimit);
+  const resetAt = result.resetTime.getTime();
+
+  if (!allowed) {
+    monitoring.recordMetric('rate_limit.exceeded', 1, {
+      key,
+      method: req.method,
+      path: req.path,
+    });
+
+    // Add rate limit headers
+    res.set({
+      'X-RateLimit-Limit': config.rateLimit.maxRequests.toString(),
+      'X-RateLimit-Remaining': '0',
+      'X-RateLimit-Reset': resetAt.toString(),
+      'Retry-After': Math.ceil((resetAt - Date.now()) / 1000).toString(),
+    });
+
+    return rateLimitResponse(res, 'Rate limit exceeded');
+  }
+
+  state.rateLimitInfo = {
+    limit: config.rateLimit.maxRequests,
+    remaining: result.remaining,
+    reset: resetAt,
+  };
+
+  // Add rate limit headers to successful responses
+  res.set({
+    'X-RateLimit-Limit': config.rateLimit.maxRequests.toString(),
+    'X-RateLimit-Remaining': result.remaining.toString(),
+    'X-RateLimit-Reset': resetAt.toString(),
+  });
+
+  return undefined;
+}
+
+/**
+ * Parse a multipart body into `state.files` and `req.body`, then encrypt and
+ * store the files as configured
+ */
+export async function parseUpload(req: Request, res: Response, state: PipelineState<any>): Promise<StepResult> {
+  const { config, services: { monitoring } } = state;
+  if (!config.upload) {
+    return undefined;
+  }
+
+  if (!isMultipartRequest(req)) {
+    const requiredField = Object.keys(config.upload.fields).find(field => config.upload!.fields[field]!.required);
+    if (requiredField) {
+      return validationErrorResponse(res, `Missing required file: ${requiredField}`);
+    }
+    state.files = {};
+    return undefined;
+  }
+
+  const result = await parseMultipart(req, config.upload);
+
+  if (result.rejection) {
+    const { statusCode, code, message, field } = result.rejection;
+    monitoring.recordMetric('upload.rejected', 1, {
+      code,
+      ...(field ? { field } : {}),
+    });
+    return errorResponse(res, code, message, statusCode, field ? { field } : undefined);
+  }
+
+  await storeUploads(result.files, config.upload, state.services.encryptionService || initializeEncryptionService());
+
+  const fileCount = Object.values(result.files).reduce((sum, files) => sum + files.length, 0);
+  monitoring.recordMetric('upload.accepted', fileCount, {
+    encrypted: String(config.upload.encrypt === true),
+  });
+
+  // Text fields are validated by `validateInput` like a JSON body
+  req.body = result.fields;
+  state.files = result.files;
+  return undefined;
+}
+
+/**
+ * Sanitize and validate the request against `config.schema` into
+ * `state.input`: body + query merged for a single schema, each part on its
+ * own for `{ params, query, body, headers }`
+ */
+export async function validateInput(req: Request, res: Response, state: PipelineState<any>): Promise<StepResult> {
+  const { config, services: { monitoring } } = state;
+  if (!config.schema) {
+    state.input = {};
+    return undefined;
+  }
+
+  try {
+    // Request body, already read by `readRequestBody` or `parseUpload`
+    const body = req.method !== 'GET' ? req.body : {};
+    const sanitizationService = state.services.sanitizationService || SanitizationService.getInstance();
+
+    if (isRequestSchemas(config.schema)) {
+      // Headers are not sanitized: their values are matched against exactly
+      const [params, query, sanitizedBody] = await Promise.all([
+        sanitizationService.sanitize(req.params || {}),
+        sanitizationService.sanitize(req.query || {}),
+        sanitizationService.sanitize(body ?? {}),
+      ]);
+      emitFrameworkEvent('sanitization:applied', { target: 'input' });
+
+      const result = parseRequestParts(config.schema, { params, query, body: sanitizedBody, headers: req.headers || {} });
+      if (result.errors) {
+        return rejectInput(res, monitoring, result.errors);
+      }
+
+      state.input = result.data;
+      return undefined;
+    }
+
+    // Combine body and query params for validation
+    const rawInput = {
+      ...body,
+      ...(req.query || {}),
+    };
+
+    // Sanitize input
+    const sanitizedInput = await sanitizationService.sanitize(rawInput);
+    emitFrameworkEvent('sanitization:applied', { target: 'input' });
+
+    // Validate with Zod
+    const parseResult = config.schema.safeParse(sanitizedInput);
+
+    if (!parseResult.success) {
+      return rejectInput(res, monitoring, parseResult.error.flatten().fieldErrors);
+    }
+
+    state.input = parseResult.data;
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return validationErrorResponse(res, 'Invalid JSON in request body');
+    }
+    throw error;
+  }
+
+  return undefined;
+}
+
+function rejectInput(res: Response, monitoring: RequiredServices['monitoring'], details: Record<string, unknown>): Response {
+  monitoring.recordMetric('validation.error', 1, {
+    field_count: Object.keys(details).length.toString(),
+  });
+  return validationErrorResponse(res, 'Invalid input data', details);
+}
+
+/**
+ * Check `?fields=` / `?expand=` against `config.selection` into
+ * `state.selection`. Names off the allowlist are rejected, never ignored.
+ */
+export function resolveSelection(req: Request, res: Response, state: PipelineState<any>): StepResult {
+  const { config, services: { monitoring } } = state;
+  if (!config.selection) {
+    return undefined;
+  }
+
+  const result = parseSelection(req.query || {}, config.selection);
+  if (result.rejection) {
+    const { parameter, names } = result.rejection;
+    monitoring.recordMetric('selection.rejected', 1, { parameter });
+    return errorResponse(
+      res,
+      'BAD_REQUEST',
+      `Not allowed in ${parameter}: ${names.join(', ')}`,
+      400,
+      { parameter, names }
+    );
+  }
+
+  state.selection = result.selection;
+  return undefined;
+}
+
+/**
+ * Check that the user holds one of `allowedRoles` in the current tenant
+ */
+export async function verifyTenantRole(req: Request, res: Response, state: PipelineState<any>, prisma: any): Promise<StepResult> {
+  const { config, user, tenant, auditEnabled, services: { monitoring, auditService } } = state;
+  if (!tenant || !config.allowedRoles || config.allowedRoles.length === 0 || config.tenantRoleValidation === false) {
+    return undefined;
+  }
+
+  try {
+    // Check if user has required role in THIS tenant
+    const tenantMembership = await prisma.tenantMember.findFirst({
+      where: {
+        userId: user!.id,
+        tenantId: tenant.id,
+        role: { in: config.allowedRoles as any[] },
+        isActive: true,
+      },
+    });
+
+    if (!tenantMembership) {
+      monitoring.recordMetric('auth.tenant_role_forbidden', 1, {
+        required_roles: config.allowedRoles.join(','),
+        user_role: user?.role || 'unknown',
+        tenant_id: tenant.id,
+      });
+
+      // Audit: Log tenant authorization failure
+      if (auditEnabled) {
+        await auditService.logSecurityEvent(
+          'tenant.authorization.failed',
+          AuditSeverity.WARNING,
+          `User ${user!.id} attempted to access tenant ${tenant.id} with insufficient role`,
+          { required_roles: config.allowedRoles, user_role: user?.role },
+          { user, tenant, request: req }
+        );
+      }
+
+      return forbiddenResponse(
+        res,
+        `Insufficient permissions in this tenant. Required: ${config.allowedRoles.join(' or ')}`
+      );
+    }
+
+    // Success - user has required role in this tenant
+    monitoring.recordMetric('auth.tenant_role_success', 1, {
+      role: tenantMembership.role,
+      tenant_id: tenant.id,
+    });
+  } catch (error) {
+    console.error('Tenant role validation error:', error);
+    return forbiddenResponse(res, 'Role verification failed');
+  }
+
+  return undefined;
+}
+
+/**
+ * Load the resource named by `requireOwnership` and stop the request unless
+ * it belongs to the user (and tenant). The row is kept as `state.resource`.
+ */
+export async function verifyOwnership(req: Request, res: Response, state: PipelineState<any>, prisma: any): Promise<StepResult> {
+  const { config, user, tenant, auditEnabled, services: { monitoring, auditService } } = state;
+  if (!config.requireOwnership || !user) {
+    return undefined;
+  }
+
+  const { model, resourceIdParam, resourceIdField, ownerIdField, tenantIdField, selectFields } = config.requireOwnership;
+  const resourceId = (req.params || {})[resourceIdParam];
+
+  if (!resourceId) {
+    return validationErrorResponse(res, `Missing required parameter: ${resourceIdParam}`);
+  }
+
+  // Validate model name to prevent SQL injection
+  if (!validateModelName(model)) {
+    console.error(`Invalid model name: ${model}`);
+    return forbiddenResponse(res, 'Invalid resource type');
+  }
+
+  try {
+    // Build Prisma query with ownership filters
+    const where: any = {
+      [resourceIdField || 'id']: resourceId,
+    };
+
+    // Add owner filter
+    if (ownerIdField && user.id) {
+      where[ownerIdField] = user.id;
+    }
+
+    // Add tenant filter
+    if (tenantIdField && tenant?.id) {
+      where[tenantIdField] = tenant.id;
+    }
+
+    // Query using validated model name
+    const modelName = model.toLowerCase();
+    const resource = await prisma[modelName].findFirst({
+      where,
+      select: selectFields ? Object.fromEntries(selectFields.map((f: string) => [f, true])) : undefined,
+    });
+
+    if (!resource) {
+      monitoring.recordMetric('ownership.verification_failed', 1, {
+        model,
+        resource_id: resourceId,
+      });
+
+      // Audit: Log authorization failure
+      if (auditEnabled) {
+        await auditService.logSecurityEvent(
+          'authorization.failed',
+          AuditSeverity.WARNING,
+          `Access denied to ${model} ${resourceId}`,
+          { model, resourceId },
+          { user, tenant, request: req }
+        );
+      }
+
+      return forbiddenResponse(res, 'Resource not found or access denied');
+    }
+
+    state.resource = resource;
+  } catch (error) {
+    console.error('Ownership verification error:', error);
+    return forbiddenResponse(res, 'Resource verification failed');
+  }
+
+  return undefined;
+}
+
+/**
+ * Validate that a model name is in the allowed list
+ */
+function validateModelName(model: string): model is AllowedModel {
+  return ALLOWED_PRISMA_MODELS.includes(model as AllowedModel);
+}
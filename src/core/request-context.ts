@@ -0,0 +1,77 @@
+/**
+ * Request Context
+ *
+ * One id per request, shared by `meta.requestId`, the `X-Request-Id`
+ * response header, audit events, monitoring spans and `Logger` output. It is
+ * taken from a valid incoming `X-Request-Id` or generated, and kept in
+ * AsyncLocalStorage so code without access to `req` can read it.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Incoming ids are echoed into headers and logs, so only short, plain ones are kept
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+export interface RequestContext {
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Generate a unique request ID
+ */
+export function generateRequestId(): string {
+  return `req_${Date.now()}_${crypto.randomBytes(6).toString('hex')}`;
+}
+
+/**
+ * The id of this request: the one already assigned (e.g. by the
+ * `requestContext` middleware), a valid incoming `X-Request-Id`, or a new
+ * one. Echoed in the `X-Request-Id` response header.
+ */
+export function assignRequestId(req: Request, res: Response): string {
+  const assigned = res.locals?.requestId;
+  if (assigned) {
+    return assigned;
+  }
+
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : generateRequestId();
+
+  res.locals.requestId = requestId;
+  res.set(REQUEST_ID_HEADER, requestId);
+  return requestId;
+}
+
+/**
+ * Run `fn` with the request's context available through `getRequestId()`
+ */
+export function runWithRequestContext<T>(req: Request, res: Response, fn: () => T): T {
+  return storage.run({ requestId: assignRequestId(req, res) }, fn);
+}
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Id of the request being handled, if any
+ */
+export function getRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
+
+/**
+ * Express middleware that assigns the request id before anything else runs,
+ * so logs from other middleware and plain routes carry it too
+ */
+export function requestContext() {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    runWithRequestContext(req, res, next);
+  };
+}
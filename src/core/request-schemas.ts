@@ -0,0 +1,146 @@
+/**
+ * Request Schemas
+ *
+ * `schema` is either one Zod schema for body and query merged, or one
+ * schema per request part (`{ params, query, body, headers }`). Parts are
+ * validated separately, so a query value can never stand in for a body
+ * field, and string values from the URL and headers are coerced to the
+ * types their schema expects first.
+ */
+
+import { z } from 'zod';
+
+import { RequestPart, RequestSchemas } from './types';
+
+export const REQUEST_PARTS: readonly RequestPart[] = ['params', 'query', 'body', 'headers'];
+
+// Parts that arrive as strings and are coerced before validation
+const COERCED_PARTS = new Set<RequestPart>(['params', 'query', 'headers']);
+
+type PartSchemas = Partial<Record<RequestPart, z.ZodTypeAny>>;
+
+/**
+ * Whether `schema` is the per-part form rather than a single Zod schema
+ */
+export function isRequestSchemas<T>(schema: z.ZodSchema<T> | RequestSchemas<T>): schema is RequestSchemas<T> {
+  return !(schema instanceof z.ZodType);
+}
+
+/**
+ * The per-part schemas of `schema`. A single schema describes the query on
+ * GET and the body otherwise.
+ */
+export function schemasByPart<T>(schema: z.ZodSchema<T> | RequestSchemas<T>, method: string): PartSchemas {
+  if (isRequestSchemas(schema)) {
+    return schema as PartSchemas;
+  }
+  return method === 'GET' ? { query: schema } : { body: schema };
+}
+
+/**
+ * Validate each part against its schema. Errors are keyed by part and
+ * field, e.g. `query.page`.
+ */
+export function parseRequestParts(
+  schemas: RequestSchemas<any>,
+  parts: Record<RequestPart, unknown>
+): { data: Partial<Record<RequestPart, unknown>>; errors?: undefined } | { data?: undefined; errors: Record<string, string[]> } {
+  const data: Partial<Record<RequestPart, unknown>> = {};
+  const errors: Record<string, string[]> = {};
+
+  for (const part of REQUEST_PARTS) {
+    const schema = (schemas as PartSchemas)[part];
+    if (!schema) {
+      continue;
+    }
+
+    const value = COERCED_PARTS.has(part) ? coerceToSchema(parts[part], schema) : parts[part];
+    const result = schema.safeParse(value);
+    if (result.success) {
+      data[part] = result.data;
+      continue;
+    }
+
+    const { formErrors, fieldErrors } = result.error.flatten();
+    if (formErrors.length > 0) {
+      errors[part] = formErrors;
+    }
+    for (const [field, messages] of Object.entries(fieldErrors)) {
+      errors[`${part}.${field}`] = messages as string[];
+    }
+  }
+
+  return Object.keys(errors).length > 0 ? { errors } : { data };
+}
+
+/**
+ * Convert string values to the numbers, booleans, dates and arrays that
+ * `schema` expects. Values that do not convert are left for the schema to
+ * reject.
+ */
+export function coerceToSchema(value: unknown, schema: z.ZodTypeAny): unknown {
+  const inner = unwrap(schema);
+
+  if (inner instanceof z.ZodObject) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return value;
+    }
+    const shape = inner.shape as Record<string, z.ZodTypeAny>;
+    const coerced: Record<string, unknown> = { ...value };
+    for (const [key, fieldSchema] of Object.entries(shape)) {
+      if (key in coerced) {
+        coerced[key] = coerceToSchema(coerced[key], fieldSchema);
+      }
+    }
+    return coerced;
+  }
+
+  if (inner instanceof z.ZodArray) {
+    if (value === undefined) {
+      return value;
+    }
+    return (Array.isArray(value) ? value : [value]).map(item => coerceToSchema(item, inner.element));
+  }
+
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  if (inner instanceof z.ZodNumber) {
+    const number = Number(value);
+    return value.trim() !== '' && !Number.isNaN(number) ? number : value;
+  }
+
+  if (inner instanceof z.ZodBoolean) {
+    if (value === 'true' || value === '1') return true;
+    if (value === 'false' || value === '0') return false;
+    return value;
+  }
+
+  if (inner instanceof z.ZodDate) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date;
+  }
+
+  return value;
+}
+
+/**
+ * The schema under optional, nullable, default and refinement wrappers
+ */
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  let current = schema;
+  for (;;) {
+    if (current instanceof z.ZodOptional || current instanceof z.ZodNullable) {
+      current = current.unwrap();
+    } else if (current instanceof z.ZodDefault) {
+      current = current._def.innerType;
+    } else if (current instanceof z.ZodEffects) {
+      current = current.innerType();
+    } else if (current instanceof z.ZodPipeline) {
+      current = current._def.in;
+    } else {
+      return current;
+    }
+  }
+}
@@ -3,14 +3,30 @@
  */
 
 import { Response } from 'express';
-import { ApiResponse, ApiError, ApiMeta, ErrorCode } from './types';
+import {
+  ApiResponse,
+  ApiError,
+  ApiMeta,
+  ErrorCode,
+  ErrorFormat,
+  ErrorResponseConfig,
+  ProblemDetails,
+} from './types';
+import { DEFAULT_ERROR_MESSAGES, ERROR_STATUS_CODES, HttpError, RateLimitError } from './errors';
+import { getResponseFormat, sendFormatted } from './formats';
+import { generateRequestId, getRequestId } from './request-context';
+
+export const PROBLEM_JSON_MEDIA_TYPE = 'application/problem+json';
+
+const DEFAULT_PROBLEM_TYPE_BASE_URI = '/problems';
 
 // ============================================
 // Response Creation Helpers
 // ============================================
 
 /**
- * Create a successful API response
+ * Create a successful API response, in the format negotiated for the
+ * request (JSON unless the handler declares `produces`)
  */
 export function successResponse<T = any>(
   res: Response,
@@ -19,15 +35,22 @@ export function successResponse<T = any>(
   status: number = 200,
   meta?: Partial<ApiMeta>
 ): Response<ApiResponse<T>> {
+  const responseMeta: ApiMeta = {
+    timestamp: new Date().toISOString(),
+    version: process.env.API_VERSION || '1.0.0',
+    requestId: currentRequestId(res),
+    ...meta,
+  };
+
+  const format = getResponseFormat(res);
+  if (format !== 'json') {
+    return sendFormatted(res, format, data, status, responseMeta);
+  }
+
   const response: ApiResponse<T> = {
     success: true,
     data,
-    meta: {
-      timestamp: new Date().toISOString(),
-      version: process.env.API_VERSION || '1.0.0',
-      requestId: generateRequestId(),
-      ...meta,
-    },
+    meta: responseMeta,
   };
 
   return res.status(status).json(response);
@@ -50,6 +73,11 @@ export function errorResponse(
     ...(details && { details }),
     ...(traceId && { traceId }),
   };
+  const requestId = currentRequestId(res);
+
+  if (resolveErrorFormat(res) === 'problem') {
+    return problemResponse(res, error, status, requestId);
+  }
 
   const response: ApiResponse = {
     success: false,
@@ -57,13 +85,109 @@ export function errorResponse(
     meta: {
       timestamp: new Date().toISOString(),
       version: process.env.API_VERSION || '1.0.0',
-      requestId: generateRequestId(),
+      requestId,
     },
   };
 
   return res.status(status).json(response);
 }
 
+// Status table lives with the error classes
+export { ERROR_STATUS_CODES };
+
+/**
+ * Send a pre-built API response (e.g. one returned by a lifecycle hook)
+ * Status defaults to 200 for success and the error code's status otherwise
+ */
+export function sendApiResponse<T = any>(
+  res: Response,
+  body: ApiResponse<T>,
+  status?: number
+): Response<ApiResponse<T>> {
+  const resolvedStatus = status
+    ?? (body.success ? 200 : ERROR_STATUS_CODES[body.error?.code ?? 'INTERNAL_ERROR']);
+
+  if (!body.success && body.error && resolveErrorFormat(res) === 'problem') {
+    return problemResponse(res, body.error, resolvedStatus, body.meta?.requestId ?? currentRequestId(res));
+  }
+
+  return res.status(resolvedStatus).json({
+    ...body,
+    meta: {
+      timestamp: new Date().toISOString(),
+      version: process.env.API_VERSION || '1.0.0',
+      requestId: currentRequestId(res),
+      ...body.meta,
+    },
+  });
+}
+
+/**
+ * Create a 304 response for a conditional GET whose `ETag` still matches
+ */
+export function notModifiedResponse(res: Response): Response {
+  return res.status(304).end();
+}
+
+// ============================================
+// Problem Details (RFC 9457)
+// ============================================
+
+/**
+ * Record the error format for this request; every error helper called with
+ * `res` afterwards uses it
+ */
+export function setErrorResponseConfig(res: Response, config: ErrorResponseConfig): void {
+  res.locals.errorResponse = config;
+}
+
+/**
+ * Build the problem details for an error
+ */
+export function toProblemDetails(
+  error: ApiError,
+  status: number,
+  requestId?: string,
+  typeBaseUri: string = DEFAULT_PROBLEM_TYPE_BASE_URI
+): ProblemDetails {
+  return {
+    type: `${typeBaseUri.replace(/\/+$/, '')}/${error.code.toLowerCase().replace(/_/g, '-')}`,
+    title: DEFAULT_ERROR_MESSAGES[error.code],
+    status,
+    detail: error.message,
+    ...(requestId ? { instance: requestId } : {}),
+    code: error.code,
+    ...(error.traceId ? { traceId: error.traceId } : {}),
+    ...(error.details ? { details: error.details } : {}),
+  };
+}
+
+/**
+ * The configured format, unless the client explicitly accepts problem details
+ */
+function resolveErrorFormat(res: Response): ErrorFormat {
+  const accept = res.req?.headers?.accept;
+  if (accept && acceptsProblemJson(accept)) {
+    return 'problem';
+  }
+  return res.locals?.errorResponse?.format || 'envelope';
+}
+
+function acceptsProblemJson(accept: string): boolean {
+  return accept.split(',').some(entry => {
+    const [mediaType, ...params] = entry.split(';').map(part => part.trim().toLowerCase());
+    const quality = params.find(param => param.startsWith('q='));
+    return mediaType === PROBLEM_JSON_MEDIA_TYPE && (!quality || parseFloat(quality.slice(2)) > 0);
+  });
+}
+
+function problemResponse(res: Response, error: ApiError, status: number, requestId: string): Response {
+  const typeBaseUri = res.locals?.errorResponse?.problemTypeBaseUri;
+  const problem = toProblemDetails(error, status, requestId, typeBaseUri);
+
+  return res.status(status).set('Content-Type', PROBLEM_JSON_MEDIA_TYPE).json(problem);
+}
+
 // ============================================
 // Specific Error Response Helpers
 // ============================================
@@ -124,6 +248,21 @@ export function rateLimitResponse(
   return errorResponse(res, 'RATE_LIMIT_EXCEEDED', message, 429);
 }
 
+/**
+ * Create the response for a thrown `HttpError`, using only its public message
+ */
+export function httpErrorResponse(
+  res: Response,
+  error: HttpError,
+  traceId?: string
+): Response<ApiResponse> {
+  if (error instanceof RateLimitError && error.retryAfter) {
+    res.setHeader('Retry-After', error.retryAfter.toString());
+  }
+
+  return errorResponse(res, error.code, error.publicMessage, error.statusCode, error.details, traceId);
+}
+
 /**
  * Create an internal server error response
  */
@@ -139,8 +278,13 @@ export function internalErrorResponse(
  */
 export function serviceUnavailableResponse(
   res: Response,
-  message: string = 'Service temporarily unavailable'
+  message: string = 'Service temporarily unavailable',
+  retryAfter?: number
 ): Response<ApiResponse> {
+  if (retryAfter) {
+    res.setHeader('Retry-After', retryAfter.toString());
+  }
+
   return errorResponse(res, 'SERVICE_UNAVAILABLE', message, 503);
 }
 
@@ -149,10 +293,10 @@ export function serviceUnavailableResponse(
 // ============================================
 
 /**
- * Generate a unique request ID
+ * Id of the request being answered, generated when it was never assigned
  */
-function generateRequestId(): string {
-  return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+function currentRequestId(res: Response): string {
+  return res.locals?.requestId || getRequestId() || generateRequestId();
 }
 
 // ============================================
@@ -0,0 +1,197 @@
+/**
+ * Route Registry
+ *
+ * Records every framework handler mounted on an Express router together with
+ * its effective configuration, so that tooling (OpenAPI generation, security
+ * introspection, batching) can reason about the API without re-reading route
+ * files.
+ */
+
+import { Request, Response, Router } from 'express';
+import { HandlerConfig } from './types';
+
+// ============================================
+// Handler Metadata
+// ============================================
+
+/**
+ * Symbol under which handler factories attach their metadata
+ */
+export const HANDLER_METADATA = Symbol.for('tenet.handler.metadata');
+
+export interface HandlerMetadata {
+  /** Configuration after preset merging */
+  config: HandlerConfig<any, any>;
+
+  /** Preset the handler was created from, if any */
+  preset?: string;
+
+  /** Set by streaming handlers; the success response is a stream, not JSON */
+  stream?: { format: 'sse' | 'ndjson' };
+}
+
+export type FrameworkRequestHandler = ((req: Request, res: Response) => Promise<any>) & {
+  [HANDLER_METADATA]?: HandlerMetadata;
+};
+
+/**
+ * Attach metadata to a handler function
+ */
+export function attachHandlerMetadata<T extends (req: Request, res: Response) => Promise<any>>(
+  handler: T,
+  metadata: HandlerMetadata
+): T & { [HANDLER_METADATA]: HandlerMetadata } {
+  return Object.assign(handler, { [HANDLER_METADATA]: metadata });
+}
+
+/**
+ * Read metadata from a handler function (undefined for plain Express handlers)
+ */
+export function getHandlerMetadata(handler: unknown): HandlerMetadata | undefined {
+  if (typeof handler !== 'function') {
+    return undefined;
+  }
+  return (handler as FrameworkRequestHandler)[HANDLER_METADATA];
+}
+
+// ============================================
+// Registry
+// ============================================
+
+export interface RegisteredRoute {
+  /** Upper-case HTTP method */
+  method: string;
+
+  /** Express-style path including the mount prefix (e.g. /api/tasks/:id) */
+  path: string;
+
+  handler: FrameworkRequestHandler;
+  metadata: HandlerMetadata;
+}
+
+export class RouteRegistry {
+  private static instance: RouteRegistry;
+  private routes: Map<string, RegisteredRoute> = new Map();
+
+  private constructor() { }
+
+  public static getInstance(): RouteRegistry {
+    if (!RouteRegistry.instance) {
+      RouteRegistry.instance = new RouteRegistry();
+    }
+    return RouteRegistry.instance;
+  }
+
+  /**
+   * New registry with its own routes, separate from the shared one
+   * (used by `createApp`)
+   */
+  public static create(): RouteRegistry {
+    return new RouteRegistry();
+  }
+
+  /**
+   * Register a single route
+   */
+  public register(route: RegisteredRoute): void {
+    this.routes.set(this.getRouteKey(route.method, route.path), route);
+  }
+
+  /**
+   * Register every framework handler found on an Express router.
+   * Plain Express handlers and nested routers are ignored; mount nested
+   * routers through `mountRouter` so their prefix is known.
+   */
+  public registerRouter(router: Router, basePath: string = ''): RegisteredRoute[] {
+    const registered: RegisteredRoute[] = [];
+
+    for (const layer of (router as any).stack || []) {
+      const route = layer.route;
+      if (!route || typeof route.path !== 'string') {
+        continue;
+      }
+
+      const path = joinPaths(basePath, route.path);
+      const methods = Object.keys(route.methods || {}).filter(m => route.methods[m] && m !== '_all');
+
+      for (const routeLayer of route.stack || []) {
+        const metadata = getHandlerMetadata(routeLayer.handle);
+        if (!metadata) {
+          continue;
+        }
+
+        for (const method of methods) {
+          if (routeLayer.method && routeLayer.method !== method) {
+            continue;
+          }
+
+          const entry: RegisteredRoute = {
+            method: method.toUpperCase(),
+            path,
+            handler: routeLayer.handle,
+            metadata,
+          };
+          this.register(entry);
+          registered.push(entry);
+        }
+      }
+    }
+
+    return registered;
+  }
+
+  /**
+   * Get all registered routes in registration order, which is the order
+   * Express matches them in
+   */
+  public getRoutes(): RegisteredRoute[] {
+    return Array.from(this.routes.values());
+  }
+
+  /**
+   * Get a route by its exact method and path pattern
+   */
+  public getRoute(method: string, path: string): RegisteredRoute | undefined {
+    return this.routes.get(this.getRouteKey(method, path));
+  }
+
+  /**
+   * Remove all registered routes
+   */
+  public clear(): void {
+    this.routes.clear();
+  }
+
+  private getRouteKey(method: string, path: string): string {
+    return `${method.toUpperCase()} ${path}`;
+  }
+}
+
+/**
+ * Mount a router on an app (or parent router) and record its handlers
+ *
+ * @example
+ * mountRouter(app, '/api', taskRoutes);
+ */
+export function mountRouter(
+  parent: { use: (path: string, router: Router) => unknown },
+  basePath: string,
+  router: Router,
+  registry: RouteRegistry = RouteRegistry.getInstance()
+): RegisteredRoute[] {
+  parent.use(basePath, router);
+  return registry.registerRouter(router, basePath);
+}
+
+/**
+ * Order routes by path then method, for output that should not depend on
+ * the order routers were mounted in
+ */
+export function compareRoutes(a: RegisteredRoute, b: RegisteredRoute): number {
+  return a.path === b.path ? a.method.localeCompare(b.method) : a.path.localeCompare(b.path);
+}
+
+function joinPaths(basePath: string, path: string): string {
+  const joined = `${basePath.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+  return joined.length > 1 ? joined.replace(/\/+$/, '') : joined;
+}
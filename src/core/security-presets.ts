@@ -5,7 +5,7 @@
  * Simplifies handler configuration while maintaining flexibility.
  */
 
-import { HandlerConfig } from './types';
+import { HandlerConfig, SecurityPresetName } from './types';
 import { AuditSeverity } from '../audit/audit-types';
 
 /**
@@ -167,32 +167,113 @@ export const securityPresets = {
 
 export type SecurityPreset = keyof typeof securityPresets;
 
+/**
+ * Settings a preset can carry: anything but the handler itself and its schemas
+ */
+export type PresetConfig = Omit<Partial<HandlerConfig<any, any>>, 'handler' | 'schema' | 'outputSchema' | 'preset'>;
+
+export interface DefinePresetOptions {
+    /** Presets to build on, merged in order before this preset's own config */
+    extends?: SecurityPresetName[];
+}
+
+// Presets registered with definePreset(), already merged with what they extend
+const customPresets = new Map<string, PresetConfig>();
+
+// Blocks replaced whole: a preset's key generator only fits its own limits
+const WHOLE_BLOCKS = new Set(['rateLimit', 'cache']);
+
+/**
+ * Register a preset, optionally composed from existing ones
+ *
+ * Presets listed in `extends` must already be defined. They are merged in
+ * order, then `config` on top, with the rules of `mergePresetConfig`.
+ *
+ * @example
+ * definePreset('internalService', {
+ *     authStrategies: ['api_key'],
+ *     csrfProtection: false,
+ *     monitoring: { customTags: { exposure: 'internal' } },
+ * }, { extends: ['authenticated'] });
+ *
+ * definePreset('pciScope', {
+ *     limits: { maxBodyBytes: 16 * 1024 },
+ *     auditConfig: { captureRequestBody: true },
+ * }, { extends: ['highSecurity'] });
+ */
+export function definePreset<TName extends string>(
+    name: TName,
+    config: PresetConfig,
+    options: DefinePresetOptions = {}
+): TName {
+    if (isBuiltInPreset(name) || customPresets.has(name)) {
+        throw new Error(`Security preset "${name}" is already defined`);
+    }
+
+    const base = (options.extends || []).reduce<PresetConfig>(
+        (merged, parent) => mergeConfigBlocks(merged, getSecurityPreset(parent)),
+        {}
+    );
+    customPresets.set(name, mergeConfigBlocks(base, config));
+    return name;
+}
+
 /**
  * Get a security preset by name
  */
-export function getSecurityPreset(preset: SecurityPreset): Partial<HandlerConfig> {
-    return securityPresets[preset] as Partial<HandlerConfig>;
+export function getSecurityPreset(preset: SecurityPresetName): Partial<HandlerConfig> {
+    if (isBuiltInPreset(preset)) {
+        return securityPresets[preset] as Partial<HandlerConfig>;
+    }
+
+    const custom = customPresets.get(preset);
+    if (!custom) {
+        throw new Error(`Unknown security preset "${preset}"`);
+    }
+    return custom as Partial<HandlerConfig>;
 }
 
 /**
  * Merge a preset with user configuration
- * User configuration takes precedence over preset
+ *
+ * Precedence, lowest first: the presets a preset extends (in order), the
+ * preset's own config, then the handler's config. Nested blocks
+ * (`auditConfig`, `monitoring`, `limits`, ...) are merged key by key at any
+ * depth, except `rateLimit` and `cache`, which are replaced whole; arrays,
+ * functions and class instances (schemas, storage adapters) are replaced
+ * whole too. Settings left undefined do not override.
  */
 export function mergePresetConfig<TInput, TOutput>(
-    preset: SecurityPreset,
+    preset: SecurityPresetName,
     userConfig: HandlerConfig<TInput, TOutput>
 ): HandlerConfig<TInput, TOutput> {
-    const presetConfig = getSecurityPreset(preset);
+    return mergeConfigBlocks(getSecurityPreset(preset), userConfig) as HandlerConfig<TInput, TOutput>;
+}
 
-    return {
-        ...presetConfig,
-        ...userConfig,
-        // Deep merge for nested objects
-        auditConfig: {
-            ...presetConfig.auditConfig,
-            ...userConfig.auditConfig,
-        },
-        rateLimit: userConfig.rateLimit || presetConfig.rateLimit,
-        cache: userConfig.cache || presetConfig.cache,
-    } as HandlerConfig<TInput, TOutput>;
+function isBuiltInPreset(name: string): name is SecurityPreset {
+    return Object.prototype.hasOwnProperty.call(securityPresets, name);
+}
+
+function mergeConfigBlocks<T extends object>(base: object, override: T): T {
+    const merged: Record<string, unknown> = { ...base };
+
+    for (const [key, value] of Object.entries(override)) {
+        if (value === undefined) {
+            continue;
+        }
+        const current = merged[key];
+        merged[key] = isPlainObject(current) && isPlainObject(value) && !WHOLE_BLOCKS.has(key)
+            ? mergeConfigBlocks(current, value)
+            : value;
+    }
+
+    return merged as T;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
 }
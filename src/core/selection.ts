@@ -0,0 +1,192 @@
+/**
+ * Field Selection
+ *
+ * Sparse fieldsets (`?fields=id,title,owner.email`) and relation expansion
+ * (`?expand=owner,tasks`) checked against the handler's `selection`
+ * allowlist. The handler projects its result onto the requested fields, and
+ * `ctx.selection.toPrisma()` pushes the same selection down into the query.
+ */
+
+import { FieldSelection, SelectionConfig } from './types';
+
+export type SelectionParameter = 'fields' | 'expand';
+
+export type SelectionResult =
+  | { selection: FieldSelection; rejection?: undefined }
+  | { selection?: undefined; rejection: { parameter: SelectionParameter; names: string[] } };
+
+/**
+ * A field or relation in the selection tree
+ */
+interface SelectionNode {
+  /** Named directly in `?fields=`; other nodes are relations */
+  field: boolean;
+  children: Map<string, SelectionNode>;
+}
+
+/**
+ * Parse `?fields=` and `?expand=` against the allowlist
+ */
+export function parseSelection(query: Record<string, any>, config: SelectionConfig): SelectionResult {
+  const fields = parseList(query.fields);
+  const expand = parseList(query.expand);
+  const allowedFields = config.fields || [];
+  const allowedRelations = new Set(config.expand || []);
+
+  const rejectedRelations = expand.filter(path => !prefixesOf(path, true).every(prefix => allowedRelations.has(prefix)));
+  if (rejectedRelations.length > 0) {
+    return { rejection: { parameter: 'expand', names: rejectedRelations } };
+  }
+
+  // A dotted field expands every relation on its path
+  const rejectedFields = fields.filter(path =>
+    !isAllowedField(path, allowedFields) || !prefixesOf(path, false).every(prefix => allowedRelations.has(prefix))
+  );
+  if (rejectedFields.length > 0) {
+    return { rejection: { parameter: 'fields', names: rejectedFields } };
+  }
+
+  const root = buildTree(fields, expand);
+
+  return {
+    selection: {
+      fields,
+      expand,
+      toPrisma: () => {
+        if (fields.length > 0) {
+          return { select: toSelect(root) };
+        }
+        return expand.length > 0 ? { include: toInclude(root) } : {};
+      },
+    },
+  };
+}
+
+/**
+ * Project a handler result (object or array of objects) onto the
+ * requested fields. Results are returned unchanged without `?fields=`.
+ */
+export function applySelection<T>(value: T, selection: FieldSelection): T {
+  if (selection.fields.length === 0) {
+    return value;
+  }
+
+  return project(value, buildTree(selection.fields, selection.expand)) as T;
+}
+
+// ============================================
+// Allowlist
+// ============================================
+
+function isAllowedField(path: string, allowed: string[]): boolean {
+  return allowed.some(entry =>
+    entry === path || (entry.endsWith('.*') && path.startsWith(entry.slice(0, -1)) && !path.slice(entry.length - 1).includes('.'))
+  );
+}
+
+/**
+ * `a.b.c` → `['a', 'a.b']`, plus `'a.b.c'` when `inclusive`
+ */
+function prefixesOf(path: string, inclusive: boolean): string[] {
+  const segments = path.split('.');
+  const count = inclusive ? segments.length : segments.length - 1;
+  return Array.from({ length: count }, (_, i) => segments.slice(0, i + 1).join('.'));
+}
+
+function parseList(raw: unknown): string[] {
+  const values = Array.isArray(raw) ? raw : [raw];
+  const names = values
+    .filter((value): value is string => typeof value === 'string')
+    .flatMap(value => value.split(','))
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  return [...new Set(names)];
+}
+
+// ============================================
+// Selection Tree
+// ============================================
+
+function buildTree(fields: string[], expand: string[]): SelectionNode {
+  const root = createNode();
+  for (const path of fields) {
+    insert(root, path).field = true;
+  }
+  for (const path of expand) {
+    insert(root, path);
+  }
+  return root;
+}
+
+function createNode(): SelectionNode {
+  return { field: false, children: new Map() };
+}
+
+function insert(root: SelectionNode, path: string): SelectionNode {
+  let node = root;
+  for (const segment of path.split('.')) {
+    let child = node.children.get(segment);
+    if (!child) {
+      child = createNode();
+      node.children.set(segment, child);
+    }
+    node = child;
+  }
+  return node;
+}
+
+/**
+ * Whether a relation's own fields were narrowed by `?fields=`
+ */
+function hasFieldChildren(node: SelectionNode): boolean {
+  return [...node.children.values()].some(child => child.field || hasFieldChildren(child));
+}
+
+function toSelect(node: SelectionNode): Record<string, any> {
+  const select: Record<string, any> = {};
+  for (const [name, child] of node.children) {
+    if (child.children.size === 0) {
+      select[name] = true;
+    } else if (hasFieldChildren(child)) {
+      select[name] = { select: toSelect(child) };
+    } else {
+      select[name] = { include: toInclude(child) };
+    }
+  }
+  return select;
+}
+
+function toInclude(node: SelectionNode): Record<string, any> {
+  const include: Record<string, any> = {};
+  for (const [name, child] of node.children) {
+    include[name] = child.children.size === 0 ? true : { include: toInclude(child) };
+  }
+  return include;
+}
+
+function project(value: unknown, node: SelectionNode): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => project(item, node));
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const projected: Record<string, unknown> = {};
+  for (const [name, child] of node.children) {
+    if (!(name in value)) {
+      continue;
+    }
+    projected[name] = hasFieldChildren(child) ? project(value[name], child) : value[name];
+  }
+  return projected;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
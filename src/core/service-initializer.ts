@@ -4,6 +4,7 @@
  * Safely initializes services with error handling and fallbacks
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import { MonitoringService } from '../monitoring/service';
 import { ConfigManager } from '../config/manager';
 import { TenantManager } from '../multitenancy/manager';
@@ -17,6 +18,7 @@ import { ServiceRegistry, ServiceInitResult } from '../monitoring/types';
 export class ServiceInitializer {
     private static registry: Partial<ServiceRegistry> = {};
     private static initialized = false;
+    private static scoped = new AsyncLocalStorage<Partial<ServiceRegistry>>();
 
     /**
      * Initialize all services at application startup
@@ -121,12 +123,33 @@ export class ServiceInitializer {
      * Get initialized services
      */
     public static getServices(): Partial<ServiceRegistry> {
+        const scoped = this.scoped.getStore();
+        if (scoped) {
+            return scoped;
+        }
         if (!this.initialized) {
             throw new Error('Services not initialized. Call ServiceInitializer.initialize() first.');
         }
         return this.registry;
     }
 
+    /**
+     * Services in effect here without requiring `initialize()`: the scoped
+     * ones, else the initialized ones (empty before `initialize()`)
+     */
+    public static peekServices(): Partial<ServiceRegistry> {
+        return this.scoped.getStore() || this.registry;
+    }
+
+    /**
+     * Run `fn` with `services` in place of the initialized ones (used by
+     * `@tenet/api/testing`). Only code running inside `fn` sees them, so
+     * concurrent runs keep their own services.
+     */
+    public static runWithServices<T>(services: Partial<ServiceRegistry>, fn: () => T): T {
+        return this.scoped.run(services, fn);
+    }
+
     /**
      * Graceful shutdown - flush pending operations
      */
@@ -221,17 +244,29 @@ export class ServiceInitializer {
                 const entry = store.get(key);
 
                 if (!entry || entry.resetTime < now) {
-                    store.set(key, { count: 1, resetTime: now + (config.window || 60000) });
+                    store.set(key, { count: 1, resetTime: now + config.windowMs });
                     return true;
                 }
 
-                if (entry.count >= (config.max || 100)) {
+                if (entry.count >= config.maxRequests) {
                     return false;
                 }
 
                 entry.count++;
                 return true;
             },
+            getLimitInfo: async (key: string, config: any) => {
+                const now = Date.now();
+                const entry = store.get(key);
+                const count = entry && entry.resetTime >= now ? entry.count : 0;
+
+                return {
+                    allowed: count < config.maxRequests,
+                    remaining: Math.max(0, config.maxRequests - count),
+                    resetTime: new Date(entry && count > 0 ? entry.resetTime : now + config.windowMs),
+                    totalRequests: count,
+                };
+            },
             disconnect: async () => { },
             getInstance: () => this.registry.rateLimiter,
         };
@@ -0,0 +1,621 @@
+/**
+ * Streaming Handler Factory
+ *
+ * Handlers that push a sequence of events to the client instead of a single
+ * JSON envelope: progress feeds over Server-Sent Events (`text/event-stream`)
+ * or large exports as newline-delimited JSON (`application/x-ndjson`).
+ *
+ * Streaming handlers run the same access-control pipeline as the JSON
+ * factories (feature flags, versioning, tenant resolution, authentication,
+ * CSRF, rate limiting, input validation, tenant role and ownership checks).
+ * Failures in those steps are answered with the regular `ApiResponse` error
+ * envelope; once the stream is open, errors are written as a final error
+ * event.
+ */
+
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+
+import { HandlerConfig, HandlerContext, ApiError } from './types';
+import { attachHandlerMetadata } from './route-registry';
+import type { AppScope } from './app';
+import {
+  PipelineState,
+  generateSecureTraceId,
+  generateSpanId,
+  sanitizeErrorMessage,
+  mapMethodToAuditEventType,
+  getRequiredServices,
+  configureErrorResponses,
+  getPrismaClient,
+  enforceRequestLimits,
+  readRequestBody,
+  shedLoad,
+  checkFeatureFlags,
+  checkApiVersion,
+  resolveTenant,
+  authenticateRequest,
+  verifyCsrfToken,
+  enforceRateLimit,
+  acquireConcurrencySlot,
+  validateInput,
+  verifyTenantRole,
+  verifyOwnership,
+} from './pipeline';
+import { internalErrorResponse, httpErrorResponse } from './response';
+import { HttpError } from './errors';
+import { createRequestCancellation } from './cancellation';
+import { emitFrameworkEvent } from './events';
+import { Bulkhead } from './bulkhead';
+import { CircuitBreakerRegistry } from './circuit-breaker';
+import { createPaginator } from './pagination';
+import { getRequestId, runWithRequestContext } from './request-context';
+import { AuditCategory, AuditStatus, AuditSeverity } from '../audit/audit-types';
+import { createTenantExtension } from '../database/prisma-tenant-extension';
+
+// ============================================
+// Constants
+// ============================================
+
+const DEFAULT_HEARTBEAT_INTERVAL = 15000; // 15 seconds
+
+const STREAM_AUDIT_STATUS: Record<StreamCloseReason, AuditStatus> = {
+  completed: AuditStatus.SUCCESS,
+  client_disconnected: AuditStatus.CLIENT_CLOSED,
+  error: AuditStatus.FAILURE,
+};
+
+const STREAM_CONTENT_TYPES: Record<StreamFormat, string> = {
+  sse: 'text/event-stream; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+// ============================================
+// Types
+// ============================================
+
+export type StreamFormat = 'sse' | 'ndjson';
+
+/** How a stream ended, recorded in the closing audit event */
+export type StreamCloseReason = 'completed' | 'client_disconnected' | 'error';
+
+export interface StreamEventOptions {
+  /** SSE `event:` field (ignored for NDJSON) */
+  event?: string;
+
+  /** SSE `id:` field, echoed back by browsers as `Last-Event-ID` (ignored for NDJSON) */
+  id?: string;
+}
+
+export interface StreamWriter<TEvent = unknown> {
+  /**
+   * Write one event. Resolves once the socket has room for more data, so
+   * awaiting each write applies backpressure to the producer.
+   * Writes after the stream has closed are ignored.
+   */
+  write(data: TEvent, options?: StreamEventOptions): Promise<void>;
+
+  /** Drain an async iterable into the stream, stopping early if the client leaves */
+  pipe(source: AsyncIterable<TEvent>): Promise<void>;
+
+  /** Whether the stream has ended or the client has disconnected */
+  readonly closed: boolean;
+
+  /** Number of events written so far */
+  readonly eventCount: number;
+}
+
+export interface StreamHandlerContext<TInput = unknown, TEvent = unknown> extends HandlerContext<TInput> {
+  stream: StreamWriter<TEvent>;
+}
+
+export interface StreamHandlerConfig<TInput = unknown, TEvent = unknown>
+  extends Omit<
+    HandlerConfig<TInput, void>,
+    | 'handler' | 'outputSchema' | 'cache' | 'idempotency' | 'successStatus' | 'timeout' | 'hooks'
+    // Steps of the JSON pipeline a stream does not run
+    | 'upload' | 'selection' | 'produces' | 'etag' | 'requirePrecondition'
+  > {
+  /**
+   * Wire format of the stream
+   * @default 'sse'
+   */
+  format?: StreamFormat;
+
+  /**
+   * Interval between keep-alive writes in milliseconds; 0 disables them
+   * @default 15000
+   */
+  heartbeatInterval?: number;
+
+  /**
+   * Produce the stream. Either write through `ctx.stream` and resolve when
+   * done, or return an async iterable whose values are written in order.
+   */
+  handler: (
+    ctx: StreamHandlerContext<TInput, TEvent>
+  ) => Promise<void | AsyncIterable<TEvent>> | AsyncIterable<TEvent>;
+}
+
+// ============================================
+// Stream Writer
+// ============================================
+
+/**
+ * Serialize one event in the wire format
+ */
+export function formatStreamEvent(format: StreamFormat, data: unknown, options: StreamEventOptions = {}): string {
+  const json = JSON.stringify(data ?? null);
+
+  if (format === 'ndjson') {
+    return `${json}\n`;
+  }
+
+  let frame = '';
+  if (options.id) {
+    frame += `id: ${options.id.replace(/[\r\n]/g, '')}\n`;
+  }
+  if (options.event) {
+    frame += `event: ${options.event.replace(/[\r\n]/g, '')}\n`;
+  }
+  // JSON.stringify never emits raw newlines, so one data line is enough
+  return `${frame}data: ${json}\n\n`;
+}
+
+class ResponseStreamWriter<TEvent> implements StreamWriter<TEvent> {
+  private count = 0;
+
+  constructor(
+    private readonly res: Response,
+    private readonly format: StreamFormat,
+    private readonly signal: AbortSignal
+  ) { }
+
+  get closed(): boolean {
+    return this.signal.aborted || this.res.writableEnded;
+  }
+
+  get eventCount(): number {
+    return this.count;
+  }
+
+  async write(data: TEvent, options?: StreamEventOptions): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+
+    this.count++;
+    await this.writeRaw(formatStreamEvent(this.format, data, options));
+  }
+
+  async pipe(source: AsyncIterable<TEvent>): Promise<void> {
+    for await (const event of source) {
+      if (this.closed) {
+        break;
+      }
+      await this.write(event);
+    }
+  }
+
+  /**
+   * Write a frame, waiting for `drain` when the socket buffer is full
+   */
+  writeRaw(chunk: string): Promise<void> {
+    if (this.closed) {
+      return Promise.resolve();
+    }
+
+    if (this.res.write(chunk)) {
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      const done = () => {
+        this.res.off('drain', done);
+        this.signal.removeEventListener('abort', done);
+        resolve();
+      };
+      this.res.once('drain', done);
+      this.signal.addEventListener('abort', done, { once: true });
+    });
+  }
+
+  heartbeat(): void {
+    if (this.closed) {
+      return;
+    }
+    // SSE comment lines are ignored by EventSource; NDJSON readers skip blank lines
+    this.res.write(this.format === 'sse' ? ': heartbeat\n\n' : '\n');
+  }
+
+  writeError(error: ApiError): void {
+    if (this.closed) {
+      return;
+    }
+    this.res.write(formatStreamEvent(this.format, { error }, { event: 'error' }));
+  }
+}
+
+// ============================================
+// Main Stream Handler Factory
+// ============================================
+
+/**
+ * Internal stream handler factory - use createStreamHandler() or
+ * createTenantStreamHandler()
+ *
+ * @internal
+ */
+function _createStreamHandler<TInput = unknown, TEvent = unknown>(
+  config: StreamHandlerConfig<TInput, TEvent>,
+  injectedPrisma?: PrismaClient,
+  app?: AppScope
+) {
+  let effectiveConfig = config;
+
+  if (config.preset) {
+    const { mergePresetConfig } = require('./security-presets');
+    effectiveConfig = mergePresetConfig(config.preset, config);
+  }
+
+  const format: StreamFormat = effectiveConfig.format || 'sse';
+  const heartbeatInterval = effectiveConfig.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL;
+  // Open streams hold their slot until they close
+  const bulkhead = effectiveConfig.concurrency ? new Bulkhead(effectiveConfig.concurrency) : undefined;
+
+  const handleRequest = async (req: Request, res: Response): Promise<any> => {
+    const traceId = generateSecureTraceId();
+    const startTime = Date.now();
+    const auditEnabled = effectiveConfig.auditConfig?.enabled !== false;
+    const cancellation = createRequestCancellation(res);
+    const { signal } = cancellation;
+
+    let span: string | null = null;
+    let monitoring: any;
+    let prisma: any = null;
+    let pipeline: PipelineState<TInput> | undefined;
+    let writer: ResponseStreamWriter<TEvent> | undefined;
+    let heartbeat: NodeJS.Timeout | undefined;
+    let closeReason: StreamCloseReason = 'completed';
+    let streamError: any;
+
+    try {
+      emitFrameworkEvent('handler:start', { method: req.method, path: req.path, traceId });
+
+      // ============================================
+      // 1. Access-Control Pipeline
+      // ============================================
+
+      const services = getRequiredServices();
+      monitoring = services.monitoring;
+      configureErrorResponses(effectiveConfig as HandlerConfig<TInput, any>, services, res);
+
+      if (effectiveConfig.monitoring?.enableTracing) {
+        span = monitoring.startSpan('stream_handler', { traceId, request_id: getRequestId() });
+      }
+
+      pipeline = {
+        config: effectiveConfig as HandlerConfig<TInput, any>,
+        services,
+        auditEnabled,
+        user: null,
+      };
+
+      const stepResponse =
+        enforceRequestLimits(req, res, pipeline.config, monitoring) ||
+        await readRequestBody(req, res, pipeline.config.limits, monitoring) ||
+        shedLoad(req, res, pipeline) ||
+        checkFeatureFlags(res, pipeline) ||
+        checkApiVersion(req, res, pipeline) ||
+        await resolveTenant(req, res, pipeline) ||
+        await authenticateRequest(req, res, pipeline) ||
+        await verifyCsrfToken(req, res, pipeline) ||
+        await enforceRateLimit(req, res, pipeline) ||
+        await acquireConcurrencySlot(req, res, pipeline, bulkhead, signal) ||
+        await validateInput(req, res, pipeline);
+      if (stepResponse) {
+        return stepResponse;
+      }
+
+      const { user, tenant } = pipeline;
+
+      // ============================================
+      // 2. Database Connection & Tenant Scoping
+      // ============================================
+
+      prisma = await getPrismaClient(tenant?.id, services.tenantManager, services.prisma || injectedPrisma!);
+
+      const roleResponse = await verifyTenantRole(req, res, pipeline, prisma);
+      if (roleResponse) {
+        return roleResponse;
+      }
+
+      if (tenant && effectiveConfig.autoTenantScope) {
+        prisma = prisma.$extends(createTenantExtension(tenant.id, {}));
+      }
+
+      const ownershipResponse = await verifyOwnership(req, res, pipeline, prisma);
+      if (ownershipResponse) {
+        return ownershipResponse;
+      }
+
+      // ============================================
+      // 3. Open the Stream
+      // ============================================
+
+      res.status(200);
+      res.set({
+        'Content-Type': STREAM_CONTENT_TYPES[format],
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        // Disable proxy buffering (nginx) so events reach the client immediately
+        'X-Accel-Buffering': 'no',
+      });
+      res.flushHeaders();
+
+      writer = new ResponseStreamWriter<TEvent>(res, format, signal);
+
+      if (heartbeatInterval > 0) {
+        const activeWriter = writer;
+        heartbeat = setInterval(() => activeWriter.heartbeat(), heartbeatInterval);
+        heartbeat.unref?.();
+      }
+
+      monitoring.recordMetric('stream.opened', 1, {
+        method: req.method,
+        path: req.path,
+        format,
+      });
+
+      // ============================================
+      // 4. Execute Handler
+      // ============================================
+
+      const handlerContext: StreamHandlerContext<TInput, TEvent> = {
+        input: pipeline.input as TInput,
+        user,
+        prisma,
+        params: req.params || {},
+        query: req.query || {},
+        request: req,
+        ...(pipeline.resource ? { resource: pipeline.resource } : {}),
+        ...(tenant ? { tenant } : {}),
+        trace: {
+          traceId,
+          spanId: generateSpanId(),
+          startTime: new Date(startTime),
+          tags: {
+            method: req.method,
+            path: req.path,
+            user_id: user?.id || '',
+            tenant_id: tenant?.id || '',
+          },
+        },
+        stream: writer,
+        signal,
+        paginate: createPaginator(req, effectiveConfig.paginate).paginate,
+        breaker: (name, options) => (services.circuitBreakers || CircuitBreakerRegistry.getInstance()).get(name, options),
+      };
+
+      const source = await effectiveConfig.handler(handlerContext);
+      if (source) {
+        await writer.pipe(source);
+      }
+    } catch (error: any) {
+      streamError = error;
+      closeReason = signal.aborted ? 'client_disconnected' : 'error';
+
+      const sanitizedError = sanitizeErrorMessage(error.message);
+
+      if (monitoring && closeReason === 'error') {
+        monitoring.recordMetric('stream.error', 1, {
+          method: req.method,
+          path: req.path,
+          error_type: error.constructor.name,
+        });
+      }
+
+      console.error('[Stream Handler Error]', {
+        method: req.method,
+        url: req.url,
+        error: sanitizedError,
+        traceId,
+        stack: process.env.NODE_ENV === 'development' ? error.stack : undefined,
+      });
+
+      // Before the stream opens, answer with the regular error envelope
+      if (!writer) {
+        if (error instanceof HttpError) {
+          return httpErrorResponse(res, error, traceId);
+        }
+        return internalErrorResponse(
+          res,
+          process.env.NODE_ENV === 'development'
+            ? `Internal error: ${sanitizedError}`
+            : 'An unexpected error occurred'
+        );
+      }
+
+      writer.writeError(error instanceof HttpError
+        ? {
+          code: error.code,
+          message: error.publicMessage,
+          ...(error.details ? { details: error.details } : {}),
+          traceId,
+        }
+        : {
+          code: 'INTERNAL_ERROR',
+          message: process.env.NODE_ENV === 'development'
+            ? `Internal error: ${sanitizedError}`
+            : 'An unexpected error occurred',
+          traceId,
+        });
+    } finally {
+      if (heartbeat) {
+        clearInterval(heartbeat);
+      }
+      cancellation.dispose();
+      pipeline?.releaseSlot?.();
+      if (closeReason === 'completed' && signal.aborted) {
+        closeReason = 'client_disconnected';
+      }
+
+      if (writer) {
+        if (!res.writableEnded) {
+          res.end();
+        }
+
+        const executionTime = Date.now() - startTime;
+        monitoring.recordMetric('stream.closed', 1, {
+          method: req.method,
+          path: req.path,
+          format,
+          reason: closeReason,
+          event_count: writer.eventCount.toString(),
+          execution_time: executionTime.toString(),
+        });
+
+        // Audit: one event per stream, written when it closes
+        if (auditEnabled && pipeline) {
+          const resourceType = effectiveConfig.auditConfig?.resourceType;
+
+          try {
+            await pipeline.services.auditService.logEvent(
+              {
+                eventType: mapMethodToAuditEventType(req.method),
+                category: effectiveConfig.auditConfig?.category as any || AuditCategory.DATA,
+                action: effectiveConfig.auditConfig?.action || `${req.method.toLowerCase()}.${req.path}.stream`,
+                description: `${req.method} ${req.path} (${format} stream)`,
+                ...(resourceType ? { resourceType } : {}),
+                status: STREAM_AUDIT_STATUS[closeReason],
+                statusCode: 200,
+                severity: closeReason === 'error' ? AuditSeverity.ERROR : AuditSeverity.INFO,
+                executionTimeMs: executionTime,
+                ...(closeReason === 'error' ? { errorMessage: sanitizeErrorMessage(streamError.message) } : {}),
+                metadata: {
+                  ...effectiveConfig.auditConfig?.metadata,
+                  format,
+                  closeReason,
+                  eventCount: writer.eventCount,
+                },
+                ...(effectiveConfig.auditConfig?.tags ? { tags: effectiveConfig.auditConfig.tags } : {}),
+                ...(effectiveConfig.auditConfig?.retentionCategory ? { retentionCategory: effectiveConfig.auditConfig.retentionCategory } : {}),
+              },
+              {
+                user: pipeline.user,
+                ...(pipeline.tenant ? { tenant: pipeline.tenant } : {}),
+                request: req,
+                traceId,
+              }
+            );
+          } catch (auditError: any) {
+            console.error('Audit log failed:', sanitizeErrorMessage(auditError.message));
+          }
+        }
+      }
+
+      if (span && monitoring) {
+        try {
+          monitoring.endSpan(span);
+        } catch (error: any) {
+          console.error('Failed to end monitoring span:', error.message);
+        }
+      }
+
+      const outcome = {
+        method: req.method,
+        path: req.path,
+        traceId,
+        statusCode: res.statusCode,
+        duration: Date.now() - startTime,
+      };
+      if (closeReason === 'error') {
+        emitFrameworkEvent('handler:error', {
+          ...outcome,
+          errorType: streamError.constructor.name,
+          message: sanitizeErrorMessage(streamError.message),
+        });
+      } else {
+        emitFrameworkEvent('handler:complete', outcome);
+      }
+
+      if (prisma && pipeline?.tenant) {
+        prisma.$disconnect().catch((error: any) => {
+          console.error('Prisma disconnect error:', error.message);
+        });
+      }
+    }
+  };
+
+  // Everything the request triggers can read its id through getRequestId(),
+  // and the services of the app the handler was created by
+  const requestHandler = (req: Request, res: Response): Promise<any> =>
+    runWithRequestContext(req, res, () => (app ? app.run(() => handleRequest(req, res)) : handleRequest(req, res)));
+
+  return attachHandlerMetadata(requestHandler, {
+    config: effectiveConfig as unknown as HandlerConfig<TInput, any>,
+    ...(config.preset ? { preset: config.preset } : {}),
+    stream: { format },
+  });
+}
+
+// ============================================
+// Convenience Wrappers
+// ============================================
+
+/**
+ * Create a streaming handler (Server-Sent Events or NDJSON)
+ *
+ * Uses the 'authenticated' preset unless another `preset` is given, so
+ * public feeds must opt out explicitly with `preset: 'public'`.
+ *
+ * @example
+ * createStreamHandler({
+ *   format: 'sse',
+ *   handler: async ({ stream, signal }) => {
+ *     for (let step = 1; step <= 10 && !signal.aborted; step++) {
+ *       await doWork(step, { signal });
+ *       await stream.write({ step, of: 10 }, { event: 'progress' });
+ *     }
+ *   },
+ * })
+ */
+export const createStreamHandler = <TInput, TEvent>(
+  config: StreamHandlerConfig<TInput, TEvent>,
+  injectedPrisma?: PrismaClient,
+  app?: AppScope
+): ReturnType<typeof _createStreamHandler<TInput, TEvent>> => {
+  return _createStreamHandler({
+    preset: 'authenticated',
+    ...config,
+  }, injectedPrisma, app);
+};
+
+/**
+ * Create a tenant-scoped streaming handler
+ *
+ * Same defaults as createTenantHandler(): tenant-role validation and
+ * automatic tenant scoping of `ctx.prisma`.
+ *
+ * @example
+ * createTenantStreamHandler({
+ *   format: 'ndjson',
+ *   handler: async function* ({ prisma }) {
+ *     for await (const batch of paginate(prisma.task)) {
+ *       yield* batch;
+ *     }
+ *   },
+ * })
+ */
+export const createTenantStreamHandler = <TInput, TEvent>(
+  config: Omit<StreamHandlerConfig<TInput, TEvent>, 'requireAuth'>,
+  injectedPrisma?: PrismaClient,
+  app?: AppScope
+): ReturnType<typeof _createStreamHandler<TInput, TEvent>> => {
+  return _createStreamHandler({
+    preset: 'tenant',
+    ...config,
+    tenantRoleValidation: config.tenantRoleValidation !== false,
+    autoTenantScope: config.autoTenantScope !== false,
+  }, injectedPrisma, app);
+};
@@ -4,6 +4,8 @@
 
 import { Request, Response } from 'express';
 import { z } from 'zod';
+import type { HandlerHooks } from './hooks';
+import type { CircuitBreaker, CircuitBreakerOptions } from './circuit-breaker';
 
 // ============================================
 // Core User and Authentication Types
@@ -39,6 +41,23 @@ export interface AuthStrategy {
 // Handler Configuration Types
 // ============================================
 
+export type BuiltInSecurityPreset = 'public' | 'authenticated' | 'admin' | 'tenant' | 'readonly' | 'highSecurity';
+
+/**
+ * Names of presets registered with `definePreset()`. Augment it so
+ * `preset: 'pciScope'` type-checks:
+ *
+ * @example
+ * declare module '@tenet/api' {
+ *   interface CustomSecurityPresets {
+ *     pciScope: true;
+ *   }
+ * }
+ */
+export interface CustomSecurityPresets { }
+
+export type SecurityPresetName = BuiltInSecurityPreset | Extract<keyof CustomSecurityPresets, string>;
+
 export interface HandlerConfig<TInput = unknown, TOutput = unknown> {
   /**
    * Security preset to use (optional)
@@ -51,11 +70,25 @@ export interface HandlerConfig<TInput = unknown, TOutput = unknown> {
    * - 'tenant': Multi-tenant with auto-scoping
    * - 'readonly': GET requests with caching
    * - 'highSecurity': Payments, idempotency required
+   * - any preset registered with `definePreset()`
+   */
+  preset?: SecurityPresetName;
+
+  /**
+   * Zod schema for input validation: one schema for body and query merged,
+   * or `{ params, query, body, headers }` validated separately into
+   * `ctx.input.params`, `ctx.input.query` and so on
    */
-  preset?: 'public' | 'authenticated' | 'admin' | 'tenant' | 'readonly' | 'highSecurity';
+  schema?: z.ZodSchema<TInput> | RequestSchemas<TInput>;
 
-  /** Zod schema for input validation */
-  schema?: z.ZodSchema<TInput>;
+  /**
+   * Zod schema the handler result must satisfy before it is sent.
+   * Unknown keys are stripped (unless the schema uses `.passthrough()`),
+   * so ORM rows never leak columns the schema does not declare. The schema
+   * takes what the handler returns; what it parses to (after any
+   * `.transform()`) is what gets sent.
+   */
+  outputSchema?: z.ZodType<unknown, z.ZodTypeDef, TOutput>;
 
   /** Whether authentication is required */
   requireAuth?: boolean;
@@ -75,12 +108,32 @@ export interface HandlerConfig<TInput = unknown, TOutput = unknown> {
   /** Rate limiting configuration */
   rateLimit?: RateLimitConfig;
 
+  /**
+   * Accept `multipart/form-data` uploads. Files are checked against the
+   * per-field limits and exposed as `ctx.files`; text fields are merged into
+   * the input validated by `schema`.
+   */
+  upload?: UploadConfig;
+
+  /**
+   * Size and shape limits checked before the handler runs. The body limit
+   * is enforced while it streams in, so oversized bodies are never buffered.
+   */
+  limits?: RequestLimits;
+
   /** Caching configuration */
   cache?: CacheConfig;
 
   /** Whether to automatically sanitize the response */
   sanitizeResponse?: boolean;
 
+  /**
+   * Why a setting departs from the security policies, by setting name,
+   * e.g. `{ csrfProtection: 'Signed server-to-server webhook' }`. Read by
+   * `enforceSecurityPolicies()` and shown in reviews.
+   */
+  justifications?: Partial<Record<keyof HandlerConfig, string>>;
+
   /** API version requirements */
   apiVersion?: string;
 
@@ -122,16 +175,84 @@ export interface HandlerConfig<TInput = unknown, TOutput = unknown> {
    */
   idempotency?: boolean;
 
+  /** Settings for `ctx.paginate` */
+  paginate?: PaginationConfig;
+
+  /** Allow `?fields=` and `?expand=` (only the listed names are accepted) */
+  selection?: SelectionConfig;
+
+  /**
+   * Send a strong `ETag` with GET results and answer a matching
+   * `If-None-Match` with 304
+   * @default true
+   */
+  etag?: boolean;
+
+  /**
+   * Reject PUT/PATCH/DELETE requests without `If-Match` (428). The header is
+   * checked against the resource loaded by `requireOwnership`, rendered as a
+   * GET returning it would send it.
+   * @default false
+   */
+  requirePrecondition?: boolean;
+
   /**
    * Request timeout in milliseconds
    * @default 30000 (30 seconds)
    */
   timeout?: number;
 
+  /**
+   * Cap how many requests this handler runs at once, so a slow endpoint
+   * cannot starve the rest of the process. Requests over the cap wait in a
+   * bounded queue; past it they get 503 with `Retry-After`.
+   */
+  concurrency?: ConcurrencyConfig;
+
+  /**
+   * `low` priority handlers are shed (503) while event-loop lag is over the
+   * global `loadShedding.lagThresholdMs`
+   * @default 'normal'
+   */
+  priority?: HandlerPriority;
+
+  /**
+   * Lifecycle hooks run between pipeline steps, after any global hooks
+   * registered with `HookRegistry`
+   */
+  hooks?: HandlerHooks<TInput, TOutput>;
+
+  /** OpenAPI documentation for this operation */
+  openapi?: OpenApiOperationConfig;
+
+  /**
+   * Error body format. Overrides the global `errors.format`; clients that
+   * accept `application/problem+json` always get problem details.
+   */
+  errorFormat?: ErrorFormat;
+
+  /**
+   * Formats the result can be sent in, chosen from `?format=` or `Accept`.
+   * The first one is used when the client has no preference.
+   * @default ['json']
+   */
+  produces?: ResponseFormat[];
+
   /** The actual request handler */
   handler: (ctx: HandlerContext<TInput>) => Promise<TOutput>;
 }
 
+export interface OpenApiOperationConfig {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  operationId?: string;
+  deprecated?: boolean;
+
+  /** Leave this operation out of the generated document */
+  exclude?: boolean;
+}
+
 export interface AuditConfig {
   /** Enable audit logging for this handler */
   enabled?: boolean;
@@ -176,6 +297,118 @@ export interface OwnershipConfig {
   selectFields?: string[];    // Fields to select (Prisma syntax)
 }
 
+/**
+ * Parts of the request a schema can be declared for
+ */
+export type RequestPart = 'params' | 'query' | 'body' | 'headers';
+
+/**
+ * One schema per request part. Params, query and header values are strings
+ * on the wire and are coerced to the numbers, booleans and arrays the
+ * schema expects; header names are lower-case.
+ */
+export type RequestSchemas<TInput> = {
+  [K in keyof TInput]: K extends RequestPart ? z.ZodType<TInput[K], z.ZodTypeDef, any> : never;
+};
+
+export interface RequestLimits {
+  /**
+   * Largest JSON, form or other non-multipart body in bytes. Multipart
+   * bodies are limited by `upload.maxTotalSize`.
+   * @default 10485760 (10MB)
+   */
+  maxBodyBytes?: number;
+
+  /**
+   * Media types accepted on POST/PUT/PATCH/DELETE, e.g.
+   * `'application/x-www-form-urlencoded'` or `'text/*'`
+   * @default ['application/json'], plus 'multipart/form-data' with `upload`
+   */
+  contentTypes?: string[];
+
+  /** Largest total size of the request headers in bytes */
+  maxHeaderBytes?: number;
+
+  /** Most query string parameters accepted */
+  maxQueryParams?: number;
+}
+
+export interface UploadConfig {
+  /** Accepted file fields; files sent under any other field name are rejected */
+  fields: Record<string, UploadFieldConfig>;
+
+  /**
+   * Maximum size of the whole multipart body in bytes
+   * @default 10485760 (10MB)
+   */
+  maxTotalSize?: number;
+
+  /** Encrypt file contents with `EncryptionService.encryptFile` before storing */
+  encrypt?: boolean;
+
+  /** Where accepted files are written; files stay in memory when omitted */
+  storage?: StorageAdapter;
+}
+
+export interface UploadFieldConfig {
+  /**
+   * Maximum number of files for this field
+   * @default 1
+   */
+  maxCount?: number;
+
+  /**
+   * Maximum size of each file in bytes
+   * @default 5242880 (5MB)
+   */
+  maxFileSize?: number;
+
+  /** Allowed MIME types, checked against the sniffed content type */
+  allowedMimeTypes?: string[];
+
+  /** Allowed file extensions without the dot (e.g. ['png', 'jpg']) */
+  allowedExtensions?: string[];
+
+  /** Reject the request when no file is sent for this field */
+  required?: boolean;
+}
+
+export interface UploadedFile {
+  /** Form field the file was sent under */
+  fieldName: string;
+
+  /** Client-supplied file name, stripped of any path */
+  originalName: string;
+
+  /** MIME type detected from the file's magic bytes, or the declared type for text formats */
+  mimeType: string;
+
+  /** Size of the original (unencrypted) content in bytes */
+  size: number;
+
+  /** File content as received (before encryption) */
+  buffer: Buffer;
+
+  /** Read the file content as a stream */
+  stream(): NodeJS.ReadableStream;
+
+  /** Location returned by the storage adapter, when one is configured */
+  storageKey?: string;
+
+  /** Whether the stored copy is encrypted */
+  encrypted: boolean;
+}
+
+/**
+ * Persists uploaded files. `key` is generated by the framework and safe to
+ * use as a file name.
+ */
+export interface StorageAdapter {
+  save(key: string, content: Buffer, file: Omit<UploadedFile, 'buffer' | 'stream' | 'storageKey'>): Promise<string>;
+  read(location: string): Promise<Buffer>;
+  delete(location: string): Promise<void>;
+}
+
 export interface RateLimitConfig {
   windowMs: number;
   maxRequests: number;
@@ -185,6 +418,28 @@ export interface RateLimitConfig {
   handler?: (req: Request, res: Response) => Promise<Response>;
 }
 
+export interface ConcurrencyConfig {
+  /** Requests running the handler at the same time */
+  maxInFlight: number;
+
+  /**
+   * Requests waiting for a slot; any more are rejected right away
+   * @default 0
+   */
+  maxQueue?: number;
+
+  /**
+   * How long a request may wait in the queue before it is rejected
+   * @default 5000
+   */
+  queueTimeoutMs?: number;
+
+  /** Apply the limits to each tenant separately instead of the whole handler */
+  perTenant?: boolean;
+}
+
+export type HandlerPriority = 'low' | 'normal';
+
 export interface CacheConfig {
   ttl: number;
   keyGenerator?: (req: Request, user?: User) => string;
@@ -222,9 +477,21 @@ export interface HandlerContext<TInput = unknown> {
   /** Original Express request object */
   request: Request;
 
+  /**
+   * Aborted when the request times out or the client disconnects.
+   * Pass it to fetch, database drivers and other cancellable work.
+   */
+  signal: AbortSignal;
+
   /** Verified resource data */
   resource?: any;
 
+  /** Uploaded files by field name (when `upload` is configured) */
+  files?: Record<string, UploadedFile[]>;
+
+  /** Fields and relations requested by the client (when `selection` is configured) */
+  selection?: FieldSelection;
+
   /** Tenant context */
   tenant?: TenantContext;
 
@@ -233,6 +500,108 @@ export interface HandlerContext<TInput = unknown> {
 
   /** Cache instance */
   cache?: any; // Redis type
+
+  /**
+   * Run a paginated `findMany` on a Prisma delegate using the request's
+   * `cursor`/`page` and `limit` query parameters. The page is added to
+   * `meta.pagination` and the `Link` header.
+   */
+  paginate: <T>(delegate: PaginationDelegate<T>, args?: PaginateArgs) => Promise<T[]>;
+
+  /**
+   * The app-wide circuit breaker for a dependency, e.g.
+   * `ctx.breaker('billing').exec(() => billing.charge(order), () => queued)`.
+   * `options` apply when the breaker is first created.
+   */
+  breaker: (name: string, options?: CircuitBreakerOptions) => CircuitBreaker;
+}
+
+// ============================================
+// Field Selection Types
+// ============================================
+
+export interface SelectionConfig {
+  /**
+   * Fields `?fields=` may name, e.g. `['id', 'title', 'owner.email']`.
+   * `owner.*` allows every field of `owner`.
+   */
+  fields?: string[];
+
+  /**
+   * Relations `?expand=` may name, e.g. `['owner', 'tasks']`. A dotted
+   * field such as `owner.email` expands `owner`, so it must be listed here too.
+   */
+  expand?: string[];
+}
+
+export interface FieldSelection {
+  /** Requested fields; empty when the client sent no `?fields=` */
+  fields: string[];
+
+  /** Requested relations */
+  expand: string[];
+
+  /**
+   * Prisma `select` (when fields were requested) or `include` arguments
+   * for the selection, to spread into `findMany` / `findUnique` or `paginate`
+   */
+  toPrisma(): { select?: Record<string, any>; include?: Record<string, any> };
+}
+
+// ============================================
+// Pagination Types
+// ============================================
+
+export interface PaginationConfig {
+  /**
+   * `cursor` seeks past a signed cursor; `offset` uses `page` and a total count
+   * @default 'cursor'
+   */
+  mode?: 'cursor' | 'offset';
+
+  /** @default 20 */
+  defaultLimit?: number;
+
+  /** @default 100 */
+  maxLimit?: number;
+}
+
+export interface PaginateArgs {
+  where?: Record<string, any>;
+  select?: Record<string, any>;
+  include?: Record<string, any>;
+
+  /**
+   * Non-null field to sort by; `id` is added as a tie-breaker
+   * @default 'id'
+   */
+  sortBy?: string;
+
+  /** @default 'desc' */
+  sortOrder?: 'asc' | 'desc';
+}
+
+/**
+ * The part of a Prisma model delegate (e.g. `prisma.task`) used by `paginate`
+ */
+export interface PaginationDelegate<T> {
+  findMany(args: Record<string, any>): Promise<T[]>;
+  count(args: Record<string, any>): Promise<number>;
+}
+
+export interface PaginationMeta {
+  mode: 'cursor' | 'offset';
+  limit: number;
+  hasMore: boolean;
+
+  /** Cursor mode: pass as `?cursor=` to get the next / previous page */
+  nextCursor?: string;
+  prevCursor?: string;
+
+  /** Offset mode */
+  page?: number;
+  total?: number;
+  totalPages?: number;
 }
 
 export interface TenantContext {
@@ -272,13 +641,42 @@ export interface ApiMeta {
   executionTime?: number;
   cached?: boolean;
   idempotent?: boolean;
+  pagination?: PaginationMeta;
+}
+
+/**
+ * RFC 9457 problem details, sent as `application/problem+json`
+ * The error's `details` (e.g. validation field errors) are sent as the
+ * `details` extension member, so no field name can clash with a standard one.
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  code: ErrorCode;
+  traceId?: string;
+  details?: Record<string, any>;
 }
 
+/**
+ * `envelope` is the `{ success, error, meta }` body, `problem` is RFC 9457
+ */
+export type ErrorFormat = 'envelope' | 'problem';
+
+/**
+ * Success body formats. Only `json` uses the `{ success, data, meta }`
+ * envelope; the others send the data alone and `meta` as headers.
+ */
+export type ResponseFormat = 'json' | 'csv' | 'ndjson' | 'msgpack';
+
 export type ErrorCode =
   | 'VALIDATION_ERROR'
   | 'AUTHENTICATION_ERROR'
   | 'AUTHORIZATION_ERROR'
   | 'RESOURCE_NOT_FOUND'
+  | 'NOT_ACCEPTABLE'
   | 'RESOURCE_FORBIDDEN'
   | 'RATE_LIMIT_EXCEEDED'
   | 'INTERNAL_ERROR'
@@ -286,7 +684,12 @@ export type ErrorCode =
   | 'BAD_REQUEST'
   | 'PAYLOAD_TOO_LARGE'
   | 'UNSUPPORTED_MEDIA_TYPE'
-  | 'REQUEST_TIMEOUT';
+  | 'REQUEST_TIMEOUT'
+  | 'CONFLICT'
+  | 'PRECONDITION_FAILED'
+  | 'PRECONDITION_REQUIRED'
+  | 'HEADERS_TOO_LARGE'
+  | 'UNPROCESSABLE_ENTITY';
 
 // ============================================
 // Security and Sanitization Types
@@ -409,10 +812,35 @@ export interface AppConfig {
   // Multi-tenancy
   multitenancy: MultitenancyConfig;
 
+  // Error responses
+  errors?: ErrorResponseConfig;
+
+  // Load shedding
+  loadShedding?: LoadSheddingConfig;
+
   // Feature flags
   features: Record<string, boolean>;
 }
 
+export interface ErrorResponseConfig {
+  /** Default error body format */
+  format: ErrorFormat;
+
+  /** Base of the problem `type` URIs, e.g. `https://api.example.com/problems` */
+  problemTypeBaseUri?: string;
+}
+
+export interface LoadSheddingConfig {
+  /** Shed `priority: 'low'` handlers while the event loop lags */
+  enabled: boolean;
+
+  /** Event-loop lag (p99 over the last sample, in ms) above which to shed */
+  lagThresholdMs: number;
+
+  /** Seconds sent as `Retry-After` on shed requests */
+  retryAfter?: number;
+}
+
 export interface DatabaseConfig {
   url: string;
   poolSize: number;
@@ -508,21 +936,41 @@ export type Prettify<T> = {
 // Event Types for Extensibility
 // ============================================
 
-export interface FrameworkEvent {
-  type: string;
-  timestamp: Date;
-  data: Record<string, any>;
-  context?: HandlerContext;
-}
-
-export type FrameworkEventType =
-  | 'handler:start'
-  | 'handler:complete'
-  | 'handler:error'
-  | 'auth:success'
-  | 'auth:failure'
-  | 'cache:hit'
-  | 'cache:miss'
-  | 'rate_limit:exceeded'
-  | 'sanitization:applied'
-  | 'encryption:applied';
+/**
+ * Payload of each framework event
+ */
+export interface FrameworkEventData {
+  'handler:start': { method: string; path: string; traceId: string };
+  'handler:complete': { method: string; path: string; traceId: string; statusCode: number; duration: number };
+  /** The handler or a pipeline step threw; `statusCode` is the status sent for it */
+  'handler:error': {
+    method: string;
+    path: string;
+    traceId: string;
+    statusCode: number;
+    duration: number;
+    errorType: string;
+    message: string;
+  };
+  'auth:success': { userId: string; strategy: string; method: string; path: string };
+  'auth:failure': { strategies: string[]; method: string; path: string };
+  'cache:hit': { key: string };
+  'cache:miss': { key: string };
+  'rate_limit:exceeded': { key: string; limit: number; windowMs: number };
+  'sanitization:applied': { target: 'input' | 'response' };
+  'encryption:applied': { target: 'response' };
+}
+
+export type FrameworkEventType = keyof FrameworkEventData;
+
+export type FrameworkEvent<T extends FrameworkEventType = FrameworkEventType> = {
+  [K in T]: {
+    type: K;
+    timestamp: Date;
+    data: FrameworkEventData[K];
+    /** Id of the request that caused the event, if any */
+    requestId?: string;
+    /** Set on handler events once the handler context exists */
+    context?: HandlerContext;
+  };
+}[T];
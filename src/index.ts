@@ -14,11 +14,44 @@ export { createAuthenticatedHandler } from './core/handler';
 export { createPublicHandler } from './core/handler';
 export { createAdminHandler } from './core/handler';
 export { createTenantHandler } from './core/handler';
+export { createStreamHandler, createTenantStreamHandler } from './core/stream-handler';
+export { HookRegistry } from './core/hooks';
+export { FrameworkEvents } from './core/events';
+export { Bulkhead, LoadShedder } from './core/bulkhead';
+export { CircuitBreaker, CircuitBreakerRegistry, CircuitOpenError } from './core/circuit-breaker';
+export { createApp, TenetApp } from './core/app';
+export type { AppOptions, AppServices } from './core/app';
+export { ClientClosedError } from './core/cancellation';
+export {
+  HttpError,
+  BadRequestError,
+  ValidationError,
+  UnauthorizedError,
+  ForbiddenError,
+  ResourceForbiddenError,
+  NotFoundError,
+  NotAcceptableError,
+  RequestTimeoutError,
+  ConflictError,
+  PreconditionFailedError,
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+  UnprocessableEntityError,
+  PreconditionRequiredError,
+  HeadersTooLargeError,
+  RateLimitError,
+  InternalServerError,
+  ServiceUnavailableError,
+} from './core/errors';
+export { RouteRegistry, mountRouter, getHandlerMetadata } from './core/route-registry';
 
 // Types and interfaces
 export type {
   HandlerConfig,
   HandlerContext,
+  BuiltInSecurityPreset,
+  CustomSecurityPresets,
+  SecurityPresetName,
   User,
   AuthToken,
   ApiResponse,
@@ -28,14 +61,102 @@ export type {
   SanitizationConfig,
   CacheConfig,
   RateLimitConfig,
+  ConcurrencyConfig,
+  HandlerPriority,
+  LoadSheddingConfig,
   MonitoringConfig,
   AppConfig,
   ApiVersion,
   FrameworkEvent,
+  FrameworkEventType,
+  FrameworkEventData,
   ErrorCode,
+  ErrorFormat,
+  ResponseFormat,
+  ErrorResponseConfig,
+  ProblemDetails,
   OwnershipConfig,
+  OpenApiOperationConfig,
+  UploadConfig,
+  RequestLimits,
+  RequestSchemas,
+  RequestPart,
+  UploadFieldConfig,
+  UploadedFile,
+  StorageAdapter,
+  PaginationConfig,
+  PaginateArgs,
+  PaginationDelegate,
+  PaginationMeta,
+  SelectionConfig,
+  FieldSelection,
 } from './core/types';
 
+export type {
+  HookPhase,
+  HookResult,
+  HandlerHooks,
+  BeforeAuthContext,
+  AfterValidationContext,
+  BeforeResponseContext,
+  OnErrorContext,
+} from './core/hooks';
+
+export type { FrameworkEventListener, SubscribeOptions } from './core/events';
+export type { CircuitState, CircuitBreakerOptions, CircuitBreakerStats } from './core/circuit-breaker';
+
+export type {
+  StreamFormat,
+  StreamCloseReason,
+  StreamEventOptions,
+  StreamWriter,
+  StreamHandlerContext,
+  StreamHandlerConfig,
+} from './core/stream-handler';
+
+export type { HttpErrorOptions } from './core/errors';
+
+export type { RegisteredRoute, HandlerMetadata } from './core/route-registry';
+
+// OpenAPI
+export { generateOpenApiDocument, createOpenApiRouter } from './openapi/generator';
+export { zodToJsonSchema } from './openapi/zod-schema';
+export type { OpenApiOptions, OpenApiRouteOptions, OpenApiDocument } from './openapi/generator';
+
+// Conditional requests
+export { computeETag, etagMatches } from './core/conditional';
+
+// Pagination
+export { buildLinkHeader } from './core/pagination';
+
+// Request IDs
+export { requestContext, getRequestId } from './core/request-context';
+
+// Response formats
+export { negotiateFormat, toCsv, toNdjson, encodeMsgpack } from './core/formats';
+
+// Field selection
+export { applySelection } from './core/selection';
+
+// Framework adapters
+export { toNodeHandler, toFastifyHandler, toFetchHandler } from './adapters';
+export type {
+  NodeAdapterOptions,
+  NodeHandler,
+  NodeRouteInput,
+  FastifyAdapterOptions,
+  FastifyHandler,
+  FastifyReplyLike,
+  FastifyRequestLike,
+  FetchAdapterOptions,
+  FetchHandler,
+  FetchRouteContext,
+} from './adapters';
+
+// Batch requests
+export { createBatchRouter } from './core/batch';
+export type { BatchRouterOptions, BatchSubRequest, BatchItemResult } from './core/batch';
+
 // Authentication
 export { JWTStrategy } from './auth/strategies/jwt';
 export { APIKeyStrategy } from './auth/strategies/api-key';
@@ -43,8 +164,30 @@ export { OAuthStrategy } from './auth/strategies/oauth';
 export { AuthManager } from './auth/manager';
 
 // Security
+export { definePreset, getSecurityPreset, mergePresetConfig } from './core/security-presets';
+export type { PresetConfig, DefinePresetOptions } from './core/security-presets';
 export { SanitizationService } from './security/sanitization';
 export { EncryptionService } from './security/encryption';
+export {
+  describeSecurityPosture,
+  formatSecurityPostureReport,
+  createSecurityPostureHandler,
+} from './security/posture';
+export type { HandlerSecurityPosture, SecurityPostureHandlerOptions } from './security/posture';
+export {
+  securityPolicies,
+  defaultSecurityPolicies,
+  checkSecurityPolicies,
+  enforceSecurityPolicies,
+  isJustified,
+  SecurityPolicyError,
+} from './security/policy';
+export type { SecurityPolicy, PolicyRoute, PolicyViolation, PolicyCheckOptions } from './security/policy';
+
+// Uploads
+export { LocalDiskStorageAdapter } from './uploads/storage';
+export { detectMimeType } from './uploads/file-type';
+export type { LocalDiskStorageConfig } from './uploads/storage';
 
 // Rate limiting
 export { RedisRateLimiter } from './security/rate-limiting';
@@ -95,8 +238,13 @@ export {
   notFoundResponse,
   rateLimitResponse,
   internalErrorResponse,
+  httpErrorResponse,
+  notModifiedResponse,
   serviceUnavailableResponse,
   healthCheckResponse,
+  sendApiResponse,
+  toProblemDetails,
+  PROBLEM_JSON_MEDIA_TYPE,
 } from './core/response';
 
 // Audit Trail
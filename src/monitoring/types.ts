@@ -28,6 +28,13 @@ export interface ServiceRegistry {
     authManager: any; // AuthManager
     rateLimiter: any; // RedisRateLimiter
     cacheManager: any; // CacheManager
+    csrfProtection?: any; // CSRFProtection
+    idempotencyService?: any; // IdempotencyService
+    encryptionService?: any; // EncryptionService
+    sanitizationService?: any; // SanitizationService
+    circuitBreakers?: any; // CircuitBreakerRegistry
+    hookRegistry?: any; // HookRegistry
+    prisma?: any; // PrismaClient, used instead of the one given to the handler factory
 }
 
 export interface ServiceInitResult {
@@ -43,6 +43,13 @@ export class TenantManager {
     return TenantManager.instance;
   }
 
+  /**
+   * New instance separate from the shared one (used by `createApp`)
+   */
+  public static create(config: MultitenancyConfig): TenantManager {
+    return new TenantManager(config);
+  }
+
   /**
    * Set the tenant isolation strategy
    */
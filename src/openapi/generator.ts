@@ -0,0 +1,552 @@
+/**
+ * OpenAPI Document Generator
+ *
+ * Builds an OpenAPI 3.1 document from the handlers recorded in the
+ * RouteRegistry: request schemas come from each handler's Zod `schema`,
+ * security requirements from `requireAuth`/`authStrategies`, and error
+ * responses from the standard `ApiResponse` envelope.
+ */
+
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { HandlerConfig } from '../core/types';
+import { compareRoutes, RouteRegistry, RegisteredRoute } from '../core/route-registry';
+import { FORMAT_MEDIA_TYPES } from '../core/formats';
+import { schemasByPart } from '../core/request-schemas';
+import { zodToJsonSchema, getObjectShape, JsonSchema } from './zod-schema';
+
+export interface OpenApiOptions {
+  title: string;
+  version: string;
+  description?: string;
+  servers?: Array<{ url: string; description?: string }>;
+
+  /** Routes to document (defaults to every route in the RouteRegistry) */
+  routes?: RegisteredRoute[];
+
+  /** Header used by the API-key strategy */
+  apiKeyHeader?: string;
+}
+
+export interface OpenApiRouteOptions extends OpenApiOptions {
+  /** Path the document is served from */
+  path?: string;
+}
+
+export type OpenApiDocument = Record<string, any>;
+
+const STATE_CHANGING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+const PRECONDITION_METHODS = new Set(['PUT', 'PATCH', 'DELETE']);
+
+/**
+ * Security scheme for each built-in authentication strategy
+ */
+const STRATEGY_SECURITY_SCHEMES: Record<string, string> = {
+  jwt: 'bearerAuth',
+  api_key: 'apiKeyAuth',
+};
+
+const RATE_LIMIT_HEADERS = {
+  'X-RateLimit-Limit': { $ref: '#/components/headers/X-RateLimit-Limit' },
+  'X-RateLimit-Remaining': { $ref: '#/components/headers/X-RateLimit-Remaining' },
+  'X-RateLimit-Reset': { $ref: '#/components/headers/X-RateLimit-Reset' },
+};
+
+const STREAM_MEDIA_TYPES: Record<'sse' | 'ndjson', string> = {
+  sse: 'text/event-stream',
+  ndjson: 'application/x-ndjson',
+};
+
+/**
+ * Generate an OpenAPI 3.1 document
+ */
+export function generateOpenApiDocument(options: OpenApiOptions): OpenApiDocument {
+  const routes = [...(options.routes || RouteRegistry.getInstance().getRoutes())].sort(compareRoutes);
+  const paths: Record<string, Record<string, any>> = {};
+
+  for (const route of routes) {
+    const { config } = route.metadata;
+    if (config.openapi?.exclude) {
+      continue;
+    }
+
+    const openApiPath = toOpenApiPath(route.path);
+    paths[openApiPath] = paths[openApiPath] || {};
+    paths[openApiPath][route.method.toLowerCase()] = buildOperation(route);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: options.title,
+      version: options.version,
+      ...(options.description ? { description: options.description } : {}),
+    },
+    ...(options.servers ? { servers: options.servers } : {}),
+    paths,
+    components: buildComponents(options),
+  };
+}
+
+/**
+ * Create a router that serves the generated document
+ *
+ * @example
+ * app.use(createOpenApiRouter({ title: 'Tasks API', version: '1.0.0', path: '/docs/openapi.json' }));
+ */
+export function createOpenApiRouter(options: OpenApiRouteOptions): Router {
+  const router = Router();
+  const { path = '/openapi.json', ...documentOptions } = options;
+
+  // Generated per request so routes mounted after startup are included
+  router.get(path, (_req: Request, res: Response) => {
+    res.json(generateOpenApiDocument(documentOptions));
+  });
+
+  return router;
+}
+
+// ============================================
+// Operation Builders
+// ============================================
+
+function buildOperation(route: RegisteredRoute): Record<string, any> {
+  const config = route.metadata.config as HandlerConfig<any, any>;
+  const docs = config.openapi || {};
+  const successStatus = String(config.successStatus || 200);
+  const parameters = buildParameters(route, config);
+
+  const operation: Record<string, any> = {
+    operationId: docs.operationId || toOperationId(route.method, route.path),
+    ...(docs.summary ? { summary: docs.summary } : {}),
+    ...(docs.description ? { description: docs.description } : {}),
+    ...(docs.tags ? { tags: docs.tags } : {}),
+    ...(docs.deprecated ? { deprecated: true } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+  };
+
+  const bodySchema = config.schema ? schemasByPart(config.schema, route.method).body : undefined;
+  if (config.upload && route.method !== 'GET') {
+    operation.requestBody = buildUploadRequestBody(config);
+  } else if (bodySchema && route.method !== 'GET') {
+    const schema = zodToJsonSchema(bodySchema);
+    const mediaTypes = (config.limits?.contentTypes || ['application/json'])
+      .filter(type => type !== 'multipart/form-data');
+    operation.requestBody = {
+      required: true,
+      content: Object.fromEntries(mediaTypes.map(type => [type, { schema }])),
+    };
+  }
+
+  const successSchema = config.outputSchema
+    ? {
+      allOf: [
+        { $ref: '#/components/schemas/SuccessResponse' },
+        { type: 'object', properties: { data: zodToJsonSchema(config.outputSchema) } },
+      ],
+    }
+    : { $ref: '#/components/schemas/SuccessResponse' };
+
+  const stream = route.metadata.stream;
+  const sendsETag = !stream && route.method === 'GET' && config.etag !== false && successStatus === '200';
+  const successHeaders = {
+    ...(config.rateLimit ? RATE_LIMIT_HEADERS : {}),
+    ...(sendsETag ? { ETag: { $ref: '#/components/headers/ETag' } } : {}),
+    ...(paginates(route, config) ? { Link: { $ref: '#/components/headers/Link' } } : {}),
+  };
+  const responses: Record<string, any> = {
+    [successStatus]: {
+      description: stream ? 'Event stream' : 'Successful response',
+      ...(Object.keys(successHeaders).length > 0 ? { headers: successHeaders } : {}),
+      content: stream
+        ? { [STREAM_MEDIA_TYPES[stream.format]]: { schema: { type: 'string' } } }
+        : successContent(config, successSchema),
+    },
+  };
+
+  if (config.schema) {
+    responses['400'] = { $ref: '#/components/responses/ValidationError' };
+  }
+  if (config.requireAuth) {
+    responses['401'] = { $ref: '#/components/responses/Unauthorized' };
+    responses['403'] = { $ref: '#/components/responses/Forbidden' };
+  }
+  if (sendsETag) {
+    responses['304'] = { $ref: '#/components/responses/NotModified' };
+  }
+  if (!stream && config.produces && config.produces.length > 0) {
+    responses['406'] = { $ref: '#/components/responses/NotAcceptable' };
+  }
+  if (checksPrecondition(route, config)) {
+    if (config.requireOwnership) {
+      responses['412'] = { $ref: '#/components/responses/PreconditionFailed' };
+    }
+    if (config.requirePrecondition) {
+      responses['428'] = { $ref: '#/components/responses/PreconditionRequired' };
+    }
+  }
+  if (config.rateLimit) {
+    responses['429'] = { $ref: '#/components/responses/RateLimitExceeded' };
+  }
+  responses['500'] = { $ref: '#/components/responses/InternalError' };
+  if (config.concurrency || config.priority === 'low') {
+    responses['503'] = { $ref: '#/components/responses/ServiceUnavailable' };
+  }
+
+  operation.responses = responses;
+
+  if (config.requireAuth) {
+    // Custom strategies have no standard scheme and are left undocumented
+    const strategies = config.authStrategies || ['jwt'];
+    const security = strategies
+      .filter(strategy => STRATEGY_SECURITY_SCHEMES[strategy])
+      .map(strategy => ({ [STRATEGY_SECURITY_SCHEMES[strategy] as string]: [] }));
+    if (security.length > 0) {
+      operation.security = security;
+    }
+  } else {
+    operation.security = [];
+  }
+
+  if (config.rateLimit) {
+    operation['x-rate-limit'] = {
+      maxRequests: config.rateLimit.maxRequests,
+      windowMs: config.rateLimit.windowMs,
+    };
+  }
+
+  if (config.apiVersion) {
+    operation['x-api-version'] = config.apiVersion;
+  }
+
+  return operation;
+}
+
+function buildParameters(route: RegisteredRoute, config: HandlerConfig<any, any>): JsonSchema[] {
+  const parameters: JsonSchema[] = [];
+
+  const parts = config.schema ? schemasByPart(config.schema, route.method) : {};
+  const paramShape = parts.params ? getObjectShape(parts.params) : undefined;
+
+  for (const name of extractPathParams(route.path)) {
+    const paramSchema = paramShape?.[name] as z.ZodTypeAny | undefined;
+    parameters.push({ name, in: 'path', required: true, schema: paramSchema ? zodToJsonSchema(paramSchema) : { type: 'string' } });
+  }
+
+  for (const location of ['query', 'header'] as const) {
+    const partSchema = location === 'query' ? parts.query : parts.headers;
+    const shape = partSchema ? getObjectShape(partSchema) : undefined;
+    for (const [name, fieldSchema] of Object.entries(shape || {})) {
+      parameters.push({
+        name,
+        in: location,
+        required: !(fieldSchema as z.ZodTypeAny).isOptional(),
+        schema: zodToJsonSchema(fieldSchema as z.ZodTypeAny),
+      });
+    }
+  }
+
+  if (paginates(route, config)) {
+    const declared = new Set(parameters.map(parameter => parameter.name));
+    const pageParameter = config.paginate!.mode === 'offset' ? 'Page' : 'Cursor';
+    for (const name of [pageParameter, 'Limit']) {
+      if (!declared.has(name.toLowerCase())) {
+        parameters.push({ $ref: `#/components/parameters/${name}` });
+      }
+    }
+  }
+
+  if (config.selection?.fields?.length) {
+    parameters.push(selectionParameter('fields', 'Comma-separated fields to return', config.selection.fields));
+  }
+  if (config.selection?.expand?.length) {
+    parameters.push(selectionParameter('expand', 'Comma-separated relations to include', config.selection.expand));
+  }
+
+  if (!route.metadata.stream && config.produces && config.produces.length > 1) {
+    parameters.push({
+      name: 'format',
+      in: 'query',
+      required: false,
+      description: 'Response format; overrides the Accept header',
+      schema: { type: 'string', enum: config.produces },
+    });
+  }
+
+  if (STATE_CHANGING_METHODS.has(route.method)) {
+    if (config.requireAuth && config.csrfProtection !== false) {
+      parameters.push({ $ref: '#/components/parameters/CsrfToken' });
+    }
+    if (!route.metadata.stream && config.idempotency !== false) {
+      parameters.push({ $ref: '#/components/parameters/IdempotencyKey' });
+    }
+  }
+
+  if (checksPrecondition(route, config)) {
+    parameters.push(config.requirePrecondition
+      ? { $ref: '#/components/parameters/IfMatchRequired' }
+      : { $ref: '#/components/parameters/IfMatch' });
+  }
+
+  return parameters;
+}
+
+/**
+ * Success body per media type in `produces`; only JSON has the envelope
+ */
+function successContent(config: HandlerConfig<any, any>, successSchema: JsonSchema): Record<string, any> {
+  const content: Record<string, any> = {};
+  for (const format of config.produces || ['json']) {
+    content[FORMAT_MEDIA_TYPES[format]] = format === 'json'
+      ? { schema: successSchema }
+      : { schema: format === 'msgpack' ? { type: 'string', format: 'binary' } : { type: 'string' } };
+  }
+  return content;
+}
+
+function selectionParameter(name: string, description: string, allowed: string[]): JsonSchema {
+  return {
+    name,
+    in: 'query',
+    required: false,
+    description: `${description}: ${allowed.join(', ')}`,
+    schema: { type: 'string' },
+  };
+}
+
+function paginates(route: RegisteredRoute, config: HandlerConfig<any, any>): boolean {
+  return !route.metadata.stream && route.method === 'GET' && !!config.paginate;
+}
+
+/**
+ * `If-Match` is checked on writes that load their resource through
+ * `requireOwnership`, and required with `requirePrecondition`
+ */
+function checksPrecondition(route: RegisteredRoute, config: HandlerConfig<any, any>): boolean {
+  return PRECONDITION_METHODS.has(route.method) && !!(config.requireOwnership || config.requirePrecondition);
+}
+
+/**
+ * Multipart body: text fields from `schema` plus one binary property per file field
+ */
+function buildUploadRequestBody(config: HandlerConfig<any, any>): Record<string, any> {
+  const bodySchema = config.schema ? schemasByPart(config.schema, 'POST').body : undefined;
+  const schema: JsonSchema = bodySchema
+    ? zodToJsonSchema(bodySchema)
+    : { type: 'object', properties: {} };
+  const required: string[] = [...(schema.required || [])];
+
+  schema.properties = { ...schema.properties };
+  for (const [field, fieldConfig] of Object.entries(config.upload!.fields)) {
+    const binary = { type: 'string', format: 'binary' };
+    schema.properties[field] = (fieldConfig.maxCount || 1) > 1
+      ? { type: 'array', items: binary, maxItems: fieldConfig.maxCount }
+      : binary;
+    if (fieldConfig.required) {
+      required.push(field);
+    }
+  }
+  if (required.length > 0) {
+    schema.required = required;
+  }
+
+  return {
+    required: true,
+    content: {
+      'multipart/form-data': { schema },
+    },
+  };
+}
+
+// ============================================
+// Shared Components
+// ============================================
+
+function buildComponents(options: OpenApiOptions): Record<string, any> {
+  const errorResponse = (description: string) => ({
+    description,
+    content: {
+      'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } },
+      'application/problem+json': { schema: { $ref: '#/components/schemas/ProblemDetails' } },
+    },
+  });
+
+  return {
+    schemas: {
+      ApiMeta: {
+        type: 'object',
+        properties: {
+          timestamp: { type: 'string', format: 'date-time' },
+          version: { type: 'string' },
+          requestId: { type: 'string' },
+          executionTime: { type: 'number' },
+          cached: { type: 'boolean' },
+          idempotent: { type: 'boolean' },
+          pagination: { $ref: '#/components/schemas/PaginationMeta' },
+        },
+        required: ['timestamp', 'version', 'requestId'],
+      },
+      PaginationMeta: {
+        type: 'object',
+        properties: {
+          mode: { type: 'string', enum: ['cursor', 'offset'] },
+          limit: { type: 'integer' },
+          hasMore: { type: 'boolean' },
+          nextCursor: { type: 'string' },
+          prevCursor: { type: 'string' },
+          page: { type: 'integer' },
+          total: { type: 'integer' },
+          totalPages: { type: 'integer' },
+        },
+        required: ['mode', 'limit', 'hasMore'],
+      },
+      ApiError: {
+        type: 'object',
+        properties: {
+          code: { type: 'string' },
+          message: { type: 'string' },
+          details: { type: 'object', additionalProperties: true },
+          traceId: { type: 'string' },
+        },
+        required: ['code', 'message'],
+      },
+      SuccessResponse: {
+        type: 'object',
+        properties: {
+          success: { const: true },
+          data: {},
+          meta: { $ref: '#/components/schemas/ApiMeta' },
+        },
+        required: ['success'],
+      },
+      ErrorResponse: {
+        type: 'object',
+        properties: {
+          success: { const: false },
+          error: { $ref: '#/components/schemas/ApiError' },
+          meta: { $ref: '#/components/schemas/ApiMeta' },
+        },
+        required: ['success', 'error'],
+      },
+      ProblemDetails: {
+        type: 'object',
+        description: 'RFC 9457 problem details; error `details` are sent as the `details` extension member',
+        properties: {
+          type: { type: 'string', format: 'uri-reference' },
+          title: { type: 'string' },
+          status: { type: 'integer' },
+          detail: { type: 'string' },
+          instance: { type: 'string' },
+          code: { type: 'string' },
+          traceId: { type: 'string' },
+          details: { type: 'object', additionalProperties: true },
+        },
+        required: ['type', 'title', 'status', 'code'],
+        additionalProperties: true,
+      },
+    },
+    responses: {
+      ValidationError: errorResponse('Invalid input data'),
+      Unauthorized: errorResponse('Authentication required'),
+      Forbidden: errorResponse('Insufficient permissions'),
+      RateLimitExceeded: {
+        ...errorResponse('Rate limit exceeded'),
+        headers: {
+          ...RATE_LIMIT_HEADERS,
+          'Retry-After': { $ref: '#/components/headers/Retry-After' },
+        },
+      },
+      NotModified: { description: 'The cached copy matching If-None-Match is current' },
+      NotAcceptable: errorResponse('None of the available response formats is acceptable'),
+      PreconditionFailed: errorResponse('If-Match does not match the current resource'),
+      PreconditionRequired: errorResponse('If-Match header required'),
+      InternalError: errorResponse('Unexpected server error'),
+      ServiceUnavailable: {
+        ...errorResponse('Too many concurrent requests, or the server is shedding load'),
+        headers: {
+          'Retry-After': { $ref: '#/components/headers/Retry-After' },
+        },
+      },
+    },
+    parameters: {
+      CsrfToken: {
+        name: 'X-CSRF-Token',
+        in: 'header',
+        required: true,
+        schema: { type: 'string' },
+      },
+      IdempotencyKey: {
+        name: 'Idempotency-Key',
+        in: 'header',
+        required: false,
+        schema: { type: 'string', pattern: '^[a-zA-Z0-9_-]{1,255}$' },
+      },
+      IfMatch: {
+        name: 'If-Match',
+        in: 'header',
+        required: false,
+        schema: { type: 'string' },
+      },
+      IfMatchRequired: {
+        name: 'If-Match',
+        in: 'header',
+        required: true,
+        schema: { type: 'string' },
+      },
+      Cursor: {
+        name: 'cursor',
+        in: 'query',
+        required: false,
+        description: 'Opaque cursor from `meta.pagination.nextCursor` or `prevCursor`',
+        schema: { type: 'string' },
+      },
+      Page: {
+        name: 'page',
+        in: 'query',
+        required: false,
+        schema: { type: 'integer', minimum: 1, default: 1 },
+      },
+      Limit: {
+        name: 'limit',
+        in: 'query',
+        required: false,
+        schema: { type: 'integer', minimum: 1 },
+      },
+    },
+    headers: {
+      'X-RateLimit-Limit': { description: 'Requests allowed in the window', schema: { type: 'integer' } },
+      'X-RateLimit-Remaining': { description: 'Requests left in the window', schema: { type: 'integer' } },
+      'X-RateLimit-Reset': { description: 'Window reset time (epoch ms)', schema: { type: 'integer' } },
+      'Retry-After': { description: 'Seconds until a retry is allowed', schema: { type: 'integer' } },
+      ETag: { description: 'Strong entity tag of the result', schema: { type: 'string' } },
+      Link: { description: 'RFC 8288 links to the neighbouring pages', schema: { type: 'string' } },
+    },
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      apiKeyAuth: { type: 'apiKey', in: 'header', name: options.apiKeyHeader || 'X-API-Key' },
+    },
+  };
+}
+
+// ============================================
+// Path Helpers
+// ============================================
+
+function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, '{$1}');
+}
+
+function extractPathParams(path: string): string[] {
+  return Array.from(path.matchAll(/:([A-Za-z0-9_]+)/g), match => match[1] as string);
+}
+
+function toOperationId(method: string, path: string): string {
+  const segments = path
+    .split('/')
+    .filter(Boolean)
+    .map(segment => segment.startsWith(':') ? `by_${segment.slice(1)}` : segment)
+    .join('_')
+    .replace(/[^A-Za-z0-9_]/g, '_');
+
+  return `${method.toLowerCase()}_${segments || 'root'}`;
+}
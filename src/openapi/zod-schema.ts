@@ -0,0 +1,228 @@
+/**
+ * Zod to JSON Schema Conversion
+ *
+ * Converts Zod schemas into JSON Schema (draft 2020-12), the dialect used by
+ * OpenAPI 3.1. Only the structural subset that can be described statically is
+ * converted; refinements and transforms document their input shape.
+ */
+
+import { z } from 'zod';
+
+export type JsonSchema = Record<string, any>;
+
+/**
+ * Convert a Zod schema to a JSON Schema object
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const result = convert(schema);
+
+  if (schema.description && !result.description) {
+    result.description = schema.description;
+  }
+
+  return result;
+}
+
+/**
+ * Get the top-level object shape of a schema, unwrapping effects and
+ * optional wrappers. Returns null for non-object schemas.
+ */
+export function getObjectShape(schema: z.ZodTypeAny): Record<string, z.ZodTypeAny> | null {
+  const inner = unwrap(schema);
+  return inner instanceof z.ZodObject ? inner.shape : null;
+}
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodEffects) return unwrap(schema.innerType());
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrap(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return unwrap(schema._def.innerType);
+  if (schema instanceof z.ZodBranded) return unwrap(schema.unwrap());
+  return schema;
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodString) return convertString(schema);
+  if (schema instanceof z.ZodNumber) return convertNumber(schema);
+  if (schema instanceof z.ZodBigInt) return { type: 'integer', format: 'int64' };
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (schema instanceof z.ZodDate) return { type: 'string', format: 'date-time' };
+  if (schema instanceof z.ZodNull) return { type: 'null' };
+  if (schema instanceof z.ZodLiteral) return { const: schema.value };
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: [...schema.options] };
+
+  if (schema instanceof z.ZodNativeEnum) {
+    // Numeric TS enums carry reverse mappings; keep only the real values
+    const values = Object.values(schema.enum as Record<string, string | number>)
+      .filter(value => typeof value === 'number' || typeof (schema.enum as any)[value] !== 'number');
+    return { enum: values };
+  }
+
+  if (schema instanceof z.ZodObject) return convertObject(schema);
+
+  if (schema instanceof z.ZodArray) {
+    const result: JsonSchema = { type: 'array', items: zodToJsonSchema(schema.element) };
+    if (schema._def.minLength) result.minItems = schema._def.minLength.value;
+    if (schema._def.maxLength) result.maxItems = schema._def.maxLength.value;
+    if (schema._def.exactLength) {
+      result.minItems = schema._def.exactLength.value;
+      result.maxItems = schema._def.exactLength.value;
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodSet) {
+    return { type: 'array', uniqueItems: true, items: zodToJsonSchema(schema._def.valueType) };
+  }
+
+  if (schema instanceof z.ZodTuple) {
+    const result: JsonSchema = {
+      type: 'array',
+      prefixItems: schema.items.map((item: z.ZodTypeAny) => zodToJsonSchema(item)),
+    };
+    if (schema._def.rest) {
+      result.items = zodToJsonSchema(schema._def.rest);
+    } else {
+      result.items = false;
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodRecord || schema instanceof z.ZodMap) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(schema._def.valueType) };
+  }
+
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    const options = Array.from(schema.options as Iterable<z.ZodTypeAny>);
+    return { anyOf: options.map(option => zodToJsonSchema(option)) };
+  }
+
+  if (schema instanceof z.ZodIntersection) {
+    return { allOf: [zodToJsonSchema(schema._def.left), zodToJsonSchema(schema._def.right)] };
+  }
+
+  if (schema instanceof z.ZodOptional) return zodToJsonSchema(schema.unwrap());
+
+  if (schema instanceof z.ZodNullable) {
+    const inner = zodToJsonSchema(schema.unwrap());
+    if (typeof inner.type === 'string') {
+      return { ...inner, type: [inner.type, 'null'] };
+    }
+    return { anyOf: [inner, { type: 'null' }] };
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema._def.innerType), default: schema._def.defaultValue() };
+  }
+
+  if (schema instanceof z.ZodEffects) return zodToJsonSchema(schema.innerType());
+  if (schema instanceof z.ZodBranded) return zodToJsonSchema(schema.unwrap());
+  if (schema instanceof z.ZodCatch) return zodToJsonSchema(schema._def.innerType);
+  if (schema instanceof z.ZodReadonly) return { ...zodToJsonSchema(schema._def.innerType), readOnly: true };
+  if (schema instanceof z.ZodPipeline) return zodToJsonSchema(schema._def.in);
+
+  // ZodAny, ZodUnknown, ZodLazy and anything not statically describable
+  return {};
+}
+
+function convertString(schema: z.ZodString): JsonSchema {
+  const result: JsonSchema = { type: 'string' };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        result.minLength = check.value;
+        break;
+      case 'max':
+        result.maxLength = check.value;
+        break;
+      case 'length':
+        result.minLength = check.value;
+        result.maxLength = check.value;
+        break;
+      case 'email':
+        result.format = 'email';
+        break;
+      case 'url':
+        result.format = 'uri';
+        break;
+      case 'uuid':
+        result.format = 'uuid';
+        break;
+      case 'datetime':
+        result.format = 'date-time';
+        break;
+      case 'date':
+        result.format = 'date';
+        break;
+      case 'ip':
+        result.format = check.version === 'v6' ? 'ipv6' : 'ipv4';
+        break;
+      case 'regex':
+        result.pattern = check.regex.source;
+        break;
+      default:
+        break;
+    }
+  }
+
+  return result;
+}
+
+function convertNumber(schema: z.ZodNumber): JsonSchema {
+  const result: JsonSchema = { type: 'number' };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'int':
+        result.type = 'integer';
+        break;
+      case 'min':
+        if (check.inclusive) {
+          result.minimum = check.value;
+        } else {
+          result.exclusiveMinimum = check.value;
+        }
+        break;
+      case 'max':
+        if (check.inclusive) {
+          result.maximum = check.value;
+        } else {
+          result.exclusiveMaximum = check.value;
+        }
+        break;
+      case 'multipleOf':
+        result.multipleOf = check.value;
+        break;
+      default:
+        break;
+    }
+  }
+
+  return result;
+}
+
+function convertObject(schema: z.ZodObject<any>): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(schema.shape as Record<string, z.ZodTypeAny>)) {
+    properties[key] = zodToJsonSchema(value);
+    if (!value.isOptional()) {
+      required.push(key);
+    }
+  }
+
+  const result: JsonSchema = { type: 'object', properties };
+  if (required.length > 0) {
+    result.required = required;
+  }
+
+  const catchall = schema._def.catchall as z.ZodTypeAny;
+  if (!(catchall instanceof z.ZodNever)) {
+    result.additionalProperties = zodToJsonSchema(catchall);
+  } else if (schema._def.unknownKeys === 'strict') {
+    result.additionalProperties = false;
+  }
+
+  return result;
+}
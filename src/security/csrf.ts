@@ -19,8 +19,8 @@ export class CSRFProtection {
     private cacheManager: CacheManager;
     private config: Required<CSRFConfig>;
 
-    private constructor(config?: CSRFConfig) {
-        this.cacheManager = CacheManager.getInstance();
+    private constructor(config?: CSRFConfig, cacheManager: CacheManager = CacheManager.getInstance()) {
+        this.cacheManager = cacheManager;
         this.config = {
             tokenLength: config?.tokenLength || 32,
             tokenTTL: config?.tokenTTL || 3600, // 1 hour
@@ -36,6 +36,13 @@ export class CSRFProtection {
         return CSRFProtection.instance;
     }
 
+    /**
+     * New instance storing its tokens in `cacheManager` (used by `createApp`)
+     */
+    public static create(config?: CSRFConfig, cacheManager?: CacheManager): CSRFProtection {
+        return new CSRFProtection(config, cacheManager);
+    }
+
     /**
      * Generate a new CSRF token for a user
      */
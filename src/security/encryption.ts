@@ -61,6 +61,14 @@ export class EncryptionService {
     return EncryptionService.instance;
   }
 
+  /**
+   * New instance with its own key, separate from the shared one (used by
+   * `createApp`)
+   */
+  public static create(options?: EncryptionOptions): EncryptionService {
+    return new EncryptionService(options);
+  }
+
   /**
    * Encrypt data using AES-256-GCM
    */
@@ -212,6 +220,11 @@ export class EncryptionService {
     // For now, we'll encrypt fields that contain sensitive keywords
     const sensitiveFields = ['password', 'token', 'secret', 'key', 'ssn', 'credit_card'];
 
+    // Lists are processed item by item, so they stay lists
+    if (Array.isArray(data)) {
+      return Promise.all(data.map(item => this.processResponse(item)));
+    }
+
     if (typeof data === 'object' && data !== null) {
       return this.encryptFields(data, sensitiveFields);
     }
@@ -16,8 +16,8 @@ export class IdempotencyService {
     private static instance: IdempotencyService;
     private cacheManager: CacheManager;
 
-    private constructor() {
-        this.cacheManager = CacheManager.getInstance();
+    private constructor(cacheManager: CacheManager = CacheManager.getInstance()) {
+        this.cacheManager = cacheManager;
     }
 
     public static getInstance(): IdempotencyService {
@@ -27,6 +27,13 @@ export class IdempotencyService {
         return IdempotencyService.instance;
     }
 
+    /**
+     * New instance keeping its responses in `cacheManager` (used by `createApp`)
+     */
+    public static create(cacheManager?: CacheManager): IdempotencyService {
+        return new IdempotencyService(cacheManager);
+    }
+
     /**
      * Get cached response for an idempotency key
      */
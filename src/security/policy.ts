@@ -0,0 +1,209 @@
+/**
+ * Security Policies
+ *
+ * Organisation rules checked at startup against the effective config of
+ * every registered handler (presets merged, as `mergePresetConfig` produced
+ * it). Violations fail startup, or are logged as warnings in development,
+ * so an endpoint that breaks a rule cannot ship unnoticed.
+ */
+
+import type { AppScope } from '../core/app';
+import { STATE_CHANGING_METHODS } from '../core/pipeline';
+import { RegisteredRoute, RouteRegistry } from '../core/route-registry';
+import { HandlerConfig } from '../core/types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface PolicyRoute {
+    /** Upper-case HTTP method */
+    method: string;
+    path: string;
+
+    /** Preset the handler was created from, or null */
+    preset: string | null;
+    stream: boolean;
+
+    /** Effective configuration, after preset merging */
+    config: HandlerConfig<any, any>;
+}
+
+export interface SecurityPolicy {
+    /** Identifier shown with each violation */
+    name: string;
+
+    /** The rule, as reported for offending routes */
+    description: string;
+
+    /** Routes the rule covers; every route when omitted */
+    appliesTo?: (route: PolicyRoute) => boolean;
+
+    /** Whether a covered route complies */
+    satisfiedBy: (route: PolicyRoute) => boolean;
+
+    /** Environments (`NODE_ENV`) the rule is checked in; all when omitted */
+    environments?: string[];
+}
+
+export interface PolicyViolation {
+    policy: string;
+    method: string;
+    path: string;
+    message: string;
+}
+
+export interface PolicyCheckOptions {
+    /** Defaults to `NODE_ENV`, or 'development' */
+    environment?: string;
+
+    /** Defaults to every route in the app's `RouteRegistry`, or the shared one */
+    routes?: RegisteredRoute[];
+
+    /** App whose routes are checked, for apps from `createApp()` */
+    app?: AppScope;
+
+    /**
+     * What to do with violations: throw a `SecurityPolicyError`, or log a
+     * warning. Defaults to 'warn' in development and 'error' elsewhere.
+     */
+    onViolation?: 'error' | 'warn';
+}
+
+export class SecurityPolicyError extends Error {
+    constructor(public readonly violations: PolicyViolation[]) {
+        super(`Security policy check failed for ${violations.length} route(s):\n${formatViolations(violations)}`);
+        this.name = 'SecurityPolicyError';
+    }
+}
+
+// ============================================
+// Built-in Policies
+// ============================================
+
+export const securityPolicies = {
+    publicWritesRateLimited: {
+        name: 'public-writes-rate-limited',
+        description: 'State-changing public endpoints must have a rateLimit',
+        appliesTo: route => isStateChanging(route) && route.config.requireAuth !== true,
+        satisfiedBy: route => route.config.rateLimit !== undefined,
+    },
+
+    csrfOptOutJustified: {
+        name: 'csrf-opt-out-justified',
+        description: 'csrfProtection: false on an authenticated state-changing endpoint requires justifications.csrfProtection',
+        appliesTo: route => isStateChanging(route) && route.config.requireAuth === true && route.config.csrfProtection === false,
+        satisfiedBy: route => isJustified(route, 'csrfProtection'),
+    },
+
+    highSecurityIdempotent: {
+        name: 'high-security-idempotent',
+        description: 'State-changing highSecurity endpoints must set idempotency',
+        appliesTo: route => isStateChanging(route) && route.preset === 'highSecurity' && !route.stream,
+        satisfiedBy: route => route.config.idempotency === true,
+    },
+
+    responsesSanitized: {
+        name: 'responses-sanitized',
+        description: 'No handler may set sanitizeResponse: false in production',
+        environments: ['production'],
+        satisfiedBy: route => route.config.sanitizeResponse !== false,
+    },
+} satisfies Record<string, SecurityPolicy>;
+
+export const defaultSecurityPolicies: SecurityPolicy[] = Object.values(securityPolicies);
+
+// ============================================
+// Checking
+// ============================================
+
+/**
+ * Check routes against policies and return the violations, without acting
+ * on them
+ */
+export function checkSecurityPolicies(
+    policies: SecurityPolicy[] = defaultSecurityPolicies,
+    options: Omit<PolicyCheckOptions, 'onViolation'> = {}
+): PolicyViolation[] {
+    const environment = options.environment || currentEnvironment();
+    const routes = (options.routes || (options.app?.routes || RouteRegistry.getInstance()).getRoutes()).map(toPolicyRoute);
+    const violations: PolicyViolation[] = [];
+
+    for (const policy of policies) {
+        if (policy.environments && !policy.environments.includes(environment)) {
+            continue;
+        }
+
+        for (const route of routes) {
+            if ((policy.appliesTo && !policy.appliesTo(route)) || policy.satisfiedBy(route)) {
+                continue;
+            }
+            violations.push({ policy: policy.name, method: route.method, path: route.path, message: policy.description });
+        }
+    }
+
+    return violations;
+}
+
+/**
+ * Check routes against policies at startup: throws a `SecurityPolicyError`
+ * listing the offending routes, or warns in development. Call it once every
+ * router is mounted, before the server starts listening.
+ *
+ * @example
+ * mountRouter(app, '/api', apiRoutes);
+ * partnerApi.mountRouter(app, '/partner', partnerRoutes);
+ * enforceSecurityPolicies([...defaultSecurityPolicies, requireTenantScope]);
+ * enforceSecurityPolicies(defaultSecurityPolicies, { app: partnerApi });
+ * app.listen(port);
+ */
+export function enforceSecurityPolicies(
+    policies: SecurityPolicy[] = defaultSecurityPolicies,
+    options: PolicyCheckOptions = {}
+): PolicyViolation[] {
+    const environment = options.environment || currentEnvironment();
+    const violations = checkSecurityPolicies(policies, { ...options, environment });
+    if (violations.length === 0) {
+        return violations;
+    }
+
+    const onViolation = options.onViolation || (environment === 'development' ? 'warn' : 'error');
+    if (onViolation === 'error') {
+        throw new SecurityPolicyError(violations);
+    }
+
+    console.warn(`[SecurityPolicy] ${violations.length} route(s) violate security policies:\n${formatViolations(violations)}`);
+    return violations;
+}
+
+/**
+ * Whether the handler gives a non-empty justification for `setting`
+ */
+export function isJustified(route: PolicyRoute, setting: keyof HandlerConfig): boolean {
+    const justification = route.config.justifications?.[setting];
+    return typeof justification === 'string' && justification.trim() !== '';
+}
+
+function isStateChanging(route: PolicyRoute): boolean {
+    return STATE_CHANGING_METHODS.has(route.method);
+}
+
+function toPolicyRoute(route: RegisteredRoute): PolicyRoute {
+    return {
+        method: route.method,
+        path: route.path,
+        preset: route.metadata.preset ?? null,
+        stream: route.metadata.stream !== undefined,
+        config: route.metadata.config,
+    };
+}
+
+function currentEnvironment(): string {
+    return process.env.NODE_ENV || 'development';
+}
+
+function formatViolations(violations: PolicyViolation[]): string {
+    return violations.map(violation =>
+        `  - ${violation.method} ${violation.path}: ${violation.message} [${violation.policy}]`
+    ).join('\n');
+}
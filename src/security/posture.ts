@@ -0,0 +1,196 @@
+/**
+ * Security Posture
+ *
+ * Describes the effective security settings of every handler in the route
+ * registry (presets merged, pipeline defaults applied) as JSON and as a
+ * line-per-route text report that can be committed and diffed, so reviewers
+ * can answer "which POST endpoints have CSRF disabled?" without reading the
+ * route files.
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+import type { AppScope } from '../core/app';
+import { createSuperAdminHandler } from '../core/handler';
+import { DEFAULT_AUTH_STRATEGIES, DEFAULT_REQUEST_TIMEOUT, STATE_CHANGING_METHODS } from '../core/pipeline';
+import { compareRoutes, RegisteredRoute, RouteRegistry } from '../core/route-registry';
+import { HandlerConfig } from '../core/types';
+
+export interface HandlerSecurityPosture {
+    /** Upper-case HTTP method */
+    method: string;
+    path: string;
+
+    /** Preset the handler was created from, or null */
+    preset: string | null;
+
+    /** Set for SSE / NDJSON streaming handlers */
+    stream: boolean;
+
+    auth: {
+        required: boolean;
+
+        /** Strategies tried in order; empty when auth is not required */
+        strategies: string[];
+    };
+    roles: string[];
+    permissions: string[];
+
+    /** Whether the CSRF token is checked; null for methods it does not apply to */
+    csrf: boolean | null;
+
+    rateLimit: {
+        maxRequests: number;
+        windowMs: number;
+
+        /** A `keyGenerator` is set; otherwise requests are counted per user, or IP */
+        customKey: boolean;
+    } | null;
+
+    /** Null unless responses are cached (GET only) */
+    cache: {
+        ttl: number;
+
+        /** A `keyGenerator` is set; otherwise the key includes the user and tenant */
+        customKey: boolean;
+    } | null;
+
+    /** Whether `Idempotency-Key` replays are honoured; null for methods it does not apply to */
+    idempotency: boolean | null;
+
+    audit: {
+        enabled: boolean;
+        trackDataChanges: boolean;
+        captureRequestBody: boolean;
+        captureResponseBody: boolean;
+    };
+
+    /** Request timeout in milliseconds; null for streaming handlers */
+    timeout: number | null;
+}
+
+export interface SecurityPostureHandlerOptions {
+    /** Prisma client for the handler, as for any handler factory */
+    prisma?: PrismaClient;
+
+    /** App whose routes are described and whose services the handler uses */
+    app?: AppScope;
+}
+
+/**
+ * Describe the security posture of each route, sorted by path then method.
+ * Reads the shared `RouteRegistry` unless given routes or a registry, such
+ * as `app.routes` for an app from `createApp()`.
+ */
+export function describeSecurityPosture(
+    routes: RegisteredRoute[] | RouteRegistry = RouteRegistry.getInstance()
+): HandlerSecurityPosture[] {
+    const list = routes instanceof RouteRegistry ? routes.getRoutes() : routes;
+    return [...list].sort(compareRoutes).map(describeRoute);
+}
+
+/**
+ * Render postures as text, one line per route with settings in a fixed
+ * order, so changes show up as line diffs
+ *
+ * @example
+ * POST /api/projects preset=authenticated auth=jwt roles=- permissions=- csrf=on rate-limit=200/60000ms cache=- idempotency=on audit=on,changes timeout=30000ms
+ */
+export function formatSecurityPostureReport(postures: HandlerSecurityPosture[]): string {
+    return postures.map(posture => [
+        posture.method,
+        posture.path,
+        `preset=${posture.preset || '-'}`,
+        ...(posture.stream ? ['stream'] : []),
+        `auth=${posture.auth.required ? posture.auth.strategies.join(',') : 'none'}`,
+        `roles=${list(posture.roles)}`,
+        `permissions=${list(posture.permissions)}`,
+        `csrf=${toggle(posture.csrf)}`,
+        `rate-limit=${posture.rateLimit
+            ? `${posture.rateLimit.maxRequests}/${posture.rateLimit.windowMs}ms${posture.rateLimit.customKey ? ',custom-key' : ''}`
+            : 'none'}`,
+        `cache=${posture.cache ? `${posture.cache.ttl}s${posture.cache.customKey ? ',custom-key' : ''}` : '-'}`,
+        `idempotency=${toggle(posture.idempotency)}`,
+        `audit=${describeAudit(posture.audit)}`,
+        `timeout=${posture.timeout === null ? '-' : `${posture.timeout}ms`}`,
+    ].join(' ')).join('\n') + (postures.length > 0 ? '\n' : '');
+}
+
+/**
+ * Create a superadmin-only handler answering with the posture of every
+ * registered route: `{ routes, report }`, the report being the text form
+ *
+ * @example
+ * router.get('/admin/security-posture', createSecurityPostureHandler());
+ * partnerRouter.get('/admin/security-posture', createSecurityPostureHandler({ app: partnerApi }));
+ */
+export function createSecurityPostureHandler(options: SecurityPostureHandlerOptions = {}) {
+    const { app } = options;
+
+    return createSuperAdminHandler({
+        auditConfig: { action: 'security.posture.read' },
+        // Generated per request so routes mounted after startup are included
+        handler: async () => {
+            const routes = describeSecurityPosture(app?.routes || RouteRegistry.getInstance());
+            return { routes, report: formatSecurityPostureReport(routes) };
+        },
+    }, options.prisma, app);
+}
+
+function describeRoute(route: RegisteredRoute): HandlerSecurityPosture {
+    const config: HandlerConfig<any, any> = route.metadata.config;
+    const requireAuth = config.requireAuth === true;
+    const stateChanging = STATE_CHANGING_METHODS.has(route.method);
+    const stream = route.metadata.stream !== undefined;
+
+    return {
+        method: route.method,
+        path: route.path,
+        preset: route.metadata.preset ?? null,
+        stream,
+        auth: {
+            required: requireAuth,
+            strategies: requireAuth ? config.authStrategies || DEFAULT_AUTH_STRATEGIES : [],
+        },
+        roles: config.allowedRoles || [],
+        permissions: config.requiredPermissions || [],
+        csrf: stateChanging ? requireAuth && config.csrfProtection !== false : null,
+        rateLimit: config.rateLimit
+            ? {
+                maxRequests: config.rateLimit.maxRequests,
+                windowMs: config.rateLimit.windowMs,
+                customKey: config.rateLimit.keyGenerator !== undefined,
+            }
+            : null,
+        cache: config.cache && route.method === 'GET' && !stream
+            ? { ttl: config.cache.ttl, customKey: config.cache.keyGenerator !== undefined }
+            : null,
+        idempotency: stateChanging && !stream ? config.idempotency !== false : null,
+        audit: {
+            enabled: config.auditConfig?.enabled !== false,
+            trackDataChanges: config.auditConfig?.trackDataChanges === true,
+            captureRequestBody: config.auditConfig?.captureRequestBody === true,
+            captureResponseBody: config.auditConfig?.captureResponseBody === true,
+        },
+        timeout: stream ? null : config.timeout || DEFAULT_REQUEST_TIMEOUT,
+    };
+}
+
+function list(values: string[]): string {
+    return values.length > 0 ? values.join(',') : '-';
+}
+
+function toggle(value: boolean | null): string {
+    return value === null ? '-' : value ? 'on' : 'off';
+}
+
+function describeAudit(audit: HandlerSecurityPosture['audit']): string {
+    if (!audit.enabled) {
+        return 'off';
+    }
+    return ['on',
+        ...(audit.trackDataChanges ? ['changes'] : []),
+        ...(audit.captureRequestBody ? ['request-body'] : []),
+        ...(audit.captureResponseBody ? ['response-body'] : []),
+    ].join(',');
+}
@@ -6,6 +6,7 @@
 
 import { createClient, RedisClientType } from 'redis';
 import { RateLimitConfig } from '../core/types';
+import { emitFrameworkEvent } from '../core/events';
 
 export interface RateLimitResult {
   allowed: boolean;
@@ -52,6 +53,22 @@ export class RedisRateLimiter {
    * Check if request is within rate limit
    */
   public async checkLimit(key: string, config: RateLimitConfig): Promise<boolean> {
+    const allowed = await this.countRequest(key, config);
+    if (!allowed) {
+      this.emitExceeded(key, config);
+    }
+    return allowed;
+  }
+
+  private emitExceeded(key: string, config: RateLimitConfig): void {
+    emitFrameworkEvent('rate_limit:exceeded', {
+      key,
+      limit: config.maxRequests,
+      windowMs: config.windowMs,
+    });
+  }
+
+  private async countRequest(key: string, config: RateLimitConfig): Promise<boolean> {
     if (!this.isConnected) {
       // Fallback to in-memory limiting if Redis is unavailable
       return this.checkMemoryLimit(key, config);
@@ -88,7 +105,7 @@ export class RedisRateLimiter {
   }
 
   /**
-   * Get detailed rate limit information
+   * Get detailed rate limit information, without counting a request
    */
   public async getLimitInfo(key: string, config: RateLimitConfig): Promise<RateLimitResult> {
     if (!this.isConnected) {
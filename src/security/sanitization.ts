@@ -99,6 +99,14 @@ export class SanitizationService {
     return SanitizationService.instance;
   }
 
+  /**
+   * New instance with its own config, separate from the shared one
+   * (used by `createApp`)
+   */
+  public static create(config?: SanitizationConfig): SanitizationService {
+    return new SanitizationService(config);
+  }
+
   /**
    * Sanitize input data comprehensively
    */
@@ -18,6 +18,9 @@ import { HealthChecker } from './monitoring/health';
 import { healthCheckResponse } from './core/response';
 import { TenantManager } from './multitenancy/manager';
 import { SharedSchemaStrategy } from './multitenancy/strategies/shared-schema';
+import { mountRouter } from './core/route-registry';
+import { createOpenApiRouter } from './openapi/generator';
+import { enforceSecurityPolicies } from './security/policy';
 import testRoutes from './test-routes';
 
 const app: Express = express();
@@ -70,8 +73,7 @@ app.use(cors({
 }));
 
 app.use(compression());
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true }));
+// No global body parsers: handlers read bodies themselves, within their `limits`
 
 // Request logging middleware
 app.use((req, res, next) => {
@@ -116,10 +118,17 @@ app.get('/health', async (_req: Request, res: Response) => {
 // Import and use your route handlers here
 // Example:
 // import userRoutes from './routes/users';
-// app.use('/api/users', userRoutes);
+// mountRouter(app, '/api/users', userRoutes);
 
 // Test routes
-app.use(testRoutes);
+mountRouter(app, '/', testRoutes);
+
+// OpenAPI document for every handler mounted through mountRouter()
+app.use(createOpenApiRouter({
+  title: 'Tenet API',
+  version: process.env.npm_package_version || '1.0.0',
+  path: process.env.OPENAPI_PATH || '/openapi.json',
+}));
 
 // Example route
 app.get('/api/test', (_req: Request, res: Response) => {
@@ -177,6 +186,9 @@ process.on('SIGINT', async () => {
   process.exit(0);
 });
 
+// Refuse to start with handlers that break the security policies (warns in development)
+enforceSecurityPolicies();
+
 // Start server
 const port = configManager.getConfig().port;
 const host = configManager.getConfig().host;
@@ -0,0 +1,391 @@
+/**
+ * Fake Prisma
+ *
+ * An in-memory stand-in for `PrismaClient`. Every model is a list of rows,
+ * queried with the common `where` filters, `orderBy`, `skip`, `take` and
+ * `select`. Query extensions (`$extends({ query })`), such as tenant scoping,
+ * run as they do on the real client.
+ */
+
+import crypto from 'crypto';
+
+type Row = Record<string, any>;
+
+export type FakePrismaData = Record<string, Row[]>;
+
+export interface FakePrisma {
+  /** Rows per model, e.g. `prisma.$data.project` */
+  readonly $data: FakePrismaData;
+  $extends(extension: unknown): FakePrisma;
+  $transaction(arg: ((tx: FakePrisma) => Promise<unknown>) | Promise<unknown>[]): Promise<any>;
+  $connect(): Promise<void>;
+  $disconnect(): Promise<void>;
+
+  /** Model delegates: `findMany`, `findFirst`, `create`, `update`, ... */
+  [model: string]: any;
+}
+
+interface QueryParams {
+  model: string;
+  operation: string;
+  args: any;
+  query: (args: any) => Promise<any>;
+}
+
+type QueryHook = (params: QueryParams) => Promise<any>;
+
+const OPERATIONS = [
+  'findMany',
+  'findFirst',
+  'findFirstOrThrow',
+  'findUnique',
+  'findUniqueOrThrow',
+  'count',
+  'create',
+  'createMany',
+  'update',
+  'updateMany',
+  'upsert',
+  'delete',
+  'deleteMany',
+];
+
+/**
+ * Create a fake client holding copies of the seed rows
+ */
+export function createFakePrisma(data: FakePrismaData = {}): FakePrisma {
+  const tables: FakePrismaData = {};
+  for (const [model, rows] of Object.entries(data)) {
+    tables[model] = rows.map(row => structuredClone(row));
+  }
+  return createClient(tables, []);
+}
+
+function createClient(tables: FakePrismaData, hooks: QueryHook[]): FakePrisma {
+  const delegates = new Map<string, Record<string, (args?: any) => Promise<any>>>();
+
+  const client: FakePrisma = new Proxy({} as FakePrisma, {
+    get(_target, property) {
+      if (typeof property !== 'string') {
+        return undefined;
+      }
+
+      switch (property) {
+        case '$data':
+          return tables;
+        case '$extends':
+          return (extension: unknown) => extendClient(client, tables, hooks, extension);
+        case '$transaction':
+          return (arg: ((tx: FakePrisma) => Promise<unknown>) | Promise<unknown>[]) =>
+            typeof arg === 'function' ? arg(client) : Promise.all(arg);
+        case '$connect':
+        case '$disconnect':
+          return async () => undefined;
+      }
+
+      // Not a thenable, so `await`ing the client returns it
+      if (property.startsWith('$') || property === 'then') {
+        return undefined;
+      }
+
+      if (!delegates.has(property)) {
+        delegates.set(property, createDelegate(tables, hooks, property));
+      }
+      return delegates.get(property);
+    },
+  });
+
+  return client;
+}
+
+/**
+ * Apply a Prisma extension. `Prisma.defineExtension` results are functions
+ * of the client; of object extensions only `query` is supported.
+ */
+function extendClient(client: FakePrisma, tables: FakePrismaData, hooks: QueryHook[], extension: any): FakePrisma {
+  if (typeof extension === 'function') {
+    return extension(client);
+  }
+
+  const query = extension?.query;
+  if (!query) {
+    return client;
+  }
+
+  const hook: QueryHook = (params) => {
+    const handler = query[params.model]?.[params.operation] ?? query.$allModels?.[params.operation];
+    return handler ? handler(params) : params.query(params.args);
+  };
+
+  return createClient(tables, [...hooks, hook]);
+}
+
+function createDelegate(tables: FakePrismaData, hooks: QueryHook[], model: string) {
+  const delegate: Record<string, (args?: any) => Promise<any>> = {};
+
+  for (const operation of OPERATIONS) {
+    // The most recent extension runs first, as with the real client
+    const run = (index: number, args: any): Promise<any> => index < 0
+      ? Promise.resolve().then(() => execute(tables, model, operation, args))
+      : hooks[index]!({ model, operation, args, query: next => run(index - 1, next) });
+
+    delegate[operation] = (args: any = {}) => run(hooks.length - 1, args);
+  }
+
+  return delegate;
+}
+
+// ============================================
+// Operations
+// ============================================
+
+function execute(tables: FakePrismaData, model: string, operation: string, args: any): any {
+  const rows = tables[model] ??= [];
+
+  switch (operation) {
+    case 'findMany':
+      return query(rows, args).map(row => project(row, args.select));
+
+    case 'findFirst':
+    case 'findUnique': {
+      const row = query(rows, args)[0];
+      return row ? project(row, args.select) : null;
+    }
+
+    case 'findFirstOrThrow':
+    case 'findUniqueOrThrow': {
+      const row = query(rows, args)[0];
+      if (!row) {
+        throw notFound(model, operation);
+      }
+      return project(row, args.select);
+    }
+
+    case 'count':
+      return rows.filter(row => matches(row, args.where)).length;
+
+    case 'create':
+      return project(insert(rows, args.data), args.select);
+
+    case 'createMany': {
+      const data: Row[] = Array.isArray(args.data) ? args.data : [args.data];
+      data.forEach(item => insert(rows, item));
+      return { count: data.length };
+    }
+
+    case 'update': {
+      const row = rows.find(candidate => matches(candidate, args.where));
+      if (!row) {
+        throw notFound(model, operation);
+      }
+      return project(applyData(row, args.data), args.select);
+    }
+
+    case 'updateMany': {
+      const matched = rows.filter(row => matches(row, args.where));
+      matched.forEach(row => applyData(row, args.data));
+      return { count: matched.length };
+    }
+
+    case 'upsert': {
+      const row = rows.find(candidate => matches(candidate, args.where));
+      return project(row ? applyData(row, args.update) : insert(rows, args.create), args.select);
+    }
+
+    case 'delete': {
+      const index = rows.findIndex(row => matches(row, args.where));
+      if (index === -1) {
+        throw notFound(model, operation);
+      }
+      const [row] = rows.splice(index, 1);
+      return project(row!, args.select);
+    }
+
+    case 'deleteMany': {
+      const kept = rows.filter(row => !matches(row, args.where));
+      const count = rows.length - kept.length;
+      rows.splice(0, rows.length, ...kept);
+      return { count };
+    }
+  }
+
+  throw new Error(`Fake Prisma does not support ${operation}`);
+}
+
+function query(rows: Row[], args: any): Row[] {
+  const found = rows.filter(row => matches(row, args.where));
+
+  const order: Array<[string, 'asc' | 'desc']> = toArray(args.orderBy).flatMap(entry => Object.entries(entry));
+  if (order.length > 0) {
+    found.sort((a, b) => {
+      for (const [field, direction] of order) {
+        const result = compare(a[field], b[field]);
+        if (result !== 0) {
+          return direction === 'desc' ? -result : result;
+        }
+      }
+      return 0;
+    });
+  }
+
+  const skip = args.skip ?? 0;
+  return found.slice(skip, args.take === undefined ? undefined : skip + args.take);
+}
+
+function insert(rows: Row[], data: Row): Row {
+  const row = { id: crypto.randomUUID(), ...structuredClone(data) };
+  rows.push(row);
+  return row;
+}
+
+/**
+ * Apply update data, including `set`, `increment` and `decrement`
+ */
+function applyData(row: Row, data: Row = {}): Row {
+  for (const [field, value] of Object.entries(data)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (isFilter(value) && 'set' in value) {
+      row[field] = value.set;
+    } else if (isFilter(value) && 'increment' in value) {
+      row[field] = (row[field] ?? 0) + value.increment;
+    } else if (isFilter(value) && 'decrement' in value) {
+      row[field] = (row[field] ?? 0) - value.decrement;
+    } else {
+      row[field] = structuredClone(value);
+    }
+  }
+  return row;
+}
+
+/**
+ * Copy of the row, limited to `select`ed fields when given
+ */
+function project(row: Row, select?: Record<string, any>): Row {
+  if (!select) {
+    return structuredClone(row);
+  }
+
+  const projected: Row = {};
+  for (const [field, selected] of Object.entries(select)) {
+    const value = row[field];
+    if (!selected || value === undefined) {
+      continue;
+    }
+    if (isFilter(selected) && selected.select && value !== null) {
+      projected[field] = Array.isArray(value)
+        ? value.map(item => project(item, selected.select))
+        : project(value, selected.select);
+    } else {
+      projected[field] = structuredClone(value);
+    }
+  }
+  return projected;
+}
+
+function notFound(model: string, operation: string): Error {
+  // Same code as Prisma's "record not found" error
+  return Object.assign(new Error(`No ${model} record found for ${operation}`), { code: 'P2025' });
+}
+
+// ============================================
+// Filters
+// ============================================
+
+function matches(row: Row, where: Row = {}): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    if (condition === undefined) {
+      return true;
+    }
+
+    switch (field) {
+      case 'AND':
+        return toArray(condition).every(part => matches(row, part));
+      case 'OR':
+        return toArray(condition).some(part => matches(row, part));
+      case 'NOT':
+        return !toArray(condition).some(part => matches(row, part));
+      default:
+        return matchesField(row[field], condition);
+    }
+  });
+}
+
+function matchesField(value: unknown, condition: unknown): boolean {
+  if (!isFilter(condition)) {
+    return isEqual(value, condition);
+  }
+
+  const insensitive = condition.mode === 'insensitive';
+  const normalize = (input: unknown) => insensitive && typeof input === 'string' ? input.toLowerCase() : input;
+  const text = normalize(value);
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    if (operand === undefined) {
+      return true;
+    }
+
+    switch (operator) {
+      case 'mode':
+        return true;
+      case 'equals':
+        return isEqual(text, normalize(operand));
+      case 'not':
+        return !matchesField(value, operand);
+      case 'in':
+        return (operand as unknown[]).some(candidate => isEqual(text, normalize(candidate)));
+      case 'notIn':
+        return !(operand as unknown[]).some(candidate => isEqual(text, normalize(candidate)));
+      case 'lt':
+        return value != null && compare(value, operand) < 0;
+      case 'lte':
+        return value != null && compare(value, operand) <= 0;
+      case 'gt':
+        return value != null && compare(value, operand) > 0;
+      case 'gte':
+        return value != null && compare(value, operand) >= 0;
+      case 'contains':
+        return typeof text === 'string' && text.includes(normalize(operand) as string);
+      case 'startsWith':
+        return typeof text === 'string' && text.startsWith(normalize(operand) as string);
+      case 'endsWith':
+        return typeof text === 'string' && text.endsWith(normalize(operand) as string);
+    }
+
+    throw new Error(`Fake Prisma does not support the "${operator}" filter`);
+  });
+}
+
+/**
+ * Plain objects are filters (`{ in: [...] }`); anything else is a value
+ */
+function isFilter(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  return a === b;
+}
+
+/**
+ * Order two values; null and undefined sort first
+ */
+function compare(a: any, b: any): number {
+  if (a == null || b == null) {
+    return a == null ? (b == null ? 0 : -1) : 1;
+  }
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
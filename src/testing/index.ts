@@ -0,0 +1,23 @@
+/**
+ * Testing Utilities
+ *
+ * Published as `@tenet/api/testing`, separate from the main entry point so
+ * none of it ships in application code.
+ */
+
+export { invokeHandler } from './harness';
+export type { InvokeOptions, InvokeResult } from './harness';
+
+export {
+  createTestServices,
+  InMemoryAuditService,
+  InMemoryCache,
+  InMemoryCsrfProtection,
+  InMemoryIdempotencyStore,
+  InMemoryMonitoring,
+  InMemoryRateLimiter,
+} from './services';
+export type { CapturedMetric, CapturedSpan, TestServices, TestServicesOptions } from './services';
+
+export { createFakePrisma } from './fake-prisma';
+export type { FakePrisma, FakePrismaData } from './fake-prisma';
@@ -0,0 +1,343 @@
+/**
+ * In-Memory Services
+ *
+ * Stand-ins for the Redis, Postgres and monitoring backed services the
+ * handler pipeline uses. They keep what they are sent so tests can assert on
+ * it.
+ */
+
+import crypto from 'crypto';
+
+import { RateLimitConfig } from '../core/types';
+import { getRequestId } from '../core/request-context';
+import { emitFrameworkEvent } from '../core/events';
+import { RateLimitResult } from '../security/rate-limiting';
+import { IdempotencyResponse } from '../security/idempotency';
+import { VersionManager } from '../versioning/manager';
+import {
+  AuditCategory,
+  AuditContext,
+  AuditEventData,
+  AuditEventType,
+  AuditSeverity,
+  AuditStatus,
+} from '../audit/audit-types';
+import { createFakePrisma, FakePrisma, FakePrismaData } from './fake-prisma';
+
+// ============================================
+// Monitoring
+// ============================================
+
+export interface CapturedMetric {
+  name: string;
+  value: number;
+  labels: Record<string, string>;
+}
+
+export interface CapturedSpan {
+  id: string;
+  name: string;
+  attributes: Record<string, any>;
+  status?: 'ok' | 'error';
+}
+
+export class InMemoryMonitoring {
+  public readonly metrics: CapturedMetric[] = [];
+  public readonly spans: CapturedSpan[] = [];
+
+  public recordMetric(name: string, value: number, labels: Record<string, string> = {}): void {
+    this.metrics.push({ name, value, labels });
+  }
+
+  public startSpan(name: string, attributes: Record<string, any> = {}): string {
+    const id = `span_${this.spans.length + 1}`;
+    this.spans.push({ id, name, attributes });
+    return id;
+  }
+
+  public endSpan(id: string, status: 'ok' | 'error' = 'ok'): void {
+    const span = this.spans.find(candidate => candidate.id === id);
+    if (span) {
+      span.status = status;
+    }
+  }
+}
+
+// ============================================
+// Audit
+// ============================================
+
+/**
+ * Records events as `AuditService` would write them, minus masking and
+ * retention
+ */
+export class InMemoryAuditService {
+  public readonly events: AuditEventData[] = [];
+
+  public async logEvent(data: AuditEventData, context?: AuditContext): Promise<null> {
+    const event: AuditEventData = { ...data };
+
+    if (context?.user && !event.userId) {
+      event.userId = context.user.id;
+      event.userEmail = context.user.email;
+    }
+    if (context?.tenant && !event.tenantId) {
+      event.tenantId = context.tenant.id;
+      event.tenantName = context.tenant.name;
+    }
+    if (context?.request) {
+      event.method ??= context.request.method;
+      event.endpoint ??= context.request.path;
+      const ipAddress = event.ipAddress ?? context.request.ip;
+      const requestId = event.requestId ?? getRequestId() ?? context.traceId;
+      if (ipAddress) {
+        event.ipAddress = ipAddress;
+      }
+      if (requestId) {
+        event.requestId = requestId;
+      }
+    }
+    if (context?.metadata) {
+      event.metadata = { ...context.metadata, ...event.metadata };
+    }
+
+    this.events.push(event);
+    return null;
+  }
+
+  public async logDataChange(
+    eventType: AuditEventType.CREATE | AuditEventType.UPDATE | AuditEventType.DELETE,
+    resourceType: string,
+    resourceId: string,
+    oldData: any,
+    newData: any,
+    context?: AuditContext
+  ): Promise<null> {
+    return this.logEvent({
+      eventType,
+      category: AuditCategory.DATA,
+      action: `${resourceType.toLowerCase()}.${eventType.toLowerCase()}`,
+      resourceType,
+      resourceId,
+      oldData,
+      newData,
+      status: AuditStatus.SUCCESS,
+      severity: AuditSeverity.INFO,
+    }, context);
+  }
+
+  public async logAuthEvent(
+    action: 'login' | 'logout' | 'login_failed' | 'token_refresh' | 'password_reset',
+    userId?: string,
+    success: boolean = true,
+    errorMessage?: string,
+    context?: AuditContext
+  ): Promise<null> {
+    return this.logEvent({
+      eventType: AuditEventType.AUTH,
+      category: AuditCategory.AUTH,
+      action: `auth.${action}`,
+      ...(userId ? { userId } : {}),
+      status: success ? AuditStatus.SUCCESS : AuditStatus.FAILURE,
+      ...(errorMessage ? { errorMessage } : {}),
+      severity: success ? AuditSeverity.INFO : AuditSeverity.WARNING,
+    }, context);
+  }
+
+  public async logSecurityEvent(
+    action: string,
+    severity: AuditSeverity,
+    description: string,
+    metadata?: Record<string, any>,
+    context?: AuditContext
+  ): Promise<null> {
+    return this.logEvent({
+      eventType: AuditEventType.SECURITY,
+      category: AuditCategory.SECURITY,
+      action,
+      description,
+      severity,
+      ...(metadata ? { metadata } : {}),
+      status: AuditStatus.SUCCESS,
+    }, context);
+  }
+
+  public async flushPendingLogs(): Promise<void> {
+    // Events are recorded as they are logged
+  }
+}
+
+// ============================================
+// Cache, Rate Limiting, CSRF, Idempotency
+// ============================================
+
+export class InMemoryCache {
+  private readonly entries = new Map<string, { value: any; expiresAt: number }>();
+
+  public async get<T = any>(key: string): Promise<T | null> {
+    const value = this.read<T>(key);
+    emitFrameworkEvent(value !== null ? 'cache:hit' : 'cache:miss', { key });
+    return value;
+  }
+
+  public async set<T = any>(key: string, value: T, ttl: number = 300): Promise<boolean> {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl * 1000 });
+    return true;
+  }
+
+  public async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key);
+  }
+
+  public async exists(key: string): Promise<boolean> {
+    return this.read(key) !== null;
+  }
+
+  public keys(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  private read<T>(key: string): T | null {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+}
+
+export class InMemoryRateLimiter {
+  private readonly windows = new Map<string, { count: number; resetTime: number }>();
+
+  /**
+   * Count a request, as `RedisRateLimiter.checkLimit` does
+   */
+  public async checkLimit(key: string, config: RateLimitConfig): Promise<boolean> {
+    const window = this.currentWindow(key, config);
+    if (window.count >= config.maxRequests) {
+      emitFrameworkEvent('rate_limit:exceeded', { key, limit: config.maxRequests, windowMs: config.windowMs });
+      return false;
+    }
+
+    window.count++;
+    return true;
+  }
+
+  /**
+   * The window's state, without counting a request
+   */
+  public async getLimitInfo(key: string, config: RateLimitConfig): Promise<RateLimitResult> {
+    const window = this.currentWindow(key, config);
+
+    return {
+      allowed: window.count < config.maxRequests,
+      remaining: Math.max(0, config.maxRequests - window.count),
+      resetTime: new Date(window.resetTime),
+      totalRequests: window.count,
+    };
+  }
+
+  public reset(): void {
+    this.windows.clear();
+  }
+
+  private currentWindow(key: string, config: RateLimitConfig): { count: number; resetTime: number } {
+    const now = Date.now();
+    let window = this.windows.get(key);
+    if (!window || window.resetTime <= now) {
+      window = { count: 0, resetTime: now + config.windowMs };
+      this.windows.set(key, window);
+    }
+    return window;
+  }
+}
+
+export class InMemoryCsrfProtection {
+  private readonly tokens = new Map<string, string>();
+
+  public async generateToken(userId?: string): Promise<string> {
+    const token = crypto.randomBytes(16).toString('hex');
+    this.tokens.set(token, userId || 'anonymous');
+    return token;
+  }
+
+  public async validateToken(token: string, userId?: string): Promise<boolean> {
+    const owner = this.tokens.get(token);
+    if (!owner) {
+      return false;
+    }
+    return !userId || owner === userId || owner === 'anonymous';
+  }
+}
+
+export class InMemoryIdempotencyStore {
+  private readonly responses = new Map<string, IdempotencyResponse>();
+
+  public async get(key: string): Promise<IdempotencyResponse | null> {
+    return this.responses.get(key) ?? null;
+  }
+
+  public async set(key: string, response: IdempotencyResponse): Promise<void> {
+    this.responses.set(key, response);
+  }
+}
+
+// ============================================
+// Test Services
+// ============================================
+
+export interface TestServicesOptions {
+  /** Rows to seed the fake Prisma with, per model */
+  data?: FakePrismaData;
+
+  /** Feature flags; every flag not set to `false` is on */
+  featureFlags?: Record<string, boolean>;
+
+  /** Global config, e.g. `{ errors: { format: 'problem' } }` */
+  config?: Record<string, any>;
+}
+
+/**
+ * Services shared by the handler invocations given them, so the cache, rate
+ * limits and fake database carry over from one call to the next
+ */
+export interface TestServices {
+  prisma: FakePrisma;
+  audit: InMemoryAuditService;
+  monitoring: InMemoryMonitoring;
+  cache: InMemoryCache;
+  rateLimiter: InMemoryRateLimiter;
+  csrf: InMemoryCsrfProtection;
+  idempotency: InMemoryIdempotencyStore;
+  configManager: {
+    getConfig(): Record<string, any>;
+    getFeatureFlags(): Record<string, boolean>;
+  };
+  versionManager: VersionManager;
+}
+
+export function createTestServices(options: TestServicesOptions = {}): TestServices {
+  const featureFlags = new Proxy(options.featureFlags || {}, {
+    get: (flags, name) => typeof name !== 'string' || flags[name] !== false,
+  });
+
+  return {
+    prisma: createFakePrisma(options.data),
+    audit: new InMemoryAuditService(),
+    monitoring: new InMemoryMonitoring(),
+    cache: new InMemoryCache(),
+    rateLimiter: new InMemoryRateLimiter(),
+    csrf: new InMemoryCsrfProtection(),
+    idempotency: new InMemoryIdempotencyStore(),
+    configManager: {
+      getConfig: () => ({ multitenancy: { enabled: false }, ...options.config }),
+      getFeatureFlags: () => featureFlags,
+    },
+    versionManager: VersionManager.getInstance(),
+  };
+}
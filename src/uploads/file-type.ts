@@ -0,0 +1,123 @@
+/**
+ * File Type Detection
+ *
+ * Identifies uploaded files by their leading "magic bytes" so that a client
+ * cannot pass off an executable as `image/png` by changing the declared
+ * Content-Type or the file extension.
+ */
+
+interface FileSignature {
+  mimeType: string;
+  offset: number;
+  bytes: number[];
+}
+
+const FILE_SIGNATURES: FileSignature[] = [
+  { mimeType: 'image/png', offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: 'image/webp', offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+  { mimeType: 'image/bmp', offset: 0, bytes: [0x42, 0x4d] },
+  { mimeType: 'image/tiff', offset: 0, bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { mimeType: 'image/tiff', offset: 0, bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  { mimeType: 'application/pdf', offset: 0, bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { mimeType: 'application/zip', offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mimeType: 'application/gzip', offset: 0, bytes: [0x1f, 0x8b] },
+  { mimeType: 'audio/mpeg', offset: 0, bytes: [0x49, 0x44, 0x33] },
+  { mimeType: 'video/mp4', offset: 4, bytes: [0x66, 0x74, 0x79, 0x70] },
+  // Executables are detected so they can never pass as another type
+  { mimeType: 'application/x-msdownload', offset: 0, bytes: [0x4d, 0x5a] },
+  { mimeType: 'application/x-executable', offset: 0, bytes: [0x7f, 0x45, 0x4c, 0x46] },
+];
+
+/**
+ * Formats stored inside a ZIP container (detected as application/zip)
+ */
+const ZIP_BASED_TYPES = new Set([
+  'application/zip',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/epub+zip',
+]);
+
+/**
+ * Text formats have no signature; they are accepted by declared type as long
+ * as the content does not match a binary signature and contains no NUL bytes
+ */
+const TEXT_TYPES = new Set([
+  'text/plain',
+  'text/csv',
+  'text/markdown',
+  'application/json',
+]);
+
+/**
+ * File extensions for stored uploads, by resolved MIME type. Types missing
+ * here (executables among them) are stored without an extension.
+ */
+const EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/bmp': '.bmp',
+  'image/tiff': '.tiff',
+  'application/pdf': '.pdf',
+  'application/zip': '.zip',
+  'application/gzip': '.gz',
+  'audio/mpeg': '.mp3',
+  'video/mp4': '.mp4',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': '.pptx',
+  'application/epub+zip': '.epub',
+  'text/plain': '.txt',
+  'text/csv': '.csv',
+  'text/markdown': '.md',
+  'application/json': '.json',
+};
+
+/**
+ * Detect the MIME type of a buffer from its magic bytes
+ */
+export function detectMimeType(buffer: Buffer): string | undefined {
+  const match = FILE_SIGNATURES.find(signature =>
+    buffer.length >= signature.offset + signature.bytes.length &&
+    signature.bytes.every((byte, index) => buffer[signature.offset + index] === byte)
+  );
+  return match?.mimeType;
+}
+
+/**
+ * Resolve the effective MIME type of an upload, or `undefined` when the
+ * content does not match what the client declared
+ */
+export function resolveMimeType(buffer: Buffer, declaredType: string): string | undefined {
+  const declared = declaredType.split(';')[0]!.trim().toLowerCase();
+  const detected = detectMimeType(buffer);
+
+  if (detected) {
+    if (detected === declared) {
+      return detected;
+    }
+    if (detected === 'application/zip' && ZIP_BASED_TYPES.has(declared)) {
+      return declared;
+    }
+    return undefined;
+  }
+
+  if (TEXT_TYPES.has(declared) && !buffer.includes(0)) {
+    return declared;
+  }
+
+  return undefined;
+}
+
+/**
+ * Extension to store a file of a resolved MIME type under, or '' when the
+ * type has none
+ */
+export function extensionForMimeType(mimeType: string): string {
+  return Object.prototype.hasOwnProperty.call(EXTENSIONS, mimeType) ? EXTENSIONS[mimeType]! : '';
+}
@@ -0,0 +1,246 @@
+/**
+ * Multipart Upload Processing
+ *
+ * Parses `multipart/form-data` bodies for handlers with an `upload` config,
+ * enforces the per-field limits, sniffs the real content type and hands
+ * accepted files to the configured storage adapter.
+ */
+
+import { Request } from 'express';
+import busboy from 'busboy';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+
+import { ErrorCode, UploadConfig, UploadedFile } from '../core/types';
+import { EncryptionService } from '../security/encryption';
+import { ValidationUtils } from '../utils/validation';
+import { extensionForMimeType, resolveMimeType } from './file-type';
+
+// ============================================
+// Constants & Types
+// ============================================
+
+const DEFAULT_MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+const DEFAULT_MAX_TOTAL_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_TEXT_FIELDS = 100;
+const MAX_TEXT_FIELD_SIZE = 1024 * 1024; // 1MB
+
+// Field names that must never become keys of the parsed body
+const FORBIDDEN_FIELD_NAMES = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Why a multipart body was refused
+ */
+export interface UploadRejection {
+  statusCode: number;
+  code: ErrorCode;
+  message: string;
+  field?: string;
+}
+
+export interface MultipartResult {
+  /** Text fields; repeated names become arrays */
+  fields: Record<string, string | string[]>;
+  files: Record<string, UploadedFile[]>;
+  rejection?: UploadRejection;
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+/**
+ * Whether the request carries a multipart/form-data body
+ */
+export function isMultipartRequest(req: Request): boolean {
+  return (req.get('content-type') || '').toLowerCase().startsWith('multipart/form-data');
+}
+
+/**
+ * Parse and validate a multipart body against an upload config.
+ * Resolves with a `rejection` instead of throwing when the body breaks a limit.
+ */
+export function parseMultipart(req: Request, config: UploadConfig): Promise<MultipartResult> {
+  const fieldConfigs = config.fields;
+  const maxTotalSize = config.maxTotalSize || DEFAULT_MAX_TOTAL_SIZE;
+  const maxFileSize = Math.max(
+    ...Object.values(fieldConfigs).map(field => field.maxFileSize || DEFAULT_MAX_FILE_SIZE)
+  );
+  const maxFiles = Object.values(fieldConfigs).reduce((sum, field) => sum + (field.maxCount || 1), 0);
+
+  return new Promise(resolve => {
+    const fields: Record<string, string | string[]> = {};
+    const files: Record<string, UploadedFile[]> = {};
+    const fileCounts: Record<string, number> = {};
+    let rejection: UploadRejection | undefined;
+    let totalSize = 0;
+
+    const reject = (statusCode: number, code: ErrorCode, message: string, field?: string) => {
+      if (!rejection) {
+        rejection = { statusCode, code, message, ...(field ? { field } : {}) };
+      }
+    };
+
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({
+        headers: req.headers,
+        defParamCharset: 'utf8',
+        limits: {
+          // One byte over the largest field limit, so oversized files are detected
+          fileSize: maxFileSize + 1,
+          files: maxFiles,
+          fields: MAX_TEXT_FIELDS,
+          fieldSize: MAX_TEXT_FIELD_SIZE,
+        },
+      });
+    } catch (error) {
+      resolve({ fields, files, rejection: { statusCode: 400, code: 'BAD_REQUEST', message: 'Malformed multipart body' } });
+      return;
+    }
+
+    parser.on('file', (fieldName, stream, info) => {
+      const fieldConfig = fieldConfigs[fieldName];
+      const originalName = (info.filename || '').split(/[\\/]/).pop() || '';
+
+      if (!fieldConfig) {
+        reject(400, 'VALIDATION_ERROR', `Unexpected file field: ${fieldName}`, fieldName);
+      } else if ((fileCounts[fieldName] || 0) >= (fieldConfig.maxCount || 1)) {
+        reject(400, 'VALIDATION_ERROR', `Too many files for field: ${fieldName}`, fieldName);
+      }
+
+      // Browsers send an empty part for file inputs left blank
+      if (rejection || !fieldConfig || !originalName) {
+        stream.resume();
+        return;
+      }
+
+      fileCounts[fieldName] = (fileCounts[fieldName] || 0) + 1;
+      const fieldMaxSize = fieldConfig.maxFileSize || DEFAULT_MAX_FILE_SIZE;
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      stream.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        totalSize += chunk.length;
+
+        if (totalSize > maxTotalSize) {
+          reject(413, 'PAYLOAD_TOO_LARGE', 'Upload exceeds the maximum total size');
+        } else if (!ValidationUtils.isValidFileSize(size, fieldMaxSize / (1024 * 1024))) {
+          reject(413, 'PAYLOAD_TOO_LARGE', `File too large for field: ${fieldName}`, fieldName);
+        }
+
+        // Stop buffering once the request is refused; the rest is drained
+        if (!rejection) {
+          chunks.push(chunk);
+        }
+      });
+
+      stream.on('end', () => {
+        if (rejection) {
+          return;
+        }
+
+        if (fieldConfig.allowedExtensions &&
+          !ValidationUtils.isValidFileExtension(originalName, fieldConfig.allowedExtensions.map(ext => ext.toLowerCase()))) {
+          reject(415, 'UNSUPPORTED_MEDIA_TYPE', `File extension not allowed for field: ${fieldName}`, fieldName);
+          return;
+        }
+
+        const buffer = Buffer.concat(chunks);
+        const mimeType = resolveMimeType(buffer, info.mimeType);
+
+        if (!mimeType) {
+          reject(415, 'UNSUPPORTED_MEDIA_TYPE', `File content does not match its declared type for field: ${fieldName}`, fieldName);
+          return;
+        }
+        if (fieldConfig.allowedMimeTypes && !ValidationUtils.isValidMimeType(mimeType, fieldConfig.allowedMimeTypes)) {
+          reject(415, 'UNSUPPORTED_MEDIA_TYPE', `File type ${mimeType} not allowed for field: ${fieldName}`, fieldName);
+          return;
+        }
+
+        (files[fieldName] ||= []).push({
+          fieldName,
+          originalName,
+          mimeType,
+          size: buffer.length,
+          buffer,
+          stream: () => Readable.from(buffer),
+          encrypted: false,
+        });
+      });
+    });
+
+    parser.on('field', (name, value, info) => {
+      if (FORBIDDEN_FIELD_NAMES.has(name)) {
+        reject(400, 'VALIDATION_ERROR', `Invalid field name: ${name}`);
+        return;
+      }
+      if (info.valueTruncated) {
+        reject(413, 'PAYLOAD_TOO_LARGE', `Field too large: ${name}`, name);
+        return;
+      }
+
+      const existing = fields[name];
+      if (existing === undefined) {
+        fields[name] = value;
+      } else {
+        fields[name] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+      }
+    });
+
+    parser.on('filesLimit', () => reject(400, 'VALIDATION_ERROR', 'Too many files'));
+    parser.on('fieldsLimit', () => reject(400, 'VALIDATION_ERROR', 'Too many fields'));
+    parser.on('partsLimit', () => reject(400, 'VALIDATION_ERROR', 'Too many parts'));
+
+    parser.on('error', () => {
+      reject(400, 'BAD_REQUEST', 'Malformed multipart body');
+      req.unpipe(parser);
+      resolve({ fields, files, ...(rejection ? { rejection } : {}) });
+    });
+
+    parser.on('close', () => {
+      for (const [fieldName, fieldConfig] of Object.entries(fieldConfigs)) {
+        if (fieldConfig.required && !files[fieldName]?.length) {
+          reject(400, 'VALIDATION_ERROR', `Missing required file: ${fieldName}`, fieldName);
+        }
+      }
+      resolve({ fields, files, ...(rejection ? { rejection } : {}) });
+    });
+
+    req.pipe(parser);
+  });
+}
+
+// ============================================
+// Storage
+// ============================================
+
+/**
+ * Encrypt (if configured) and store accepted files, recording where each
+ * one was written. Files stay in memory when no storage adapter is set.
+ * Stored names take their extension from the checked MIME type, never from
+ * the client's filename.
+ */
+export async function storeUploads(
+  files: Record<string, UploadedFile[]>,
+  config: UploadConfig,
+  encryptionService: EncryptionService
+): Promise<void> {
+  const { storage } = config;
+  if (!storage) {
+    return;
+  }
+
+  for (const file of Object.values(files).flat()) {
+    const content = config.encrypt ? await encryptionService.encryptFile(file.buffer) : file.buffer;
+    const extension = extensionForMimeType(file.mimeType);
+    const { buffer, stream, storageKey, ...metadata } = file;
+
+    file.encrypted = config.encrypt === true;
+    file.storageKey = await storage.save(`${crypto.randomUUID()}${extension}`, content, {
+      ...metadata,
+      encrypted: file.encrypted,
+    });
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Upload Storage Adapters
+ *
+ * Implementations of `StorageAdapter` that accepted uploads are written to.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+
+import { StorageAdapter } from '../core/types';
+
+export interface LocalDiskStorageConfig {
+  /** Directory files are written to; created on first save */
+  directory: string;
+}
+
+/**
+ * Stores uploads as files in a local directory
+ */
+export class LocalDiskStorageAdapter implements StorageAdapter {
+  private readonly directory: string;
+
+  constructor(config: LocalDiskStorageConfig) {
+    this.directory = path.resolve(config.directory);
+  }
+
+  public async save(key: string, content: Buffer): Promise<string> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const location = this.resolve(key);
+    // 'wx' never overwrites an existing upload
+    await fs.writeFile(location, content, { flag: 'wx', mode: 0o600 });
+    return key;
+  }
+
+  public async read(location: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(location));
+  }
+
+  public async delete(location: string): Promise<void> {
+    await fs.rm(this.resolve(location), { force: true });
+  }
+
+  /**
+   * Map a storage key to a path, refusing anything outside the directory
+   */
+  private resolve(key: string): string {
+    const location = path.resolve(this.directory, key);
+    if (path.dirname(location) !== this.directory) {
+      throw new Error('Invalid storage key');
+    }
+    return location;
+  }
+}
@@ -5,6 +5,7 @@
  */
 
 import * as winston from 'winston';
+import { getRequestId } from '../core/request-context';
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
@@ -18,6 +19,19 @@ export interface LoggerConfig {
   maxFiles?: number;
 }
 
+/**
+ * Tag entries logged while a request is handled with its id
+ */
+const withRequestId: winston.Logform.Format = {
+  transform: info => {
+    const requestId = getRequestId();
+    if (requestId && info.requestId === undefined) {
+      info.requestId = requestId;
+    }
+    return info;
+  },
+};
+
 export class Logger {
   private static instance: Logger;
   private logger: winston.Logger;
@@ -86,6 +100,7 @@ export class Logger {
     return winston.createLogger({
       level: this.config.level!,
       format: winston.format.combine(
+        withRequestId,
         winston.format.timestamp(),
         winston.format.errors({ stack: true }),
         winston.format.json()
@@ -208,7 +223,7 @@ export class Logger {
       url: req.url,
       statusCode: res.statusCode,
       duration: `${duration}ms`,
-      requestId: req.id,
+      requestId: res.locals?.requestId || req.id,
     });
   }
 
@@ -0,0 +1,226 @@
+/**
+ * Framework Adapters Unit Tests
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import express, { Request as ExpressRequest, Response as ExpressResponse } from 'express';
+import { z } from 'zod';
+
+import { toFastifyHandler, toFetchHandler, toNodeHandler } from '../../../src/adapters';
+import { createAuthenticatedHandler, createPublicHandler } from '../../../src/core/handler';
+import { createStreamHandler } from '../../../src/core/stream-handler';
+import { ServiceInitializer } from '../../../src/core/service-initializer';
+import { createTestServices } from '../../../src/testing';
+
+jest.mock('@prisma/client', () => ({
+    PrismaClient: class PrismaClient { },
+    Prisma: { defineExtension: (extension: unknown) => extension },
+}));
+
+type Handler = (req: ExpressRequest, res: ExpressResponse) => Promise<any>;
+
+/**
+ * Run a handler against fresh in-memory services, whichever transport calls it
+ */
+function withTestServices(handler: Handler): Handler {
+    const services = createTestServices();
+    const registry = {
+        monitoring: services.monitoring,
+        configManager: services.configManager,
+        versionManager: services.versionManager,
+        auditService: services.audit,
+        cacheManager: services.cache,
+        rateLimiter: services.rateLimiter,
+        csrfProtection: services.csrf,
+        idempotencyService: services.idempotency,
+        prisma: services.prisma,
+        authManager: { authenticate: async () => null },
+        tenantManager: { isEnabled: () => false },
+    };
+    return (req, res) => ServiceInitializer.runWithServices(registry, () => handler(req, res));
+}
+
+interface Sent {
+    status: number;
+    contentType: string | null;
+    body: any;
+}
+
+async function read(response: Response): Promise<Sent> {
+    return { status: response.status, contentType: response.headers.get('content-type'), body: await response.json() };
+}
+
+/**
+ * Serve `listener` on an ephemeral port for one request
+ */
+async function overHttp(listener: http.RequestListener, path: string, init: RequestInit): Promise<Sent> {
+    const server = http.createServer(listener);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+        const { port } = server.address() as AddressInfo;
+        return await read(await fetch(`http://127.0.0.1:${port}${path}`, init));
+    } finally {
+        await new Promise(resolve => server.close(resolve));
+    }
+}
+
+// Client IP as a trusted proxy would pass it to a fetch runtime
+const fetchOptions = { clientIp: (request: Request) => request.headers.get('x-real-ip') ?? undefined };
+
+const transports: Record<string, (handler: Handler, path: string, init: RequestInit) => Promise<Sent>> = {
+    express: (handler, path, init) => {
+        const app = express();
+        app.all('/projects/:id', handler);
+        return overHttp(app, path, init);
+    },
+    node: (handler, path, init) => {
+        const nodeHandler = toNodeHandler(handler);
+        return overHttp((req, res) => void nodeHandler(req, res, { params: { id: req.url!.split(/[/?]/)[2]! } }), path, init);
+    },
+    fastify: (handler, path, init) => {
+        const fastifyHandler = toFastifyHandler(handler);
+        return overHttp((req, res) => void fastifyHandler(
+            { raw: req, params: { id: req.url!.split(/[/?]/)[2]! }, ip: '127.0.0.1' },
+            { raw: res, hijack: () => undefined }
+        ), path, init);
+    },
+    fetch: async (handler, path, init) => {
+        const response = await toFetchHandler(handler, fetchOptions)(
+            new Request(`http://localhost${path}`, { ...init, headers: { 'x-real-ip': '203.0.113.1', ...init.headers } }),
+            { params: Promise.resolve({ id: path.split(/[/?]/)[2]! }) }
+        );
+        return read(response);
+    },
+};
+
+describe.each(Object.keys(transports))('%s adapter', name => {
+    const send = transports[name]!;
+
+    const rename = createPublicHandler({
+        schema: {
+            params: z.object({ id: z.number().int() }),
+            body: z.object({ name: z.string().min(1) }),
+        },
+        limits: { maxBodyBytes: 64 },
+        handler: async ({ input }) => ({ id: input.params.id, name: input.body.name }),
+    });
+
+    const post = (body: string, headers: Record<string, string> = {}): RequestInit => ({
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...headers },
+        body,
+    });
+
+    it('should read, validate and answer with the same pipeline', async () => {
+        const result = await send(withTestServices(rename), '/projects/7', post('{"name":"Apollo"}'));
+
+        expect(result.status).toBe(200);
+        expect(result.contentType).toMatch(/^application\/json/);
+        expect(result.body.data).toEqual({ id: 7, name: 'Apollo' });
+    });
+
+    it('should reject invalid input', async () => {
+        const result = await send(withTestServices(rename), '/projects/abc', post('{"name":""}'));
+
+        expect(result.status).toBe(400);
+        expect(Object.keys(result.body.error.details).sort()).toEqual(['body.name', 'params.id']);
+    });
+
+    it('should enforce the content-type policy and body limit', async () => {
+        const wrongType = await send(withTestServices(rename), '/projects/7', post('name=Apollo', {
+            'content-type': 'application/x-www-form-urlencoded',
+        }));
+        const tooLarge = await send(withTestServices(rename), '/projects/7', post(JSON.stringify({ name: 'x'.repeat(100) })));
+
+        expect(wrongType.status).toBe(415);
+        expect(tooLarge.status).toBe(413);
+    });
+
+    it('should require authentication', async () => {
+        const handler = createAuthenticatedHandler({ handler: async () => ({ ok: true }) });
+
+        const result = await send(withTestServices(handler), '/projects/7', { method: 'GET' });
+
+        expect(result.status).toBe(401);
+        expect(result.body.error.code).toBe('AUTHENTICATION_ERROR');
+    });
+});
+
+describe('toFetchHandler', () => {
+    const limited = createPublicHandler({
+        rateLimit: { maxRequests: 1, windowMs: 60000 },
+        handler: async () => ({ ok: true }),
+    });
+    const fromClient = (ip?: string) => new Request('http://localhost/reports', ip ? { headers: { 'x-real-ip': ip } } : {});
+
+    it('should rate limit each client IP separately', async () => {
+        const handler = toFetchHandler(withTestServices(limited), fetchOptions);
+
+        const first = await handler(fromClient('203.0.113.1'));
+        const repeated = await handler(fromClient('203.0.113.1'));
+        const other = await handler(fromClient('203.0.113.2'));
+
+        expect(first.status).toBe(200);
+        expect(repeated.status).toBe(429);
+        expect(other.status).toBe(200);
+    });
+
+    it('should refuse requests it cannot resolve a client IP for', async () => {
+        const handler = jest.fn(withTestServices(limited));
+
+        const response = await toFetchHandler(handler, fetchOptions)(fromClient());
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).error.code).toBe('BAD_REQUEST');
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a streamed body without Content-Length once it passes the limit', async () => {
+        const upload = createPublicHandler({
+            limits: { maxBodyBytes: 16 },
+            handler: async () => ({ ok: true }),
+        });
+        const chunks = ['{"data":"', 'x'.repeat(32), '"}'];
+        const body = new ReadableStream({
+            pull(controller) {
+                const chunk = chunks.shift();
+                if (chunk === undefined) {
+                    controller.close();
+                } else {
+                    controller.enqueue(new TextEncoder().encode(chunk));
+                }
+            },
+        });
+
+        const response = await toFetchHandler(withTestServices(upload), fetchOptions)(new Request('http://localhost/uploads', {
+            method: 'POST',
+            headers: { 'content-type': 'application/json', 'x-real-ip': '203.0.113.1' },
+            body,
+            duplex: 'half',
+        } as RequestInit));
+
+        expect(response.status).toBe(413);
+    });
+
+    it('should stream events as they are written', async () => {
+        const ticker = createStreamHandler({
+            requireAuth: false,
+            format: 'ndjson',
+            heartbeatInterval: 0,
+            handler: async ({ stream }) => {
+                await stream.write({ tick: 1 });
+                await stream.write({ tick: 2 });
+            },
+        });
+
+        const response = await toFetchHandler(withTestServices(ticker), fetchOptions)(new Request('http://localhost/ticks', {
+            headers: { 'x-real-ip': '203.0.113.1' },
+        }));
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toMatch(/^application\/x-ndjson/);
+        expect(response.headers.get('connection')).toBeNull();
+        expect((await response.text()).trim().split('\n').map(line => JSON.parse(line))).toEqual([{ tick: 1 }, { tick: 2 }]);
+    });
+});
@@ -0,0 +1,111 @@
+/**
+ * App Container Unit Tests
+ */
+
+import express, { Router } from 'express';
+
+import { createApp, TenetApp } from '../../../src/core/app';
+import { RouteRegistry } from '../../../src/core/route-registry';
+import { createAuthenticatedHandler } from '../../../src/core/handler';
+import { invokeHandler } from '../../../src/testing';
+import { mockUser } from '../../utils/test-helpers';
+
+jest.mock('@prisma/client', () => ({
+    PrismaClient: class PrismaClient { },
+    Prisma: { defineExtension: (extension: unknown) => extension },
+}));
+
+const signedInAs = (id: string) => ({
+    authenticate: async () => mockUser({ id }),
+});
+
+describe('createApp', () => {
+    const apps: TenetApp[] = [];
+    const app = (...args: Parameters<typeof createApp>) => {
+        const created = createApp(...args);
+        apps.push(created);
+        return created;
+    };
+
+    afterEach(() => {
+        apps.splice(0).forEach(created => created.shutdown());
+    });
+
+    it('should run each app\'s handlers with its own services', async () => {
+        const alice = app({ cache: { provider: 'memory' }, services: { authManager: signedInAs('alice') } });
+        const bob = app({ cache: { provider: 'memory' }, services: { authManager: signedInAs('bob') } });
+        const whoAmI = { handler: async ({ user }: any) => ({ id: user.id }) };
+
+        const [first, second] = await Promise.all([
+            invokeHandler(alice.createAuthenticatedHandler(whoAmI), { path: '/me' }),
+            invokeHandler(bob.createAuthenticatedHandler(whoAmI), { path: '/me' }),
+        ]);
+
+        expect(first.body.data).toEqual({ id: 'alice' });
+        expect(second.body.data).toEqual({ id: 'bob' });
+    });
+
+    it('should keep CSRF tokens in the app that issued them', async () => {
+        const first = app({ cache: { provider: 'memory' }, services: { authManager: signedInAs('user-1') } });
+        const second = app({ cache: { provider: 'memory' }, services: { authManager: signedInAs('user-1') } });
+        const token = await first.services.csrfProtection.generateToken('user-1');
+        const update = { handler: async () => ({ ok: true }) };
+        const request = { method: 'POST' as const, path: '/settings', body: {}, csrf: false, headers: { 'X-CSRF-Token': token } };
+
+        expect((await invokeHandler(first.createAuthenticatedHandler(update), request)).status).toBe(200);
+        expect((await invokeHandler(second.createAuthenticatedHandler(update), request)).status).toBe(403);
+    });
+
+    it('should take services it does not have from the enclosing scope', async () => {
+        const scoped = app({ cache: { provider: 'memory' }, services: { authManager: signedInAs('user-1') } });
+
+        const result = await invokeHandler(scoped.createAuthenticatedHandler({
+            auditConfig: { enabled: true, action: 'profile.read' },
+            handler: async () => ({ ok: true }),
+        }), { path: '/profile' });
+
+        expect(result.auditEvents.map(event => event.action)).toContain('profile.read');
+    });
+
+    it('should give each app its own circuit breakers and global hooks', async () => {
+        const first = app({ cache: { provider: 'memory' }, services: { authManager: signedInAs('user-1') } });
+        const second = app({ cache: { provider: 'memory' }, services: { authManager: signedInAs('user-1') } });
+        first.hooks.register('beforeResponse', async (ctx) => {
+            ctx.result = { ...ctx.result, app: 'first' };
+        });
+        const callUpstream = {
+            handler: async ({ breaker }: any) => {
+                const upstream = breaker('billing', { minimumRequests: 1 });
+                await upstream.exec(async () => { throw new Error('down'); }, () => undefined);
+                return { state: upstream.getState() };
+            },
+        };
+
+        const tripped = await invokeHandler(first.createAuthenticatedHandler(callUpstream), { path: '/billing' });
+
+        expect(tripped.body.data).toEqual({ state: 'open', app: 'first' });
+        expect(first.breakers.get('billing').getState()).toBe('open');
+        expect(second.breakers.list()).toEqual([]);
+        expect((await invokeHandler(second.createAuthenticatedHandler({ handler: async () => ({}) }), { path: '/' })).body.data)
+            .toEqual({});
+    });
+
+    it('should record routers it mounts in its own route registry', () => {
+        const scoped = app({ cache: { provider: 'memory' } });
+        const router = Router();
+        router.get('/projects', scoped.createPublicHandler({ handler: async () => [] }));
+
+        scoped.mountRouter(express(), '/api', router);
+
+        expect(scoped.routes.getRoutes().map(route => `${route.method} ${route.path}`)).toEqual(['GET /api/projects']);
+        expect(RouteRegistry.getInstance().getRoute('GET', '/api/projects')).toBeUndefined();
+    });
+
+    it('should leave handlers from the plain factories on the default app', async () => {
+        const handler = createAuthenticatedHandler({ handler: async ({ user }) => ({ id: user!.id }) });
+
+        const result = await invokeHandler(handler, { path: '/me', user: mockUser({ id: 'default-user' }) });
+
+        expect(result.body.data).toEqual({ id: 'default-user' });
+    });
+});
@@ -0,0 +1,237 @@
+/**
+ * Batch Router Unit Tests
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { createBatchRouter } from '../../../src/core/batch';
+import { RegisteredRoute, RouteRegistry, attachHandlerMetadata } from '../../../src/core/route-registry';
+import { BATCH_AUTHENTICATED_USER } from '../../../src/core/pipeline';
+import { mockUser } from '../../utils/test-helpers';
+
+jest.mock('../../../src/core/service-initializer');
+jest.mock('../../../src/auth/manager');
+
+const route = (method: string, path: string, handler: (req: any, res: any) => Promise<any>): RegisteredRoute => ({
+    method,
+    path,
+    handler: attachHandlerMetadata(handler, { config: { handler: jest.fn() } }),
+    metadata: { config: { handler: jest.fn() } },
+});
+
+describe('Batch Router', () => {
+    const user = mockUser();
+    let authenticate: jest.Mock;
+
+    beforeEach(() => {
+        const { ServiceInitializer } = require('../../../src/core/service-initializer');
+        ServiceInitializer.getServices = jest.fn().mockReturnValue({
+            monitoring: { recordMetric: jest.fn() },
+            configManager: {},
+            tenantManager: {},
+            versionManager: {},
+            auditService: { logAuthEvent: jest.fn().mockResolvedValue(undefined) },
+        });
+
+        authenticate = jest.fn().mockResolvedValue(user);
+        const { AuthManager } = require('../../../src/auth/manager');
+        AuthManager.getInstance = jest.fn().mockReturnValue({ authenticate });
+    });
+
+    const createApp = (routes: RegisteredRoute[], options: Record<string, any> = {}) => {
+        const app = express();
+        app.use(express.json());
+        app.use('/api', createBatchRouter({ routes, ...options }));
+        return app;
+    };
+
+    it('should dispatch each sub-request and return results in order', async () => {
+        const app = createApp([
+            route('GET', '/api/tasks/:id', async (req, res) => res.status(200).json({
+                success: true,
+                data: { id: req.params.id, include: req.query.include, userId: req[BATCH_AUTHENTICATED_USER].id },
+            })),
+            route('POST', '/api/tasks', async (req, res) => res.status(201).json({ success: true, data: req.body })),
+        ]);
+
+        const response = await request(app)
+            .post('/api/batch')
+            .set('Authorization', 'Bearer token')
+            .send({
+                requests: [
+                    { method: 'GET', path: '/api/tasks/42?include=owner' },
+                    { id: 'create', method: 'POST', path: '/api/tasks', body: { title: 'Ship' } },
+                    { method: 'GET', path: '/api/unknown' },
+                ],
+            });
+
+        expect(response.status).toBe(200);
+        expect(authenticate).toHaveBeenCalledTimes(1);
+        expect(response.body.data.responses).toEqual([
+            expect.objectContaining({
+                id: '0',
+                status: 200,
+                body: { success: true, data: { id: '42', include: 'owner', userId: user.id } },
+            }),
+            expect.objectContaining({ id: 'create', status: 201, body: { success: true, data: { title: 'Ship' } } }),
+            expect.objectContaining({
+                id: '2',
+                status: 404,
+                body: expect.objectContaining({ error: expect.objectContaining({ code: 'RESOURCE_NOT_FOUND' }) }),
+            }),
+        ]);
+    });
+
+    it('should route to the handler Express would pick, in registration order', async () => {
+        const router = express.Router();
+        router.get('/projects/latest', attachHandlerMetadata(
+            async (_req, res) => res.status(200).json({ success: true, data: 'latest' }),
+            { config: { handler: jest.fn() } }
+        ));
+        router.get('/projects/:id', attachHandlerMetadata(
+            async (req, res) => res.status(200).json({ success: true, data: req.params.id }),
+            { config: { handler: jest.fn() } }
+        ));
+        RouteRegistry.getInstance().clear();
+        RouteRegistry.getInstance().registerRouter(router, '/api');
+
+        const app = express();
+        app.use(express.json());
+        app.use('/api', createBatchRouter());
+
+        const response = await request(app)
+            .post('/api/batch')
+            .send({
+                requests: [
+                    { method: 'GET', path: '/api/projects/latest' },
+                    { method: 'GET', path: '/api/projects/7' },
+                ],
+            });
+
+        expect(response.body.data.responses.map((result: any) => result.body.data)).toEqual(['latest', '7']);
+    });
+
+    it('should pass sub-request headers on top of the batch request\'s', async () => {
+        const handler = jest.fn().mockImplementation(async (req, res) => res.status(200).json({
+            success: true,
+            data: { authorization: req.get('authorization'), locale: req.get('accept-language') },
+        }));
+        const app = createApp([route('GET', '/api/me', handler)]);
+
+        const response = await request(app)
+            .post('/api/batch')
+            .set('Authorization', 'Bearer outer')
+            .send({ requests: [{ method: 'GET', path: '/api/me', headers: { 'Accept-Language': 'de' } }] });
+
+        expect(response.body.data.responses[0].body.data).toEqual({ authorization: 'Bearer outer', locale: 'de' });
+    });
+
+    it.each(['Authorization', 'X-Forwarded-For', 'X-Real-IP', 'Forwarded', 'X-API-Key', 'X-Tenant-ID'])(
+        'should reject sub-requests that set %s',
+        async header => {
+            const handler = jest.fn();
+            const app = createApp([route('GET', '/api/me', handler)]);
+
+            const response = await request(app)
+                .post('/api/batch')
+                .send({ requests: [{ id: 'me', method: 'GET', path: '/api/me', headers: { [header]: 'spoofed' } }] });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error.message).toBe(`Sub-request me may not set the ${header} header`);
+            expect(handler).not.toHaveBeenCalled();
+        }
+    );
+
+    it('should reject sub-requests that set a configured protected header', async () => {
+        const app = createApp([route('GET', '/api/me', jest.fn())], { protectedHeaders: ['X-Partner-Key'] });
+
+        const response = await request(app)
+            .post('/api/batch')
+            .send({ requests: [{ method: 'GET', path: '/api/me', headers: { 'x-partner-key': 'other' } }] });
+
+        expect(response.status).toBe(400);
+    });
+
+    it('should reject unauthenticated batches', async () => {
+        authenticate.mockResolvedValue(null);
+        const handler = jest.fn();
+        const app = createApp([route('GET', '/api/me', handler)]);
+
+        const response = await request(app)
+            .post('/api/batch')
+            .send({ requests: [{ method: 'GET', path: '/api/me' }] });
+
+        expect(response.status).toBe(401);
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should reject batches over the size limit', async () => {
+        const app = createApp([], { maxBatchSize: 2 });
+
+        const response = await request(app)
+            .post('/api/batch')
+            .send({ requests: Array.from({ length: 3 }, () => ({ method: 'GET', path: '/api/me' })) });
+
+        expect(response.status).toBe(413);
+    });
+
+    it('should skip sub-requests whose dependency failed', async () => {
+        const handler = jest.fn();
+        const app = createApp([
+            route('POST', '/api/projects', async (_req, res) => res.status(409).json({
+                success: false,
+                error: { code: 'CONFLICT', message: 'Exists' },
+            })),
+            route('GET', '/api/projects/latest', handler),
+        ]);
+
+        const response = await request(app)
+            .post('/api/batch')
+            .send({
+                requests: [
+                    { id: 'project', method: 'POST', path: '/api/projects', body: {} },
+                    { method: 'GET', path: '/api/projects/latest', dependsOn: ['project'] },
+                ],
+            });
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(response.body.data.responses[1]).toEqual(expect.objectContaining({
+            status: 412,
+            body: expect.objectContaining({ error: expect.objectContaining({ code: 'PRECONDITION_FAILED' }) }),
+        }));
+    });
+
+    it('should reject dependencies on later or unknown sub-requests', async () => {
+        const app = createApp([]);
+
+        const response = await request(app)
+            .post('/api/batch')
+            .send({
+                requests: [
+                    { id: 'a', method: 'GET', path: '/api/a', dependsOn: ['b'] },
+                    { id: 'b', method: 'GET', path: '/api/b' },
+                ],
+            });
+
+        expect(response.status).toBe(400);
+    });
+
+    it('should run one sub-request at a time when sequential', async () => {
+        let active = 0;
+        let maxActive = 0;
+        const app = createApp([
+            route('GET', '/api/slow', async (_req, res) => {
+                maxActive = Math.max(maxActive, ++active);
+                await new Promise(resolve => setTimeout(resolve, 5));
+                active--;
+                return res.status(200).json({ success: true });
+            }),
+        ]);
+
+        await request(app)
+            .post('/api/batch')
+            .send({ sequential: true, requests: Array.from({ length: 4 }, () => ({ method: 'GET', path: '/api/slow' })) });
+
+        expect(maxActive).toBe(1);
+    });
+});
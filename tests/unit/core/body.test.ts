@@ -0,0 +1,140 @@
+/**
+ * Request Body & Limits Unit Tests
+ */
+
+import { Readable } from 'stream';
+import { finished } from 'stream/promises';
+import { Request } from 'express';
+
+import { parseBody, readBody } from '../../../src/core/body';
+import { createPublicHandler } from '../../../src/core/handler';
+import { parseQuery } from '../../../src/core/in-process';
+import { readRequestBody } from '../../../src/core/pipeline';
+import { invokeHandler } from '../../../src/testing';
+
+jest.mock('@prisma/client', () => ({
+    PrismaClient: class PrismaClient { },
+    Prisma: { defineExtension: (extension: unknown) => extension },
+}));
+
+function streamingRequest(chunks: string[], contentType: string): Request & Readable {
+    return Object.assign(Readable.from(chunks.map(chunk => Buffer.from(chunk))), {
+        method: 'POST',
+        headers: { 'content-type': contentType },
+        get: (name: string) => (name.toLowerCase() === 'content-type' ? contentType : undefined),
+    }) as unknown as Request & Readable;
+}
+
+describe('readBody', () => {
+    it('should refuse a body as soon as it passes the limit', async () => {
+        const req = streamingRequest(['12345', '67890', 'abcde', 'fghij'], 'application/json');
+
+        const result = await readBody(req, 8);
+
+        expect(result.rejection).toEqual({ statusCode: 413, code: 'PAYLOAD_TOO_LARGE', message: 'Request body too large' });
+        // The rest is drained, not left hanging
+        await finished(req);
+        expect(req.readableEnded).toBe(true);
+    });
+
+    it('should collect bodies within the limit', async () => {
+        const result = await readBody(streamingRequest(['{"a":', '1}'], 'application/json'), 1024);
+        expect(result.raw?.toString()).toBe('{"a":1}');
+    });
+});
+
+describe('parseBody', () => {
+    it('should parse forms, keeping repeated fields and dropping prototype keys', () => {
+        const form = parseBody(Buffer.from('tag=a&tag=b&name=x%20y&__proto__=bad'), 'application/x-www-form-urlencoded');
+
+        expect(form).toEqual({ tag: ['a', 'b'], name: 'x y' });
+        expect(Object.getPrototypeOf(form)).toBe(Object.prototype);
+    });
+
+    it('should keep text and binary bodies as they are', () => {
+        expect(parseBody(Buffer.from('hello'), 'text/plain')).toBe('hello');
+        expect(Buffer.isBuffer(parseBody(Buffer.from([1, 2]), 'application/octet-stream'))).toBe(true);
+        expect(() => parseBody(Buffer.from('{'), 'application/json')).toThrow(SyntaxError);
+    });
+});
+
+describe('parseQuery', () => {
+    it('should not mix in inherited keys or accept prototype keys', () => {
+        const query = parseQuery('toString=x&hasOwnProperty=1&hasOwnProperty=2&constructor=c&__proto__=p&prototype=q');
+
+        expect(query).toEqual({ toString: 'x', hasOwnProperty: ['1', '2'] });
+        expect(Object.getPrototypeOf(query)).toBe(Object.prototype);
+    });
+});
+
+describe('readRequestBody', () => {
+    const monitoring = { recordMetric: jest.fn() };
+    const res = () => {
+        const headers: Record<string, string> = {};
+        const response: any = {
+            locals: {},
+            headers,
+            set: (name: string, value: string) => { headers[name] = value; return response; },
+            setHeader: (name: string, value: string) => { headers[name] = value; },
+            status: (code: number) => { response.statusCode = code; return response; },
+            json: (body: unknown) => { response.body = body; return response; },
+        };
+        return response;
+    };
+
+    it('should parse a streamed form into req.body', async () => {
+        const req = streamingRequest(['name=Launch&', 'owner=ops'], 'application/x-www-form-urlencoded');
+
+        expect(await readRequestBody(req, res(), undefined, monitoring)).toBeUndefined();
+        expect(req.body).toEqual({ name: 'Launch', owner: 'ops' });
+    });
+
+    it('should answer 413 and close the connection past maxBodyBytes', async () => {
+        const req = streamingRequest(['x'.repeat(64), 'x'.repeat(64)], 'text/plain');
+        const response = res();
+
+        await readRequestBody(req, response, { maxBodyBytes: 100 }, monitoring);
+
+        expect(response.statusCode).toBe(413);
+        expect(response.headers.Connection).toBe('close');
+        expect(monitoring.recordMetric).toHaveBeenCalledWith('request.limit_exceeded', 1, { code: 'PAYLOAD_TOO_LARGE' });
+    });
+});
+
+describe('Handler limits', () => {
+    const echo = (limits = {}) => createPublicHandler({
+        limits,
+        handler: async ({ request }) => ({ body: request.body }),
+    });
+
+    it('should reject form bodies unless the handler accepts them', async () => {
+        const form = { headers: { 'content-type': 'application/x-www-form-urlencoded' }, body: { name: 'x' } };
+
+        const rejected = await invokeHandler(echo(), { method: 'POST', path: '/items', ...form });
+        expect(rejected.status).toBe(415);
+        expect(rejected.body.error.message).toBe('Content-Type must be one of: application/json');
+
+        const accepted = await invokeHandler(
+            echo({ contentTypes: ['application/json', 'application/x-www-form-urlencoded'] }),
+            { method: 'POST', path: '/items', ...form }
+        );
+        expect(accepted.status).toBe(200);
+    });
+
+    it('should enforce body, header and query limits', async () => {
+        const handler = echo({ maxBodyBytes: 10, maxHeaderBytes: 200, maxQueryParams: 2 });
+
+        const tooLarge = await invokeHandler(handler, { method: 'POST', path: '/items', body: { name: 'a long name' } });
+        expect(tooLarge.status).toBe(413);
+
+        const headers = await invokeHandler(handler, { path: '/items', headers: { 'x-padding': 'x'.repeat(300) } });
+        expect(headers.status).toBe(431);
+        expect(headers.body.error.code).toBe('HEADERS_TOO_LARGE');
+
+        const query = await invokeHandler(handler, { path: '/items?a=1&b=2&b=3' });
+        expect(query.status).toBe(400);
+        expect(query.body.error.message).toBe('Too many query parameters (max 2)');
+
+        expect((await invokeHandler(handler, { path: '/items?a=1' })).status).toBe(200);
+    });
+});
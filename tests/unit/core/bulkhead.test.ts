@@ -0,0 +1,117 @@
+/**
+ * Bulkhead & Load Shedding Unit Tests
+ */
+
+import { Bulkhead, LoadShedder } from '../../../src/core/bulkhead';
+import { createPublicHandler } from '../../../src/core/handler';
+import { createTestServices, invokeHandler } from '../../../src/testing';
+
+jest.mock('@prisma/client', () => ({
+    PrismaClient: class PrismaClient { },
+    Prisma: { defineExtension: (extension: unknown) => extension },
+}));
+
+describe('Bulkhead', () => {
+    it('should queue requests over the limit and hand slots over in order', async () => {
+        const bulkhead = new Bulkhead({ maxInFlight: 1, maxQueue: 2 });
+
+        const first = await bulkhead.acquire('k');
+        const second = bulkhead.acquire('k');
+        const third = bulkhead.acquire('k');
+        const fourth = await bulkhead.acquire('k');
+
+        expect(fourth).toEqual({ admitted: false, reason: 'queue_full' });
+        expect(bulkhead.depth('k')).toEqual({ inFlight: 1, queued: 2 });
+
+        if (!first.admitted) throw new Error('first should be admitted');
+        first.release();
+        first.release();
+
+        const admitted = await second;
+        expect(admitted.admitted).toBe(true);
+        expect(bulkhead.depth('k')).toEqual({ inFlight: 1, queued: 1 });
+
+        if (admitted.admitted) admitted.release();
+        const last = await third;
+        if (last.admitted) last.release();
+        expect(bulkhead.depth('k')).toEqual({ inFlight: 0, queued: 0 });
+    });
+
+    it('should give up after the queue timeout or when cancelled', async () => {
+        const bulkhead = new Bulkhead({ maxInFlight: 1, maxQueue: 5, queueTimeoutMs: 20 });
+        await bulkhead.acquire('k');
+
+        const controller = new AbortController();
+        const cancelled = bulkhead.acquire('k', controller.signal);
+        controller.abort();
+
+        expect(await cancelled).toEqual({ admitted: false, reason: 'cancelled' });
+        expect(await bulkhead.acquire('k')).toEqual({ admitted: false, reason: 'queue_timeout' });
+        expect(bulkhead.depth('k').queued).toBe(0);
+        expect(bulkhead.retryAfter).toBe(1);
+    });
+
+    it('should keep separate lanes per key', async () => {
+        const bulkhead = new Bulkhead({ maxInFlight: 1 });
+
+        expect((await bulkhead.acquire('tenant-1')).admitted).toBe(true);
+        expect((await bulkhead.acquire('tenant-2')).admitted).toBe(true);
+        expect((await bulkhead.acquire('tenant-1')).admitted).toBe(false);
+    });
+});
+
+describe('Handler concurrency', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should reject requests over the limit with 503 and Retry-After', async () => {
+        let finish!: () => void;
+        const slow = createPublicHandler({
+            concurrency: { maxInFlight: 1, queueTimeoutMs: 3000 },
+            handler: () => new Promise(resolve => {
+                finish = () => resolve({ done: true });
+            }),
+        });
+        const services = createTestServices();
+
+        const running = invokeHandler(slow, { path: '/reports', services });
+        await new Promise(resolve => setTimeout(resolve, 10));
+        const rejected = await invokeHandler(slow, { path: '/reports', services });
+
+        expect(rejected.status).toBe(503);
+        expect(rejected.body.error.code).toBe('SERVICE_UNAVAILABLE');
+        expect(rejected.headers['retry-after']).toBe('3');
+        expect(rejected.metrics).toContainEqual(expect.objectContaining({
+            name: 'concurrency.rejected',
+            labels: expect.objectContaining({ reason: 'queue_full' }),
+        }));
+
+        finish();
+        expect((await running).status).toBe(200);
+
+        const next = invokeHandler(slow, { path: '/reports', services });
+        await new Promise(resolve => setTimeout(resolve, 10));
+        finish();
+        expect((await next).status).toBe(200);
+    });
+
+    it('should shed low-priority handlers while the event loop lags', async () => {
+        const shedder = LoadShedder.getInstance();
+        const handler = createPublicHandler({
+            priority: 'low',
+            handler: async () => ({ ok: true }),
+        });
+
+        jest.spyOn(shedder, 'getLag').mockReturnValue(500);
+        const shed = await invokeHandler(handler, { path: '/reports' });
+
+        expect(shed.status).toBe(503);
+        expect(shed.headers['retry-after']).toBe('5');
+        expect(shed.metrics.map(metric => metric.name)).toContain('load.shed');
+
+        jest.spyOn(shedder, 'getLag').mockReturnValue(10);
+        expect((await invokeHandler(handler, { path: '/reports' })).status).toBe(200);
+        shedder.stop();
+    });
+});
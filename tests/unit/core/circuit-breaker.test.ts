@@ -0,0 +1,127 @@
+/**
+ * Circuit Breaker Unit Tests
+ */
+
+import {
+    CircuitBreaker,
+    CircuitBreakerRegistry,
+    CircuitOpenError,
+    CircuitStateStore,
+} from '../../../src/core/circuit-breaker';
+import { createPublicHandler } from '../../../src/core/handler';
+import { HealthChecker } from '../../../src/monitoring/health';
+import { createTestServices, invokeHandler } from '../../../src/testing';
+
+jest.mock('@prisma/client', () => ({
+    PrismaClient: class PrismaClient { },
+    Prisma: { defineExtension: (extension: unknown) => extension },
+}));
+
+const fail = () => Promise.reject(new Error('down'));
+const succeed = () => Promise.resolve('ok');
+
+function createStore(): CircuitStateStore & { entries: Map<string, any> } {
+    const entries = new Map<string, any>();
+    return {
+        entries,
+        get: async (key: string) => entries.get(key) ?? null,
+        set: async (key: string, value: unknown) => entries.set(key, value),
+        delete: async (key: string) => entries.delete(key),
+    };
+}
+
+describe('CircuitBreaker', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should open once the failure rate passes the threshold and fail fast', async () => {
+        const breaker = new CircuitBreaker('billing', { minimumRequests: 4, failureThreshold: 0.5 });
+
+        await breaker.exec(succeed);
+        await breaker.exec(succeed);
+        await expect(breaker.exec(fail)).rejects.toThrow('down');
+        expect(breaker.getState()).toBe('closed');
+        await expect(breaker.exec(fail)).rejects.toThrow('down');
+
+        expect(breaker.getState()).toBe('open');
+        const calls = jest.fn(succeed);
+        await expect(breaker.exec(calls)).rejects.toBeInstanceOf(CircuitOpenError);
+        expect(await breaker.exec(calls, error => error instanceof CircuitOpenError && 'fallback')).toBe('fallback');
+        expect(calls).not.toHaveBeenCalled();
+    });
+
+    it('should let a trial call through after the reset timeout', async () => {
+        jest.useFakeTimers({ now: 0 });
+        const breaker = new CircuitBreaker('search', { minimumRequests: 1, resetTimeoutMs: 1000 });
+
+        await expect(breaker.exec(fail)).rejects.toThrow();
+        jest.setSystemTime(1000);
+        expect(breaker.getState()).toBe('half_open');
+
+        await expect(breaker.exec(fail)).rejects.toThrow('down');
+        expect(breaker.getState()).toBe('open');
+
+        jest.setSystemTime(2000);
+        expect(await breaker.exec(succeed)).toBe('ok');
+        expect(breaker.getStats()).toMatchObject({ state: 'closed', calls: 0 });
+    });
+
+    it('should ignore errors that do not count as failures', async () => {
+        const breaker = new CircuitBreaker('users', {
+            minimumRequests: 1,
+            isFailure: error => (error as Error).message !== 'not found',
+        });
+
+        await expect(breaker.exec(() => Promise.reject(new Error('not found')))).rejects.toThrow();
+        expect(breaker.getStats()).toMatchObject({ state: 'closed', calls: 1, failures: 0 });
+    });
+
+    it('should share open breakers through the store', async () => {
+        const store = createStore();
+        const first = new CircuitBreaker('payments', { minimumRequests: 1 }, { store });
+        const second = new CircuitBreaker('payments', { minimumRequests: 1 }, { store });
+
+        await expect(first.exec(fail)).rejects.toThrow();
+        await new Promise(resolve => setImmediate(resolve));
+        expect(store.entries.has('circuit:payments')).toBe(true);
+
+        await expect(second.exec(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+        expect(second.getState()).toBe('open');
+
+        first.reset();
+        await new Promise(resolve => setImmediate(resolve));
+        expect(store.entries.size).toBe(0);
+    });
+});
+
+describe('ctx.breaker', () => {
+    afterEach(() => {
+        CircuitBreakerRegistry.getInstance().clear();
+    });
+
+    it('should audit state changes and report open breakers as degraded', async () => {
+        const handler = createPublicHandler({
+            handler: async ({ breaker }) => breaker('inventory', { minimumRequests: 1 }).exec(
+                () => Promise.reject(new Error('timeout')),
+                () => ({ stock: 'unknown' })
+            ),
+        });
+        const services = createTestServices();
+
+        const result = await invokeHandler(handler, { path: '/stock', services });
+
+        expect(result.status).toBe(200);
+        expect(result.body.data).toEqual({ stock: 'unknown' });
+        expect(result.auditEvents).toContainEqual(expect.objectContaining({
+            eventType: 'SYSTEM',
+            category: 'SYSTEM',
+            action: 'circuit_breaker.open',
+            metadata: expect.objectContaining({ breaker: 'inventory', from: 'closed', to: 'open' }),
+        }));
+
+        const health = await HealthChecker.getInstance().runCheck('circuit_breakers');
+        expect(health).toMatchObject({ status: 'degraded', message: 'Open circuit breakers: inventory' });
+        expect((await HealthChecker.getInstance().getOverallHealth()).status).toBe('degraded');
+    });
+});
@@ -0,0 +1,32 @@
+/**
+ * Conditional Requests Unit Tests
+ */
+
+import { computeETag, stableStringify } from '../../../src/core/conditional';
+
+describe('Conditional Requests', () => {
+    describe('computeETag', () => {
+        it.each([
+            ['numbers and numeric strings', { a: 1 }, { a: '1' }],
+            ['different dates', new Date(1), new Date(2)],
+            ['strings containing quotes and separators', { a: 'x,"b":y' }, { a: 'x', b: 'y' }],
+            ['null and the empty string', null, ''],
+            ['booleans and their names', [true], ['true']],
+        ])('should tell apart %s', (_case, left, right) => {
+            expect(computeETag(left)).not.toBe(computeETag(right));
+        });
+
+        it('should not depend on key order', () => {
+            expect(computeETag({ a: 1, b: [1, 2] })).toBe(computeETag({ b: [1, 2], a: 1 }));
+        });
+    });
+
+    describe('stableStringify', () => {
+        it('should produce the JSON a response sends, with sorted keys', () => {
+            const value = { when: new Date(0), name: 'a"b', skipped: undefined, tags: [undefined, 1] };
+
+            expect(stableStringify(value)).toBe('{"name":"a\\"b","tags":[null,1],"when":"1970-01-01T00:00:00.000Z"}');
+            expect(JSON.parse(stableStringify(value))).toEqual(JSON.parse(JSON.stringify(value)));
+        });
+    });
+});
@@ -0,0 +1,42 @@
+/**
+ * HTTP Error Unit Tests
+ */
+
+import * as errors from '../../../src/core/errors';
+import { ERROR_STATUS_CODES, HttpError } from '../../../src/core/errors';
+import { ErrorCode } from '../../../src/core/types';
+
+const ERROR_CLASSES: Record<ErrorCode, new (message?: string) => HttpError> = {
+    VALIDATION_ERROR: errors.ValidationError,
+    BAD_REQUEST: errors.BadRequestError,
+    AUTHENTICATION_ERROR: errors.UnauthorizedError,
+    AUTHORIZATION_ERROR: errors.ForbiddenError,
+    RESOURCE_FORBIDDEN: errors.ResourceForbiddenError,
+    RESOURCE_NOT_FOUND: errors.NotFoundError,
+    NOT_ACCEPTABLE: errors.NotAcceptableError,
+    REQUEST_TIMEOUT: errors.RequestTimeoutError,
+    CONFLICT: errors.ConflictError,
+    PRECONDITION_FAILED: errors.PreconditionFailedError,
+    PAYLOAD_TOO_LARGE: errors.PayloadTooLargeError,
+    UNSUPPORTED_MEDIA_TYPE: errors.UnsupportedMediaTypeError,
+    UNPROCESSABLE_ENTITY: errors.UnprocessableEntityError,
+    PRECONDITION_REQUIRED: errors.PreconditionRequiredError,
+    HEADERS_TOO_LARGE: errors.HeadersTooLargeError,
+    RATE_LIMIT_EXCEEDED: errors.RateLimitError,
+    INTERNAL_ERROR: errors.InternalServerError,
+    SERVICE_UNAVAILABLE: errors.ServiceUnavailableError,
+};
+
+describe('HTTP errors', () => {
+    it('should have a class for every error code', () => {
+        expect(Object.keys(ERROR_CLASSES).sort()).toEqual(Object.keys(ERROR_STATUS_CODES).sort());
+    });
+
+    it.each(Object.entries(ERROR_CLASSES))('%s should carry its code and status', (code, ErrorClass) => {
+        const error = new ErrorClass();
+
+        expect(error).toBeInstanceOf(HttpError);
+        expect(error.code).toBe(code);
+        expect(error.statusCode).toBe(ERROR_STATUS_CODES[code as ErrorCode]);
+    });
+});
@@ -0,0 +1,121 @@
+/**
+ * Framework Events Unit Tests
+ */
+
+import { FrameworkEvent } from '../../../src/core/types';
+import { FrameworkEvents } from '../../../src/core/events';
+import { createAuthenticatedHandler } from '../../../src/core/handler';
+import { createTestServices, invokeHandler } from '../../../src/testing';
+
+jest.mock('@prisma/client', () => ({
+    PrismaClient: class PrismaClient { },
+    Prisma: { defineExtension: (extension: unknown) => extension },
+}));
+
+describe('FrameworkEvents', () => {
+    const events = FrameworkEvents.getInstance();
+
+    afterEach(() => {
+        events.clear();
+        jest.restoreAllMocks();
+    });
+
+    it('should deliver typed events to subscribers of the type and of all events', () => {
+        const hits: string[] = [];
+        const all: string[] = [];
+        events.on('cache:hit', event => {
+            hits.push(event.data.key);
+        });
+        events.on('*', event => {
+            all.push(event.type);
+        });
+
+        events.emit('cache:hit', { key: 'k1' });
+        events.emit('cache:miss', { key: 'k2' });
+
+        expect(hits).toEqual(['k1']);
+        expect(all).toEqual(['cache:hit', 'cache:miss']);
+        expect(events.listenerCount('cache:hit')).toBe(2);
+    });
+
+    it('should stop delivering once unsubscribed', () => {
+        const listener = jest.fn();
+        const unsubscribe = events.on('auth:failure', listener);
+
+        unsubscribe();
+        events.emit('auth:failure', { strategies: ['jwt'], method: 'GET', path: '/' });
+
+        expect(listener).not.toHaveBeenCalled();
+        expect(events.listenerCount('auth:failure')).toBe(0);
+    });
+
+    it('should contain thrown and rejected subscriber errors', async () => {
+        const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+        const after = jest.fn();
+        events.on('cache:miss', () => {
+            throw new Error('boom');
+        });
+        events.on('cache:miss', async () => {
+            throw new Error('later');
+        });
+        events.on('cache:miss', after);
+
+        expect(() => events.emit('cache:miss', { key: 'k' })).not.toThrow();
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(after).toHaveBeenCalled();
+        expect(errorSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should run async subscribers after the publisher has moved on', async () => {
+        const order: string[] = [];
+        events.on('cache:hit', () => {
+            order.push('async');
+        }, { async: true });
+
+        events.emit('cache:hit', { key: 'k' });
+        order.push('publisher');
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(order).toEqual(['publisher', 'async']);
+    });
+
+    it('should be published by the handler pipeline', async () => {
+        const received: FrameworkEvent[] = [];
+        events.on('*', event => {
+            received.push(event);
+        });
+
+        const handler = createAuthenticatedHandler({
+            rateLimit: { maxRequests: 1, windowMs: 60000 },
+            handler: async () => ({ ok: true }),
+        });
+        const services = createTestServices();
+        const user = { id: 'user-1', email: 'ada@example.com', role: 'user' };
+
+        const first = await invokeHandler(handler, { path: '/things', user, services });
+        await invokeHandler(handler, { path: '/things', user, services });
+        await invokeHandler(handler, { path: '/things', services });
+
+        expect(received.map(event => event.type)).toEqual([
+            'handler:start',
+            'auth:success',
+            'sanitization:applied',
+            'encryption:applied',
+            'handler:complete',
+            'handler:start',
+            'auth:success',
+            'rate_limit:exceeded',
+            'handler:complete',
+            'handler:start',
+            'auth:failure',
+            'handler:complete',
+        ]);
+
+        const complete = received[4] as FrameworkEvent<'handler:complete'>;
+        expect(complete.data).toMatchObject({ method: 'GET', path: '/things', statusCode: 200 });
+        expect(complete.requestId).toBe(first.headers['x-request-id']);
+        expect(complete.context?.user?.id).toBe('user-1');
+        expect((received[11] as FrameworkEvent<'handler:complete'>).data.statusCode).toBe(401);
+    });
+});
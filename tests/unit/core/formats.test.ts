@@ -0,0 +1,121 @@
+/**
+ * Response Format Unit Tests
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { encodeMsgpack, negotiateFormat, setResponseFormat, toCsv, toNdjson } from '../../../src/core/formats';
+import { successResponse } from '../../../src/core/response';
+import { ResponseFormat } from '../../../src/core/types';
+
+describe('Response Formats', () => {
+    describe('negotiation', () => {
+        const rows = [{ id: 1, title: 'Ship, "v2"' }];
+
+        const createApp = (produces: ResponseFormat[]) => {
+            const app = express();
+            app.get('/report', (req, res) => {
+                const format = negotiateFormat(req, produces);
+                if (!format) {
+                    return res.status(406).end();
+                }
+                setResponseFormat(res, format);
+                return successResponse(res, rows, undefined, 200, { executionTime: 5 });
+            });
+            return app;
+        };
+
+        it('should default to the first declared format', async () => {
+            const response = await request(createApp(['json', 'csv'])).get('/report');
+
+            expect(response.headers['content-type']).toMatch(/^application\/json/);
+            expect(response.body.data).toEqual(rows);
+        });
+
+        it('should pick the format from Accept and move meta to headers', async () => {
+            const response = await request(createApp(['json', 'csv']))
+                .get('/report')
+                .set('Accept', 'text/csv, application/json;q=0.5');
+
+            expect(response.headers['content-type']).toBe('text/csv; charset=utf-8');
+            expect(response.headers['x-request-id']).toBeDefined();
+            expect(response.headers['x-execution-time']).toBe('5');
+            expect(response.text).toBe('id,title\r\n1,"Ship, ""v2"""\r\n');
+        });
+
+        it('should let ?format= override Accept', async () => {
+            const response = await request(createApp(['json', 'ndjson']))
+                .get('/report?format=ndjson')
+                .set('Accept', 'application/json');
+
+            expect(response.headers['content-type']).toMatch(/^application\/x-ndjson/);
+            expect(response.text).toBe('{"id":1,"title":"Ship, \\"v2\\""}\n');
+        });
+
+        it('should accept legacy MessagePack media types', async () => {
+            const response = await request(createApp(['json', 'msgpack']))
+                .get('/report')
+                .set('Accept', 'application/x-msgpack')
+                .buffer(true)
+                .parse((res, callback) => {
+                    const chunks: Buffer[] = [];
+                    res.on('data', (chunk: Buffer) => chunks.push(chunk));
+                    res.on('end', () => callback(null, Buffer.concat(chunks)));
+                });
+
+            expect(response.headers['content-type']).toMatch(/^application\/msgpack/);
+            expect(response.body).toEqual(encodeMsgpack(rows));
+        });
+
+        it('should refuse formats the handler does not produce', async () => {
+            expect((await request(createApp(['json'])).get('/report?format=csv')).status).toBe(406);
+            expect((await request(createApp(['json'])).get('/report').set('Accept', 'text/csv')).status).toBe(406);
+        });
+    });
+
+    describe('toCsv', () => {
+        it('should flatten nested objects and union columns across rows', () => {
+            const csv = toCsv([
+                { id: 1, owner: { email: 'ada@example.com' }, tags: ['a', 'b'] },
+                { id: 2, due: new Date('2024-01-02T00:00:00.000Z'), note: 'line 1\nline 2' },
+            ]);
+
+            expect(csv).toBe([
+                'id,owner.email,tags,due,note',
+                '1,ada@example.com,"[""a"",""b""]",,',
+                '2,,,2024-01-02T00:00:00.000Z,"line 1\nline 2"',
+                '',
+            ].join('\r\n'));
+        });
+
+        it('should neutralize spreadsheet formulas in strings', () => {
+            expect(toCsv([{ name: '=HYPERLINK("x")', delta: -5 }])).toBe('name,delta\r\n"\'=HYPERLINK(""x"")",-5\r\n');
+        });
+    });
+
+    describe('toNdjson', () => {
+        it('should write one line per item', () => {
+            expect(toNdjson([{ a: 1 }, { a: 2 }])).toBe('{"a":1}\n{"a":2}\n');
+            expect(toNdjson({ a: 1 })).toBe('{"a":1}\n');
+        });
+    });
+
+    describe('encodeMsgpack', () => {
+        it('should encode scalars, strings, arrays and maps', () => {
+            expect(encodeMsgpack({ a: [1, -1, true, null], b: 'hi' })).toEqual(Buffer.from([
+                0x82,
+                0xa1, 0x61, 0x94, 0x01, 0xff, 0xc3, 0xc0,
+                0xa1, 0x62, 0xa2, 0x68, 0x69,
+            ]));
+            expect(encodeMsgpack(300)).toEqual(Buffer.from([0xcd, 0x01, 0x2c]));
+            expect(encodeMsgpack(-200)).toEqual(Buffer.from([0xd1, 0xff, 0x38]));
+            expect(encodeMsgpack(1.5)).toEqual(Buffer.from([0xcb, 0x3f, 0xf8, 0, 0, 0, 0, 0, 0]));
+            expect(encodeMsgpack('x'.repeat(40)).subarray(0, 2)).toEqual(Buffer.from([0xd9, 40]));
+        });
+
+        it('should send Dates as ISO strings and drop undefined properties', () => {
+            expect(encodeMsgpack({ at: new Date(0), skip: undefined }))
+                .toEqual(encodeMsgpack({ at: '1970-01-01T00:00:00.000Z' }));
+        });
+    });
+});
@@ -13,6 +13,9 @@ import {
     createSuperAdminHandler,
     createTenantHandler
 } from '../../../src/core/handler';
+import { ConflictError, ServiceUnavailableError } from '../../../src/core/errors';
+import { BATCH_AUTHENTICATED_USER } from '../../../src/core/pipeline';
+import { computeETag } from '../../../src/core/conditional';
 
 // Mock all external dependencies
 jest.mock('../../../src/core/service-initializer');
@@ -112,6 +115,7 @@ describe('Tenet Handler System', () => {
         // Mock RedisRateLimiter
         const { RedisRateLimiter } = require('../../../src/security/rate-limiting');
         RedisRateLimiter.getInstance = jest.fn().mockReturnValue({
+            checkLimit: jest.fn().mockResolvedValue(true),
             getLimitInfo: jest.fn().mockResolvedValue({
                 allowed: true,
                 remaining: 100,
@@ -226,6 +230,37 @@ describe('Tenet Handler System', () => {
             }));
         });
 
+        it('should reuse the user authenticated for a batch', async () => {
+            req[BATCH_AUTHENTICATED_USER] = mockUser({ id: 'batch-user', metadata: { authStrategy: 'jwt' } });
+
+            const handler = createAuthenticatedHandler({
+                handler: async ({ user }) => ({ userId: user!.id }),
+            }, mockPrisma);
+
+            await handler(req, res);
+
+            const { AuthManager } = require('../../../src/auth/manager');
+            expect(AuthManager.getInstance().authenticate).not.toHaveBeenCalled();
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                data: { userId: 'batch-user' }
+            }));
+        });
+
+        it('should refuse a batch user authenticated by a strategy the handler does not accept', async () => {
+            req[BATCH_AUTHENTICATED_USER] = mockUser({ id: 'batch-user', metadata: { authStrategy: 'jwt' } });
+            const handlerFn = jest.fn();
+
+            const handler = createAuthenticatedHandler({
+                authStrategies: ['api_key'],
+                handler: handlerFn,
+            }, mockPrisma);
+
+            await handler(req, res);
+
+            expect(handlerFn).not.toHaveBeenCalled();
+            expect(res.status).toHaveBeenCalledWith(401);
+        });
+
         it('should enforce role checks when configured', async () => {
             req.user = mockUser({ role: 'user' });
 
@@ -361,4 +396,508 @@ describe('Tenet Handler System', () => {
             });
         });
     });
+
+    describe('6. Lifecycle Hooks', () => {
+        afterEach(() => {
+            const { HookRegistry } = require('../../../src/core/hooks');
+            HookRegistry.getInstance().clear();
+        });
+
+        it('should short-circuit with the ApiResponse returned by a beforeAuth hook', async () => {
+            const handlerFn = jest.fn();
+            const handler = createAuthenticatedHandler({
+                hooks: {
+                    beforeAuth: [async () => ({
+                        success: false,
+                        error: { code: 'SERVICE_UNAVAILABLE', message: 'Maintenance window' },
+                    })],
+                },
+                handler: handlerFn,
+            }, mockPrisma);
+
+            await handler(req, res);
+
+            expect(handlerFn).not.toHaveBeenCalled();
+            expect(res.status).toHaveBeenCalledWith(503);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                success: false,
+                error: expect.objectContaining({ message: 'Maintenance window' }),
+            }));
+        });
+
+        it('should let afterValidation hooks enrich the user', async () => {
+            req.user = mockUser();
+
+            const handler = createAuthenticatedHandler({
+                hooks: {
+                    afterValidation: [async (ctx) => {
+                        ctx.user = { ...ctx.user!, metadata: { plan: 'pro' } };
+                    }],
+                },
+                handler: async ({ user }) => ({ plan: user!.metadata?.plan }),
+            }, mockPrisma);
+
+            await handler(req, res);
+
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                data: { plan: 'pro' },
+            }));
+        });
+
+        it('should run global hooks before handler hooks', async () => {
+            const { HookRegistry } = require('../../../src/core/hooks');
+            const order: string[] = [];
+
+            HookRegistry.getInstance().register('beforeResponse', async () => { order.push('global'); });
+
+            const handler = createPublicHandler({
+                hooks: {
+                    beforeResponse: [async (ctx) => {
+                        order.push('handler');
+                        ctx.result = { rewritten: true };
+                    }],
+                },
+                handler: async () => ({ rewritten: false }),
+            }, mockPrisma);
+
+            await handler(req, res);
+
+            expect(order).toEqual(['global', 'handler']);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                data: { rewritten: true },
+            }));
+        });
+
+        it('should let onError hooks replace the error response', async () => {
+            const handler = createPublicHandler({
+                hooks: {
+                    onError: [async ({ error }) => ({
+                        success: false,
+                        error: { code: 'BAD_REQUEST', message: (error as Error).message },
+                    })],
+                },
+                handler: async () => { throw new Error('Upstream rejected payload'); },
+            }, mockPrisma);
+
+            await handler(req, res);
+
+            expect(res.status).toHaveBeenCalledWith(400);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                error: expect.objectContaining({ message: 'Upstream rejected payload' }),
+            }));
+        });
+    });
+
+    describe('7. Output Schema Validation', () => {
+        const userRow = { id: 'u1', email: 'a@example.com', password: 'hash' };
+        const outputSchema = z.object({ id: z.string(), email: z.string() });
+        const originalEnv = process.env.NODE_ENV;
+
+        afterEach(() => {
+            process.env.NODE_ENV = originalEnv;
+        });
+
+        it('should strip keys the outputSchema does not declare', async () => {
+            const handler = createPublicHandler({
+                outputSchema,
+                handler: async () => userRow,
+            }, mockPrisma);
+
+            await handler(req, res);
+
+            expect(res.status).toHaveBeenCalledWith(200);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                data: { id: 'u1', email: 'a@example.com' },
+            }));
+        });
+
+        it('should return a generic INTERNAL_ERROR on mismatch in production', async () => {
+            process.env.NODE_ENV = 'production';
+
+            const handler = createPublicHandler({
+                outputSchema,
+                handler: async () => ({ id: 42 } as any),
+            }, mockPrisma);
+
+            await handler(req, res);
+
+            expect(res.status).toHaveBeenCalledWith(500);
+            const body = res.json.mock.calls[0][0];
+            expect(body.error.code).toBe('INTERNAL_ERROR');
+            expect(body.error.details).toBeUndefined();
+        });
+
+        it('should include the mismatch details in development', async () => {
+            process.env.NODE_ENV = 'development';
+
+            const handler = createPublicHandler({
+                outputSchema,
+                handler: async () => ({ id: 42 } as any),
+            }, mockPrisma);
+
+            await handler(req, res);
+
+            expect(res.status).toHaveBeenCalledWith(500);
+            expect(res.json.mock.calls[0][0].error.details.issues).toEqual(expect.arrayContaining([
+                expect.objectContaining({ path: 'id', code: 'invalid_type' }),
+                expect.objectContaining({ path: 'email', code: 'invalid_type' }),
+            ]));
+        });
+
+        it('should send what a transforming outputSchema parses to', async () => {
+            const handler = createPublicHandler({
+                outputSchema: z.object({ createdAt: z.date() }).transform(row => ({ createdAt: row.createdAt.toISOString() })),
+                handler: async () => ({ createdAt: new Date('2026-01-02T03:04:05.000Z') }),
+            }, mockPrisma);
+
+            await handler(req, res);
+
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                data: { createdAt: '2026-01-02T03:04:05.000Z' },
+            }));
+        });
+    });
+
+    describe('8. File Uploads', () => {
+        it('should refuse multipart bodies when no upload config is set', async () => {
+            req.method = 'POST';
+            req.headers['content-type'] = 'multipart/form-data; boundary=x';
+
+            const handlerFn = jest.fn();
+            const handler = createPublicHandler({ handler: handlerFn }, mockPrisma);
+
+            await handler(req, res);
+
+            expect(handlerFn).not.toHaveBeenCalled();
+            expect(res.status).toHaveBeenCalledWith(415);
+        });
+
+        it('should require a multipart body when an upload field is required', async () => {
+            req.method = 'POST';
+            req.headers['content-type'] = 'application/json';
+
+            const handler = createPublicHandler({
+                upload: { fields: { avatar: { required: true } } },
+                handler: async () => ({ ok: true }),
+            }, mockPrisma);
+
+            await handler(req, res);
+
+            expect(res.status).toHaveBeenCalledWith(400);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                error: expect.objectContaining({ message: 'Missing required file: avatar' }),
+            }));
+        });
+    });
+
+    describe('9. Cancellation', () => {
+        it('should abort ctx.signal and audit REQUEST_TIMEOUT when the handler times out', async () => {
+            let signal!: AbortSignal;
+
+            const handler = createPublicHandler({
+                timeout: 20,
+                handler: (ctx) => {
+                    signal = ctx.signal;
+                    return new Promise(() => { });
+                },
+            }, mockPrisma);
+
+            await handler(req, res);
+
+            expect(signal.aborted).toBe(true);
+            expect(res.status).toHaveBeenCalledWith(408);
+
+            const { ServiceInitializer } = require('../../../src/core/service-initializer');
+            expect(ServiceInitializer.getServices().auditService.logEvent).toHaveBeenCalledWith(
+                expect.objectContaining({ status: 'REQUEST_TIMEOUT', statusCode: 408 }),
+                expect.anything()
+            );
+        });
+
+        it('should stop without responding when the client disconnects', async () => {
+            const handler = createPublicHandler({
+                handler: async () => {
+                    // Simulate the socket closing mid-request
+                    const [, onClose] = res.on.mock.calls.find(([event]: [string]) => event === 'close');
+                    onClose();
+                    return { late: true };
+                },
+            }, mockPrisma);
+
+            await handler(req, res);
+
+            expect(res.status).not.toHaveBeenCalled();
+            const { ServiceInitializer } = require('../../../src/core/service-initializer');
+            expect(ServiceInitializer.getServices().auditService.logEvent).toHaveBeenCalledWith(
+                expect.objectContaining({ status: 'CLIENT_CLOSED' }),
+                expect.anything()
+            );
+        });
+
+        it('should roll back transactions once the request is aborted', async () => {
+            const handler = createPublicHandler({
+                timeout: 20,
+                handler: async ({ transaction }) => transaction(async () => {
+                    await new Promise(resolve => setTimeout(resolve, 50));
+                    return { committed: true };
+                }),
+            }, mockPrisma);
+
+            await handler(req, res);
+
+            expect(res.status).toHaveBeenCalledWith(408);
+            await new Promise(resolve => setTimeout(resolve, 60));
+            await expect(mockPrisma.$transaction.mock.results[0].value).rejects.toBeInstanceOf(Error);
+        });
+    });
+
+    describe('10. Typed Errors', () => {
+        it('should map a thrown HttpError to its status and code', async () => {
+            const handler = createPublicHandler({
+                handler: async () => {
+                    throw new ConflictError('Slug already taken', { details: { field: 'slug' } });
+                },
+            }, mockPrisma);
+
+            await handler(req, res);
+
+            expect(res.status).toHaveBeenCalledWith(409);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                error: expect.objectContaining({
+                    code: 'CONFLICT',
+                    message: 'Slug already taken',
+                    details: { field: 'slug' },
+                }),
+            }));
+
+            const { ServiceInitializer } = require('../../../src/core/service-initializer');
+            expect(ServiceInitializer.getServices().auditService.logEvent).toHaveBeenCalledWith(
+                expect.objectContaining({ status: 'FAILURE', statusCode: 409, severity: 'WARNING' }),
+                expect.anything()
+            );
+        });
+
+        it('should not expose the message of a 5xx HttpError', async () => {
+            const handler = createPublicHandler({
+                handler: async () => {
+                    throw new ServiceUnavailableError('Replica db-3 unreachable');
+                },
+            }, mockPrisma);
+
+            await handler(req, res);
+
+            expect(res.status).toHaveBeenCalledWith(503);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                error: expect.objectContaining({
+                    code: 'SERVICE_UNAVAILABLE',
+                    message: 'Service temporarily unavailable',
+                }),
+            }));
+        });
+
+        it('should render problem details when the handler sets errorFormat', async () => {
+            const handler = createPublicHandler({
+                errorFormat: 'problem',
+                handler: async () => {
+                    throw new ConflictError('Slug already taken');
+                },
+            }, mockPrisma);
+
+            await handler(req, res);
+
+            expect(res.set).toHaveBeenCalledWith('Content-Type', 'application/problem+json');
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                type: '/problems/conflict',
+                status: 409,
+                detail: 'Slug already taken',
+            }));
+        });
+    });
+
+    describe('11. Conditional Requests', () => {
+        it('should send an ETag and answer a matching If-None-Match with 304', async () => {
+            const handler = createPublicHandler({
+                handler: async () => ({ id: 'task-1', title: 'Ship' }),
+            }, mockPrisma);
+
+            await handler(req, res);
+
+            const etag = computeETag({ id: 'task-1', title: 'Ship' });
+            expect(res.set).toHaveBeenCalledWith('ETag', etag);
+            expect(res.status).toHaveBeenCalledWith(200);
+
+            const conditionalRes: any = mockResponse();
+            await handler(mockRequest({ headers: { 'if-none-match': `W/${etag}` } }) as any, conditionalRes);
+
+            expect(conditionalRes.status).toHaveBeenCalledWith(304);
+            expect(conditionalRes.end).toHaveBeenCalled();
+            expect(conditionalRes.json).not.toHaveBeenCalled();
+        });
+
+        describe('If-Match', () => {
+            const row = { id: 'user-123', name: 'Ada' };
+
+            beforeEach(() => {
+                req.user = mockUser();
+                req.method = 'PUT';
+                req.params = { id: 'user-123' };
+                mockPrisma.user.findFirst.mockResolvedValue(row);
+            });
+
+            const createUpdateHandler = (config: Record<string, any> = {}) => createAuthenticatedHandler({
+                csrfProtection: false,
+                requireOwnership: { model: 'user', resourceIdParam: 'id' },
+                handler: async () => ({ updated: true }),
+                ...config,
+            }, mockPrisma);
+
+            it('should reject a stale If-Match with 412', async () => {
+                req.headers['if-match'] = '"stale"';
+
+                await createUpdateHandler()(req, res);
+
+                expect(res.status).toHaveBeenCalledWith(412);
+                expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                    error: expect.objectContaining({ code: 'PRECONDITION_FAILED' }),
+                }));
+            });
+
+            it('should run the handler when If-Match is current', async () => {
+                req.headers['if-match'] = computeETag(row);
+
+                await createUpdateHandler()(req, res);
+
+                expect(res.status).toHaveBeenCalledWith(200);
+            });
+
+            it('should accept the ETag a GET sent for the resource', async () => {
+                mockPrisma.user.findFirst.mockResolvedValue({ ...row, passwordHash: 'hash' });
+                const outputSchema = z.object({ id: z.string(), name: z.string() });
+                const getRes: any = mockResponse();
+
+                await createAuthenticatedHandler({
+                    outputSchema,
+                    requireOwnership: { model: 'user', resourceIdParam: 'id' },
+                    handler: async ({ resource }) => resource,
+                }, mockPrisma)(mockRequest({ user: mockUser(), params: { id: 'user-123' } }) as any, getRes);
+
+                const etag = getRes.set.mock.calls.find(([name]: [string]) => name === 'ETag')[1];
+                req.headers['if-match'] = etag;
+
+                await createUpdateHandler({ outputSchema, handler: async ({ resource }: any) => resource })(req, res);
+
+                expect(res.status).toHaveBeenCalledWith(200);
+            });
+
+            it('should require If-Match when requirePrecondition is set', async () => {
+                await createUpdateHandler({ requirePrecondition: true })(req, res);
+
+                expect(res.status).toHaveBeenCalledWith(428);
+            });
+        });
+    });
+
+    describe('12. Pagination', () => {
+        it('should add meta.pagination and a Link header', async () => {
+            mockPrisma.user.findMany.mockResolvedValue([{ id: 'c' }, { id: 'b' }, { id: 'a' }]);
+            req.query = { limit: '2' };
+            req.originalUrl = '/test?limit=2';
+
+            const handler = createPublicHandler({
+                paginate: {},
+                handler: async (ctx) => ctx.paginate(mockPrisma.user),
+            }, mockPrisma);
+
+            await handler(req, res);
+
+            expect(mockPrisma.user.findMany).toHaveBeenCalledWith({ orderBy: [{ id: 'desc' }], take: 3 });
+            expect(res.set).toHaveBeenCalledWith('Link', expect.stringMatching(/^<\/test\?limit=2&cursor=[^>]+>; rel="next"$/));
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                data: [{ id: 'c' }, { id: 'b' }],
+                meta: expect.objectContaining({
+                    pagination: expect.objectContaining({ mode: 'cursor', limit: 2, hasMore: true }),
+                }),
+            }));
+        });
+    });
+
+    describe('13. Field Selection', () => {
+        const createListHandler = () => createPublicHandler({
+            selection: { fields: ['id', 'title'], expand: ['owner'] },
+            handler: async () => [{ id: 't1', title: 'Ship', internal: 'x', owner: { name: 'Ada' } }],
+        }, mockPrisma);
+
+        it('should project the result onto the requested fields', async () => {
+            req.query = { fields: 'id,title' };
+
+            await createListHandler()(req, res);
+
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ data: [{ id: 't1', title: 'Ship' }] }));
+        });
+
+        it('should reject relations that are not allowlisted', async () => {
+            const handler = jest.fn();
+            req.query = { expand: 'owner,secrets' };
+
+            await createPublicHandler({ selection: { expand: ['owner'] }, handler }, mockPrisma)(req, res);
+
+            expect(handler).not.toHaveBeenCalled();
+            expect(res.status).toHaveBeenCalledWith(400);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                error: expect.objectContaining({ code: 'BAD_REQUEST', details: { parameter: 'expand', names: ['secrets'] } }),
+            }));
+        });
+    });
+
+    describe('14. Response Formats', () => {
+        it('should answer 406 before running the handler when no format is acceptable', async () => {
+            const handler = jest.fn();
+            req.headers.accept = 'application/xml';
+            req.accepts = jest.fn().mockReturnValue(false);
+
+            await createPublicHandler({ produces: ['json', 'csv'], handler }, mockPrisma)(req, res);
+
+            expect(handler).not.toHaveBeenCalled();
+            expect(res.vary).toHaveBeenCalledWith('Accept');
+            expect(res.status).toHaveBeenCalledWith(406);
+        });
+
+        it('should send the negotiated format without the envelope', async () => {
+            req.query = { format: 'csv' };
+
+            await createPublicHandler({
+                produces: ['json', 'csv'],
+                handler: async () => [{ id: 't1', title: 'Ship' }],
+            }, mockPrisma)(req, res);
+
+            expect(res.type).toHaveBeenCalledWith('text/csv; charset=utf-8');
+            expect(res.send).toHaveBeenCalledWith('id,title\r\nt1,Ship\r\n');
+            expect(res.json).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('15. Request IDs', () => {
+        it('should use one id for the header, meta, spans and handler code', async () => {
+            const { ServiceInitializer } = require('../../../src/core/service-initializer');
+            const { monitoring } = ServiceInitializer.getServices();
+            const { getRequestId } = require('../../../src/core/request-context');
+            let seen: string | undefined;
+            req.headers['x-request-id'] = 'edge-123';
+
+            await createPublicHandler({
+                monitoring: { enableTracing: true },
+                handler: async () => {
+                    seen = getRequestId();
+                    return { ok: true };
+                },
+            }, mockPrisma)(req, res);
+
+            expect(seen).toBe('edge-123');
+            expect(res.set).toHaveBeenCalledWith('X-Request-Id', 'edge-123');
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                meta: expect.objectContaining({ requestId: 'edge-123' }),
+            }));
+            expect(monitoring.startSpan).toHaveBeenCalledWith('handler', expect.objectContaining({ request_id: 'edge-123' }));
+        });
+    });
 });
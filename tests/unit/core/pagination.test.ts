@@ -0,0 +1,123 @@
+/**
+ * Pagination Unit Tests
+ */
+
+import { createPaginator, buildLinkHeader } from '../../../src/core/pagination';
+import { BadRequestError } from '../../../src/core/errors';
+import { mockRequest } from '../../utils/test-helpers';
+
+const rows = Array.from({ length: 5 }, (_, i) => ({
+    id: `task-${i + 1}`,
+    createdAt: new Date(Date.UTC(2024, 0, i + 1)),
+}));
+
+/**
+ * In-memory delegate that honours the keyset queries the paginator builds
+ */
+const createDelegate = () => {
+    const compare = (a: any, b: any) => (a < b ? -1 : a > b ? 1 : 0);
+    const test = (row: any, where: any): boolean => {
+        if (!where) return true;
+        if (where.AND) return where.AND.every((clause: any) => test(row, clause));
+        if (where.OR) return where.OR.some((clause: any) => test(row, clause));
+        return Object.entries(where).every(([field, condition]: [string, any]) => {
+            if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+                if ('gt' in condition) return compare(row[field], condition.gt) > 0;
+                if ('lt' in condition) return compare(row[field], condition.lt) < 0;
+            }
+            return compare(row[field], condition) === 0;
+        });
+    };
+
+    return {
+        findMany: jest.fn(async (args: any) => {
+            const sorted = rows.filter(row => test(row, args.where)).sort((a: any, b: any) => {
+                for (const order of args.orderBy) {
+                    const [field, direction] = Object.entries(order)[0] as [string, string];
+                    const result = compare(a[field], b[field]);
+                    if (result !== 0) return direction === 'asc' ? result : -result;
+                }
+                return 0;
+            });
+            return sorted.slice(args.skip || 0, (args.skip || 0) + args.take);
+        }),
+        count: jest.fn(async (args: any) => rows.filter(row => test(row, args.where)).length),
+    };
+};
+
+describe('Pagination', () => {
+    const page = async (query: Record<string, string>, config = {}, args: Record<string, any> = {}) => {
+        const paginator = createPaginator(mockRequest({ query }) as any, config);
+        const items = await paginator.paginate(createDelegate(), args);
+        return { items, meta: paginator.meta! };
+    };
+
+    describe('cursor mode', () => {
+        it('should walk forward and back with signed cursors', async () => {
+            const args = { sortBy: 'createdAt', sortOrder: 'asc' };
+
+            const first = await page({ limit: '2' }, {}, args);
+            expect(first.items.map(row => row.id)).toEqual(['task-1', 'task-2']);
+            expect(first.meta).toEqual(expect.objectContaining({ mode: 'cursor', limit: 2, hasMore: true }));
+            expect(first.meta.prevCursor).toBeUndefined();
+
+            const second = await page({ limit: '2', cursor: first.meta.nextCursor! }, {}, args);
+            expect(second.items.map(row => row.id)).toEqual(['task-3', 'task-4']);
+
+            const third = await page({ limit: '2', cursor: second.meta.nextCursor! }, {}, args);
+            expect(third.items.map(row => row.id)).toEqual(['task-5']);
+            expect(third.meta.hasMore).toBe(false);
+            expect(third.meta.nextCursor).toBeUndefined();
+
+            const back = await page({ limit: '2', cursor: third.meta.prevCursor! }, {}, args);
+            expect(back.items.map(row => row.id)).toEqual(['task-3', 'task-4']);
+            expect(back.meta.nextCursor).toBeDefined();
+            expect(back.meta.prevCursor).toBeDefined();
+        });
+
+        it('should clamp the limit to maxLimit', async () => {
+            const { meta } = await page({ limit: '500' }, { maxLimit: 3 });
+
+            expect(meta.limit).toBe(3);
+        });
+
+        it('should reject tampered cursors', async () => {
+            const { meta } = await page({ limit: '2' });
+            const [body, signature] = meta.nextCursor!.split('.');
+            const payload = JSON.parse(Buffer.from(body!, 'base64url').toString());
+            const forged = Buffer.from(JSON.stringify({ ...payload, v: [null, 'task-0'] })).toString('base64url');
+
+            await expect(page({ cursor: `${forged}.${signature}` })).rejects.toBeInstanceOf(BadRequestError);
+            await expect(page({ cursor: 'garbage' })).rejects.toBeInstanceOf(BadRequestError);
+        });
+
+        it('should reject cursors issued for a different sort', async () => {
+            const { meta } = await page({ limit: '2' });
+
+            await expect(page({ cursor: meta.nextCursor! }, {}, { sortOrder: 'asc' }))
+                .rejects.toBeInstanceOf(BadRequestError);
+        });
+    });
+
+    describe('offset mode', () => {
+        it('should page with skip/take and report totals', async () => {
+            const { items, meta } = await page({ page: '2', limit: '2' }, { mode: 'offset' }, { sortOrder: 'asc' });
+
+            expect(items.map(row => row.id)).toEqual(['task-3', 'task-4']);
+            expect(meta).toEqual({ mode: 'offset', limit: 2, hasMore: true, page: 2, total: 5, totalPages: 3 });
+        });
+    });
+
+    describe('buildLinkHeader', () => {
+        it('should keep other query parameters and replace the page', () => {
+            const req = mockRequest({ originalUrl: '/api/tasks?status=open&page=2' } as any) as any;
+
+            expect(buildLinkHeader(req, { mode: 'offset', limit: 2, hasMore: true, page: 2, total: 5, totalPages: 3 })).toBe([
+                '</api/tasks?status=open&limit=2&page=1>; rel="first"',
+                '</api/tasks?status=open&limit=2&page=1>; rel="prev"',
+                '</api/tasks?status=open&limit=2&page=3>; rel="next"',
+                '</api/tasks?status=open&limit=2&page=3>; rel="last"',
+            ].join(', '));
+        });
+    });
+});
@@ -0,0 +1,47 @@
+/**
+ * Request Context Unit Tests
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { getRequestId, requestContext } from '../../../src/core/request-context';
+import { successResponse } from '../../../src/core/response';
+
+describe('Request Context', () => {
+    const createApp = () => {
+        const app = express();
+        app.use(requestContext());
+        app.get('/ping', async (_req, res) => {
+            // Still visible after an await
+            await new Promise(resolve => setImmediate(resolve));
+            return successResponse(res, { seen: getRequestId() });
+        });
+        return app;
+    };
+
+    it('should generate one id for the header, meta and async context', async () => {
+        const response = await request(createApp()).get('/ping');
+
+        const requestId = response.headers['x-request-id'];
+        expect(requestId).toMatch(/^req_\d+_[0-9a-f]{12}$/);
+        expect(response.body.meta.requestId).toBe(requestId);
+        expect(response.body.data.seen).toBe(requestId);
+    });
+
+    it('should keep a valid incoming X-Request-Id', async () => {
+        const response = await request(createApp()).get('/ping').set('X-Request-Id', 'edge-7f3a.42');
+
+        expect(response.headers['x-request-id']).toBe('edge-7f3a.42');
+        expect(response.body.meta.requestId).toBe('edge-7f3a.42');
+    });
+
+    it('should replace malformed incoming ids', async () => {
+        const response = await request(createApp()).get('/ping').set('X-Request-Id', 'a b<script>');
+
+        expect(response.headers['x-request-id']).toMatch(/^req_/);
+    });
+
+    it('should not leak the id outside the request', () => {
+        expect(getRequestId()).toBeUndefined();
+    });
+});
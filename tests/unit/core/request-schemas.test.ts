@@ -0,0 +1,116 @@
+/**
+ * Request Schemas Unit Tests
+ */
+
+import { z } from 'zod';
+
+import { createPublicHandler } from '../../../src/core/handler';
+import { coerceToSchema } from '../../../src/core/request-schemas';
+import { invokeHandler } from '../../../src/testing';
+
+jest.mock('@prisma/client', () => ({
+    PrismaClient: class PrismaClient { },
+    Prisma: { defineExtension: (extension: unknown) => extension },
+}));
+
+describe('coerceToSchema', () => {
+    it('should coerce query strings to the types the schema expects', () => {
+        const schema = z.object({
+            page: z.number().int().default(1),
+            archived: z.boolean().optional(),
+            tags: z.array(z.string()),
+            ids: z.array(z.number()).optional(),
+            since: z.date().optional(),
+            name: z.string(),
+        });
+
+        expect(coerceToSchema({
+            page: '2',
+            archived: 'false',
+            tags: 'urgent',
+            ids: ['1', '2'],
+            since: '2024-01-01T00:00:00.000Z',
+            name: '42',
+        }, schema)).toEqual({
+            page: 2,
+            archived: false,
+            tags: ['urgent'],
+            ids: [1, 2],
+            since: new Date('2024-01-01T00:00:00.000Z'),
+            name: '42',
+        });
+    });
+
+    it('should leave values that do not convert for the schema to reject', () => {
+        const schema = z.object({ page: z.number(), flag: z.boolean() });
+        expect(coerceToSchema({ page: 'two', flag: 'yes' }, schema)).toEqual({ page: 'two', flag: 'yes' });
+        expect(coerceToSchema({ page: '' }, schema)).toEqual({ page: '' });
+    });
+});
+
+describe('Handler per-part schemas', () => {
+    const update = createPublicHandler({
+        schema: {
+            params: z.object({ id: z.number().int().positive() }),
+            query: z.object({ notify: z.boolean().default(false) }),
+            body: z.object({ title: z.string(), notify: z.string().optional() }),
+            headers: z.object({ 'x-client': z.string() }),
+        },
+        handler: async ({ input }) => ({
+            id: input.params.id,
+            notify: input.query.notify,
+            title: input.body.title,
+            bodyNotify: input.body.notify ?? null,
+            client: input.headers['x-client'],
+        }),
+    });
+
+    it('should validate and coerce each part separately', async () => {
+        const result = await invokeHandler(update, {
+            method: 'PUT',
+            path: '/tasks/7?notify=true',
+            params: { id: '7' },
+            headers: { 'X-Client': 'web' },
+            body: { title: 'Ship', notify: 'from body' },
+        });
+
+        expect(result.status).toBe(200);
+        expect(result.body.data).toEqual({ id: 7, notify: true, title: 'Ship', bodyNotify: 'from body', client: 'web' });
+    });
+
+    it('should not let a query value stand in for a body field', async () => {
+        const result = await invokeHandler(update, {
+            method: 'PUT',
+            path: '/tasks/7?title=Injected',
+            params: { id: '7' },
+            headers: { 'x-client': 'web' },
+            body: {},
+        });
+
+        expect(result.status).toBe(400);
+        expect(Object.keys(result.body.error.details)).toEqual(['body.title']);
+    });
+
+    it('should report errors by part and field', async () => {
+        const result = await invokeHandler(update, {
+            method: 'PUT',
+            path: '/tasks/abc',
+            params: { id: 'abc' },
+            body: { title: 'Ship' },
+        });
+
+        expect(result.status).toBe(400);
+        expect(Object.keys(result.body.error.details).sort()).toEqual(['headers.x-client', 'params.id']);
+    });
+
+    it('should keep the single-schema form merging body and query', async () => {
+        const handler = createPublicHandler({
+            schema: z.object({ title: z.string(), page: z.string() }),
+            handler: async ({ input }) => input,
+        });
+
+        const result = await invokeHandler(handler, { method: 'POST', path: '/tasks?page=2', body: { title: 'Ship' } });
+
+        expect(result.body.data).toEqual({ title: 'Ship', page: '2' });
+    });
+});
@@ -14,8 +14,12 @@ import {
     notFoundResponse,
     rateLimitResponse,
     internalErrorResponse,
+    httpErrorResponse,
     healthCheckResponse,
+    sendApiResponse,
+    setErrorResponseConfig,
 } from '../../../src/core/response';
+import { ConflictError, InternalServerError, RateLimitError } from '../../../src/core/errors';
 
 describe('Response Utilities', () => {
     let res: any;
@@ -218,6 +222,108 @@ describe('Response Utilities', () => {
         });
     });
 
+    describe('httpErrorResponse', () => {
+        it('should use the status, code and details of the error', () => {
+            httpErrorResponse(res, new ConflictError('Email already registered', { details: { field: 'email' } }));
+
+            expect(res.status).toHaveBeenCalledWith(409);
+            expect(res.json).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    error: {
+                        code: 'CONFLICT',
+                        message: 'Email already registered',
+                        details: { field: 'email' },
+                    },
+                })
+            );
+        });
+
+        it('should hide the message of server errors', () => {
+            httpErrorResponse(res, new InternalServerError('Ledger row 42 is corrupt'));
+
+            expect(res.status).toHaveBeenCalledWith(500);
+            expect(res.json).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    error: expect.objectContaining({ message: 'An unexpected error occurred' }),
+                })
+            );
+        });
+
+        it('should set Retry-After for rate limit errors', () => {
+            httpErrorResponse(res, new RateLimitError(undefined, { retryAfter: 30 }));
+
+            expect(res.status).toHaveBeenCalledWith(429);
+            expect(res.setHeader).toHaveBeenCalledWith('Retry-After', '30');
+        });
+    });
+
+    describe('problem details', () => {
+        it('should render errors as problem+json when configured', () => {
+            setErrorResponseConfig(res, { format: 'problem', problemTypeBaseUri: 'https://api.example.com/problems/' });
+
+            errorResponse(res, 'VALIDATION_ERROR', 'Invalid input', 400, { email: ['Invalid email'] }, 'trace-1');
+
+            expect(res.status).toHaveBeenCalledWith(400);
+            expect(res.set).toHaveBeenCalledWith('Content-Type', 'application/problem+json');
+            expect(res.json).toHaveBeenCalledWith({
+                type: 'https://api.example.com/problems/validation-error',
+                title: 'Validation failed',
+                status: 400,
+                detail: 'Invalid input',
+                instance: expect.stringMatching(/^req_/),
+                code: 'VALIDATION_ERROR',
+                traceId: 'trace-1',
+                details: { email: ['Invalid email'] },
+            });
+        });
+
+        it('should use problem details when the client accepts them', () => {
+            res.req = { headers: { accept: 'application/problem+json, application/json;q=0.9' } };
+
+            notFoundResponse(res);
+
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                type: '/problems/resource-not-found',
+                status: 404,
+            }));
+        });
+
+        it('should keep the envelope when problem+json is refused', () => {
+            res.req = { headers: { accept: 'application/json, application/problem+json;q=0' } };
+
+            notFoundResponse(res);
+
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: false }));
+        });
+
+        it('should keep field errors named like standard members', () => {
+            setErrorResponseConfig(res, { format: 'problem' });
+
+            validationErrorResponse(res, 'Invalid input data', { title: ['Required'], status: ['Invalid enum value'] });
+
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                title: 'Validation failed',
+                status: 400,
+                details: { title: ['Required'], status: ['Invalid enum value'] },
+            }));
+        });
+
+        it('should convert error bodies sent with sendApiResponse', () => {
+            setErrorResponseConfig(res, { format: 'problem' });
+
+            sendApiResponse(res, {
+                success: false,
+                error: { code: 'RESOURCE_FORBIDDEN', message: 'Archived project' },
+            });
+
+            expect(res.status).toHaveBeenCalledWith(403);
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                type: '/problems/resource-forbidden',
+                detail: 'Archived project',
+            }));
+        });
+    });
+
     describe('healthCheckResponse', () => {
         it('should return healthy status', () => {
             healthCheckResponse(res, 'healthy', {});
@@ -0,0 +1,104 @@
+/**
+ * Security Presets Unit Tests
+ */
+
+import { createTenantHandler } from '../../../src/core/handler';
+import { definePreset, getSecurityPreset, mergePresetConfig } from '../../../src/core/security-presets';
+import { invokeHandler } from '../../../src/testing';
+import { mockUser } from '../../utils/test-helpers';
+
+jest.mock('@prisma/client', () => ({
+    PrismaClient: class PrismaClient { },
+    Prisma: { defineExtension: (extension: unknown) => extension },
+}));
+
+declare module '../../../src/core/types' {
+    interface CustomSecurityPresets {
+        internalService: true;
+        pciScope: true;
+        pciBatch: true;
+    }
+}
+
+describe('Security presets', () => {
+    beforeAll(() => {
+        definePreset('internalService', {
+            authStrategies: ['api_key'],
+            csrfProtection: false,
+            monitoring: { customTags: { exposure: 'internal' } },
+        }, { extends: ['authenticated'] });
+
+        definePreset('pciScope', {
+            limits: { maxBodyBytes: 16 * 1024, contentTypes: ['application/json'] },
+            auditConfig: { captureRequestBody: true },
+            monitoring: { customTags: { scope: 'pci' } },
+        }, { extends: ['highSecurity'] });
+
+        definePreset('pciBatch', {
+            limits: { maxBodyBytes: 256 * 1024 },
+            timeout: 60000,
+        }, { extends: ['internalService', 'pciScope'] });
+    });
+
+    it('should compose presets in order, the preset\'s own config last', () => {
+        const preset = getSecurityPreset('pciBatch');
+
+        expect(preset).toMatchObject({
+            requireAuth: true,
+            authStrategies: ['api_key'],
+            csrfProtection: true, // pciScope (via highSecurity) comes after internalService
+            idempotency: true,
+            timeout: 60000,
+            limits: { maxBodyBytes: 256 * 1024, contentTypes: ['application/json'] },
+            monitoring: { customTags: { exposure: 'internal', scope: 'pci' } },
+            auditConfig: { enabled: true, trackDataChanges: true, captureRequestBody: true, captureResponseBody: true },
+        });
+    });
+
+    it('should deep-merge handler config over the preset', () => {
+        const merged = mergePresetConfig('pciScope', {
+            limits: { maxQueryParams: 5 },
+            monitoring: { customTags: { team: 'payments' } },
+            auditConfig: { action: 'payment.capture' },
+            handler: async () => undefined,
+        });
+
+        expect(merged.limits).toEqual({ maxBodyBytes: 16 * 1024, contentTypes: ['application/json'], maxQueryParams: 5 });
+        expect(merged.monitoring).toEqual({ customTags: { scope: 'pci', team: 'payments' } });
+        expect(merged.auditConfig).toMatchObject({ action: 'payment.capture', captureRequestBody: true, captureResponseBody: true });
+    });
+
+    it('should replace the preset\'s rateLimit block whole, key generator included', () => {
+        const merged = mergePresetConfig('authenticated', {
+            rateLimit: { maxRequests: 5, windowMs: 60000 },
+            handler: async () => undefined,
+        });
+
+        expect(merged.rateLimit).toEqual({ maxRequests: 5, windowMs: 60000 });
+        expect(merged.rateLimit!.keyGenerator).toBeUndefined();
+    });
+
+    it('should replace arrays rather than concatenate them', () => {
+        const merged = mergePresetConfig('admin', { allowedRoles: ['auditor'], handler: async () => undefined });
+
+        expect(merged.allowedRoles).toEqual(['auditor']);
+    });
+
+    it('should refuse to redefine a preset or extend an unknown one', () => {
+        expect(() => definePreset('public', {})).toThrow('Security preset "public" is already defined');
+        expect(() => definePreset('internalService', {})).toThrow('already defined');
+        expect(() => definePreset('partnerApi', {}, { extends: ['missing' as any] })).toThrow('Unknown security preset "missing"');
+    });
+
+    it('should apply a custom preset to handlers', async () => {
+        const handler = createTenantHandler({
+            preset: 'internalService',
+            handler: async () => ({ ok: true }),
+        });
+
+        const result = await invokeHandler(handler, { method: 'POST', path: '/sync', body: {}, csrf: false, user: mockUser() });
+
+        // CSRF is off for the internal preset, so no token is needed
+        expect(result.status).toBe(200);
+    });
+});
@@ -0,0 +1,95 @@
+/**
+ * Field Selection Unit Tests
+ */
+
+import { parseSelection, applySelection } from '../../../src/core/selection';
+
+describe('Field Selection', () => {
+    const config = {
+        fields: ['id', 'title', 'owner.email', 'tasks.*'],
+        expand: ['owner', 'tasks', 'tasks.assignee'],
+    };
+
+    describe('parseSelection', () => {
+        it('should accept allowlisted fields and relations', () => {
+            const { selection, rejection } = parseSelection({ fields: 'id, title,owner.email', expand: 'tasks' }, config);
+
+            expect(rejection).toBeUndefined();
+            expect(selection!.fields).toEqual(['id', 'title', 'owner.email']);
+            expect(selection!.expand).toEqual(['tasks']);
+        });
+
+        it('should reject relations that are not allowlisted', () => {
+            const { rejection } = parseSelection({ expand: 'owner,secrets' }, config);
+
+            expect(rejection).toEqual({ parameter: 'expand', names: ['secrets'] });
+        });
+
+        it('should reject nested relations whose parent is not allowlisted', () => {
+            const { rejection } = parseSelection({ expand: 'owner.sessions' }, { expand: ['owner.sessions'] });
+
+            expect(rejection).toEqual({ parameter: 'expand', names: ['owner.sessions'] });
+        });
+
+        it('should reject dotted fields that would expand a relation off the allowlist', () => {
+            const { rejection } = parseSelection({ fields: 'owner.passwordHash,tasks.title' }, config);
+
+            expect(rejection).toEqual({ parameter: 'fields', names: ['owner.passwordHash'] });
+            expect(parseSelection({ fields: 'team.name' }, { fields: ['team.name'] }).rejection)
+                .toEqual({ parameter: 'fields', names: ['team.name'] });
+        });
+
+        it('should only let a wildcard match direct fields', () => {
+            const { rejection } = parseSelection({ fields: 'tasks.assignee.email' }, config);
+
+            expect(rejection).toEqual({ parameter: 'fields', names: ['tasks.assignee.email'] });
+        });
+    });
+
+    describe('toPrisma', () => {
+        it('should build a select when fields are requested', () => {
+            const { selection } = parseSelection({ fields: 'id,owner.email', expand: 'tasks.assignee' }, config);
+
+            expect(selection!.toPrisma()).toEqual({
+                select: {
+                    id: true,
+                    owner: { select: { email: true } },
+                    tasks: { include: { assignee: true } },
+                },
+            });
+        });
+
+        it('should build an include when only relations are requested', () => {
+            const { selection } = parseSelection({ expand: 'owner,tasks.assignee' }, config);
+
+            expect(selection!.toPrisma()).toEqual({
+                include: { owner: true, tasks: { include: { assignee: true } } },
+            });
+            expect(parseSelection({}, config).selection!.toPrisma()).toEqual({});
+        });
+    });
+
+    describe('applySelection', () => {
+        const task = {
+            id: 't1',
+            title: 'Ship',
+            secretNote: 'internal',
+            owner: { email: 'ada@example.com', name: 'Ada' },
+            tasks: [{ title: 'Sub', done: false }],
+        };
+
+        it('should project objects and arrays onto the requested fields', () => {
+            const { selection } = parseSelection({ fields: 'id,owner.email', expand: 'tasks' }, config);
+
+            expect(applySelection([task], selection!)).toEqual([
+                { id: 't1', owner: { email: 'ada@example.com' }, tasks: [{ title: 'Sub', done: false }] },
+            ]);
+        });
+
+        it('should leave the result unchanged without fields', () => {
+            const { selection } = parseSelection({ expand: 'owner' }, config);
+
+            expect(applySelection(task, selection!)).toBe(task);
+        });
+    });
+});
@@ -0,0 +1,279 @@
+/**
+ * Stream Handler Unit Tests
+ *
+ * Verifies that streaming handlers share the access-control pipeline with the
+ * JSON factories and that the stream itself is framed, kept alive, cancelled
+ * and audited correctly.
+ */
+
+import { EventEmitter } from 'events';
+import { mockRequest, mockUser } from '../../utils/test-helpers';
+import { createStreamHandler, formatStreamEvent } from '../../../src/core/stream-handler';
+
+jest.mock('../../../src/core/service-initializer');
+jest.mock('@prisma/client');
+jest.mock('../../../src/security/sanitization');
+jest.mock('../../../src/security/rate-limiting');
+jest.mock('../../../src/auth/manager');
+jest.mock('../../../src/security/csrf');
+
+/**
+ * Response double that records written chunks
+ */
+const mockStreamResponse = () => {
+    const res: any = new EventEmitter();
+    res.chunks = [] as string[];
+    res.locals = {};
+    res.writableEnded = false;
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    res.set = jest.fn().mockReturnValue(res);
+    res.flushHeaders = jest.fn();
+    res.write = jest.fn().mockImplementation((chunk: string) => {
+        res.chunks.push(chunk);
+        return true;
+    });
+    res.end = jest.fn().mockImplementation(() => {
+        res.writableEnded = true;
+    });
+    return res;
+};
+
+describe('Stream Handler', () => {
+    let req: any;
+    let res: any;
+    let services: any;
+    let mockPrisma: any;
+    const originalEnv = process.env.NODE_ENV;
+
+    afterEach(() => {
+        process.env.NODE_ENV = originalEnv;
+    });
+
+    beforeEach(() => {
+        req = Object.assign(new EventEmitter(), mockRequest());
+        res = mockStreamResponse();
+        mockPrisma = { $disconnect: jest.fn().mockResolvedValue(undefined) };
+
+        services = {
+            monitoring: {
+                startSpan: jest.fn(),
+                endSpan: jest.fn(),
+                recordMetric: jest.fn(),
+            },
+            configManager: {
+                getFeatureFlags: jest.fn().mockReturnValue({}),
+                getConfig: jest.fn().mockReturnValue({ multitenancy: { enabled: false } }),
+            },
+            tenantManager: {
+                isEnabled: jest.fn().mockReturnValue(false),
+            },
+            versionManager: {},
+            auditService: {
+                logEvent: jest.fn().mockResolvedValue(undefined),
+                logAuthEvent: jest.fn().mockResolvedValue(undefined),
+                logSecurityEvent: jest.fn().mockResolvedValue(undefined),
+            },
+        };
+
+        const { ServiceInitializer } = require('../../../src/core/service-initializer');
+        ServiceInitializer.getServices = jest.fn().mockReturnValue(services);
+
+        const { SanitizationService } = require('../../../src/security/sanitization');
+        SanitizationService.getInstance = jest.fn().mockReturnValue({
+            sanitize: jest.fn().mockImplementation((input) => Promise.resolve(input)),
+        });
+
+        const { AuthManager } = require('../../../src/auth/manager');
+        AuthManager.getInstance = jest.fn().mockReturnValue({
+            authenticate: jest.fn().mockImplementation(async (request) => request.user || null),
+        });
+
+        const { RedisRateLimiter } = require('../../../src/security/rate-limiting');
+        RedisRateLimiter.getInstance = jest.fn().mockReturnValue({
+            checkLimit: jest.fn().mockResolvedValue(true),
+            getLimitInfo: jest.fn().mockResolvedValue({
+                allowed: true,
+                remaining: 100,
+                resetTime: new Date(Date.now() + 60000),
+            }),
+        });
+    });
+
+    describe('formatStreamEvent', () => {
+        it('should frame SSE events with id and event fields', () => {
+            expect(formatStreamEvent('sse', { step: 1 }, { event: 'progress', id: '7' }))
+                .toBe('id: 7\nevent: progress\ndata: {"step":1}\n\n');
+        });
+
+        it('should strip line breaks from SSE fields', () => {
+            expect(formatStreamEvent('sse', 1, { event: 'a\nevent: b' })).toBe('event: aevent: b\ndata: 1\n\n');
+        });
+
+        it('should write one JSON document per line for NDJSON', () => {
+            expect(formatStreamEvent('ndjson', { id: 1 })).toBe('{"id":1}\n');
+        });
+    });
+
+    it('should reject unauthenticated requests with the JSON error envelope', async () => {
+        const handlerFn = jest.fn();
+        const handler = createStreamHandler({ handler: handlerFn }, mockPrisma);
+
+        await handler(req, res);
+
+        expect(handlerFn).not.toHaveBeenCalled();
+        expect(res.status).toHaveBeenCalledWith(401);
+        expect(res.flushHeaders).not.toHaveBeenCalled();
+    });
+
+    it('should stream events written through ctx.stream', async () => {
+        req.user = mockUser();
+
+        const handler = createStreamHandler({
+            handler: async ({ stream }) => {
+                await stream.write({ step: 1 }, { event: 'progress' });
+                await stream.write({ step: 2 }, { event: 'progress' });
+            },
+        }, mockPrisma);
+
+        await handler(req, res);
+
+        expect(res.set).toHaveBeenCalledWith(expect.objectContaining({
+            'Content-Type': 'text/event-stream; charset=utf-8',
+        }));
+        expect(res.chunks).toEqual([
+            'event: progress\ndata: {"step":1}\n\n',
+            'event: progress\ndata: {"step":2}\n\n',
+        ]);
+        expect(res.end).toHaveBeenCalled();
+    });
+
+    it('should verify ownership before opening the stream', async () => {
+        req.user = mockUser({ id: 'user-1' });
+        req.params = { id: 'project-1' };
+        const handlerFn = jest.fn();
+        mockPrisma.project = { findFirst: jest.fn().mockResolvedValue(null) };
+
+        const handler = createStreamHandler({
+            requireOwnership: { model: 'project', resourceIdParam: 'id', ownerIdField: 'ownerId' },
+            handler: handlerFn,
+        }, mockPrisma);
+
+        await handler(req, res);
+
+        expect(mockPrisma.project.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+            where: { id: 'project-1', ownerId: 'user-1' },
+        }));
+        expect(handlerFn).not.toHaveBeenCalled();
+        expect(res.status).toHaveBeenCalledWith(403);
+        expect(res.flushHeaders).not.toHaveBeenCalled();
+    });
+
+    it('should expose the owned resource to the stream handler', async () => {
+        req.user = mockUser({ id: 'user-1' });
+        req.params = { id: 'project-1' };
+        const project = { id: 'project-1', ownerId: 'user-1' };
+        mockPrisma.project = { findFirst: jest.fn().mockResolvedValue(project) };
+
+        const handler = createStreamHandler({
+            requireOwnership: { model: 'project', resourceIdParam: 'id', ownerIdField: 'ownerId' },
+            handler: async ({ resource, stream }) => {
+                await stream.write(resource);
+            },
+        }, mockPrisma);
+
+        await handler(req, res);
+
+        expect(res.chunks).toEqual([`data: ${JSON.stringify(project)}\n\n`]);
+    });
+
+    it('should drain an async iterable returned by the handler as NDJSON', async () => {
+        const handler = createStreamHandler({
+            preset: 'public',
+            format: 'ndjson',
+            handler: async function* () {
+                yield { id: 1 };
+                yield { id: 2 };
+            },
+        }, mockPrisma);
+
+        await handler(req, res);
+
+        expect(res.chunks).toEqual(['{"id":1}\n', '{"id":2}\n']);
+    });
+
+    it('should write heartbeats while the handler is idle', async () => {
+        jest.useFakeTimers();
+        let finish!: () => void;
+
+        const handler = createStreamHandler({
+            preset: 'public',
+            heartbeatInterval: 1000,
+            handler: () => new Promise<void>(resolve => { finish = resolve; }),
+        }, mockPrisma);
+
+        const running = handler(req, res);
+        await jest.advanceTimersByTimeAsync(2500);
+        finish();
+        await running;
+        jest.useRealTimers();
+
+        expect(res.chunks).toEqual([': heartbeat\n\n', ': heartbeat\n\n']);
+    });
+
+    it('should abort the signal and audit the stream when the client disconnects', async () => {
+        let signal!: AbortSignal;
+
+        const handler = createStreamHandler({
+            preset: 'public',
+            handler: async (ctx) => {
+                signal = ctx.signal;
+                await ctx.stream.write('first');
+                res.emit('close');
+                await ctx.stream.write('ignored');
+            },
+        }, mockPrisma);
+
+        await handler(req, res);
+
+        expect(signal.aborted).toBe(true);
+        expect(res.chunks).toEqual(['data: "first"\n\n']);
+        expect(services.auditService.logEvent).toHaveBeenCalledWith(
+            expect.objectContaining({
+                status: 'CLIENT_CLOSED',
+                metadata: expect.objectContaining({
+                    format: 'sse',
+                    closeReason: 'client_disconnected',
+                    eventCount: 1,
+                }),
+            }),
+            expect.anything()
+        );
+    });
+
+    it('should end the stream with an error event when the handler throws', async () => {
+        process.env.NODE_ENV = 'production';
+
+        const handler = createStreamHandler({
+            preset: 'public',
+            handler: async ({ stream }) => {
+                await stream.write({ step: 1 });
+                throw new Error('Export failed at /var/data/export.csv');
+            },
+        }, mockPrisma);
+
+        await handler(req, res);
+
+        const last = res.chunks[res.chunks.length - 1];
+        expect(last).toMatch(/^event: error\ndata: /);
+        expect(last).toContain('An unexpected error occurred');
+        expect(res.end).toHaveBeenCalled();
+        expect(services.auditService.logEvent).toHaveBeenCalledWith(
+            expect.objectContaining({
+                status: 'FAILURE',
+                metadata: expect.objectContaining({ closeReason: 'error' }),
+            }),
+            expect.anything()
+        );
+    });
+});
@@ -0,0 +1,215 @@
+/**
+ * OpenAPI Generator Unit Tests
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { generateOpenApiDocument } from '../../../src/openapi/generator';
+import { zodToJsonSchema } from '../../../src/openapi/zod-schema';
+import { RouteRegistry, attachHandlerMetadata } from '../../../src/core/route-registry';
+
+const fakeHandler = (config: any, preset?: string) =>
+    attachHandlerMetadata(async () => undefined, { config, ...(preset ? { preset } : {}) });
+
+describe('OpenAPI generation', () => {
+    let registry: RouteRegistry;
+
+    beforeEach(() => {
+        registry = RouteRegistry.getInstance();
+        registry.clear();
+    });
+
+    describe('zodToJsonSchema', () => {
+        it('should convert objects with required and optional fields', () => {
+            const schema = z.object({
+                title: z.string().min(3).max(200),
+                email: z.string().email(),
+                priority: z.enum(['LOW', 'HIGH']).default('LOW'),
+                estimate: z.number().int().positive().optional(),
+                tags: z.array(z.string()).max(10),
+                note: z.string().nullable(),
+            });
+
+            expect(zodToJsonSchema(schema)).toEqual({
+                type: 'object',
+                properties: {
+                    title: { type: 'string', minLength: 3, maxLength: 200 },
+                    email: { type: 'string', format: 'email' },
+                    priority: { type: 'string', enum: ['LOW', 'HIGH'], default: 'LOW' },
+                    estimate: { type: 'integer', exclusiveMinimum: 0 },
+                    tags: { type: 'array', items: { type: 'string' }, maxItems: 10 },
+                    note: { type: ['string', 'null'] },
+                },
+                required: ['title', 'email', 'tags', 'note'],
+            });
+        });
+
+        it('should describe refined schemas by their input shape', () => {
+            const schema = z.object({ a: z.string() }).refine(v => v.a !== 'x');
+            expect(zodToJsonSchema(schema)).toMatchObject({ type: 'object', required: ['a'] });
+        });
+    });
+
+    describe('RouteRegistry', () => {
+        it('should record framework handlers mounted on a router', () => {
+            const router = Router();
+            router.get('/tasks/:id', fakeHandler({ requireAuth: true }));
+            router.get('/plain', (_req, res) => { res.json({}); });
+
+            const routes = registry.registerRouter(router, '/api');
+
+            expect(routes.map(r => `${r.method} ${r.path}`)).toEqual(['GET /api/tasks/:id']);
+        });
+
+        it('should keep routes in registration order, as Express matches them', () => {
+            const router = Router();
+            router.get('/tasks/latest', fakeHandler({}));
+            router.get('/tasks/:id', fakeHandler({}));
+            registry.registerRouter(router, '/api');
+
+            expect(registry.getRoutes().map(r => r.path)).toEqual(['/api/tasks/latest', '/api/tasks/:id']);
+            expect(Object.keys(generateOpenApiDocument({ title: 'Tasks', version: '1.0.0' }).paths))
+                .toEqual(['/api/tasks/{id}', '/api/tasks/latest']);
+        });
+    });
+
+    describe('generateOpenApiDocument', () => {
+        it('should document request schemas, security and rate limits', () => {
+            const router = Router();
+            router.post('/tasks', fakeHandler({
+                requireAuth: true,
+                authStrategies: ['jwt', 'api_key'],
+                schema: z.object({ title: z.string() }),
+                successStatus: 201,
+                rateLimit: { windowMs: 60000, maxRequests: 10 },
+                idempotency: true,
+            }, 'authenticated'));
+            router.get('/tasks/:id', fakeHandler({
+                schema: z.object({ include: z.string().optional() }),
+            }));
+            registry.registerRouter(router, '/api');
+
+            const doc = generateOpenApiDocument({ title: 'Tasks', version: '1.0.0' });
+
+            expect(doc.openapi).toBe('3.1.0');
+
+            const create = doc.paths['/api/tasks'].post;
+            expect(create.requestBody.content['application/json'].schema).toMatchObject({
+                properties: { title: { type: 'string' } },
+            });
+            expect(create.security).toEqual([{ bearerAuth: [] }, { apiKeyAuth: [] }]);
+            expect(create.responses['201'].headers).toHaveProperty('X-RateLimit-Remaining');
+            expect(create.responses['429']).toBeDefined();
+            expect(create.parameters).toEqual(expect.arrayContaining([
+                { $ref: '#/components/parameters/CsrfToken' },
+                { $ref: '#/components/parameters/IdempotencyKey' },
+            ]));
+
+            const read = doc.paths['/api/tasks/{id}'].get;
+            expect(read.security).toEqual([]);
+            expect(read.parameters).toEqual([
+                { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+                { name: 'include', in: 'query', required: false, schema: { type: 'string' } },
+            ]);
+            expect(read.responses['200'].headers).toHaveProperty('ETag');
+            expect(read.responses['304']).toBeDefined();
+            expect(doc.components.schemas.ErrorResponse).toBeDefined();
+        });
+
+        it('should document Idempotency-Key unless idempotency is turned off', () => {
+            const router = Router();
+            router.post('/tasks', fakeHandler({}));
+            router.post('/imports', fakeHandler({ idempotency: false }));
+            registry.registerRouter(router, '/api');
+
+            const doc = generateOpenApiDocument({ title: 'Tasks', version: '1.0.0' });
+
+            expect(doc.paths['/api/tasks'].post.parameters).toContainEqual({ $ref: '#/components/parameters/IdempotencyKey' });
+            expect(doc.paths['/api/imports'].post.parameters || []).not.toContainEqual({ $ref: '#/components/parameters/IdempotencyKey' });
+        });
+
+        it('should document per-part schemas as typed parameters and body', () => {
+            const router = Router();
+            router.put('/tasks/:id', fakeHandler({
+                schema: {
+                    params: z.object({ id: z.number().int() }),
+                    query: z.object({ notify: z.boolean().optional() }),
+                    headers: z.object({ 'x-client': z.string() }),
+                    body: z.object({ title: z.string() }),
+                },
+            }));
+            registry.registerRouter(router);
+
+            const update = generateOpenApiDocument({ title: 'Tasks', version: '1.0.0' }).paths['/tasks/{id}'].put;
+
+            expect(update.parameters).toEqual(expect.arrayContaining([
+                { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+                { name: 'notify', in: 'query', required: false, schema: { type: 'boolean' } },
+                { name: 'x-client', in: 'header', required: true, schema: { type: 'string' } },
+            ]));
+            expect(update.requestBody.content['application/json'].schema).toMatchObject({
+                properties: { title: { type: 'string' } },
+            });
+            expect(update.responses['400']).toBeDefined();
+        });
+
+        it('should document pagination parameters and the Link header', () => {
+            const router = Router();
+            router.get('/tasks', fakeHandler({ paginate: {} }));
+            router.get('/pages', fakeHandler({ paginate: { mode: 'offset' } }));
+            registry.registerRouter(router);
+
+            const doc = generateOpenApiDocument({ title: 'Tasks', version: '1.0.0' });
+
+            const tasks = doc.paths['/tasks'].get;
+            expect(tasks.parameters).toEqual([
+                { $ref: '#/components/parameters/Cursor' },
+                { $ref: '#/components/parameters/Limit' },
+            ]);
+            expect(tasks.responses['200'].headers).toHaveProperty('Link');
+            expect(doc.paths['/pages'].get.parameters).toContainEqual({ $ref: '#/components/parameters/Page' });
+            expect(doc.components.schemas.ApiMeta.properties.pagination).toEqual({
+                $ref: '#/components/schemas/PaginationMeta',
+            });
+        });
+
+        it('should document the selectable fields and relations', () => {
+            const router = Router();
+            router.get('/tasks', fakeHandler({ selection: { fields: ['id', 'owner.email'], expand: ['owner'] } }));
+            registry.registerRouter(router);
+
+            const doc = generateOpenApiDocument({ title: 'Tasks', version: '1.0.0' });
+
+            expect(doc.paths['/tasks'].get.parameters).toEqual([
+                expect.objectContaining({ name: 'fields', in: 'query', description: expect.stringContaining('id, owner.email') }),
+                expect.objectContaining({ name: 'expand', in: 'query', description: expect.stringContaining('owner') }),
+            ]);
+        });
+
+        it('should document the response formats a handler produces', () => {
+            const router = Router();
+            router.get('/report', fakeHandler({ produces: ['json', 'csv', 'msgpack'] }));
+            registry.registerRouter(router);
+
+            const doc = generateOpenApiDocument({ title: 'Tasks', version: '1.0.0' });
+
+            const report = doc.paths['/report'].get;
+            expect(Object.keys(report.responses['200'].content)).toEqual(['application/json', 'text/csv', 'application/msgpack']);
+            expect(report.parameters).toContainEqual(expect.objectContaining({
+                name: 'format',
+                schema: { type: 'string', enum: ['json', 'csv', 'msgpack'] },
+            }));
+            expect(report.responses['406']).toEqual({ $ref: '#/components/responses/NotAcceptable' });
+        });
+
+        it('should skip excluded operations', () => {
+            const router = Router();
+            router.get('/internal', fakeHandler({ openapi: { exclude: true } }));
+            registry.registerRouter(router);
+
+            const doc = generateOpenApiDocument({ title: 'Tasks', version: '1.0.0' });
+
+            expect(doc.paths).toEqual({});
+        });
+    });
+});
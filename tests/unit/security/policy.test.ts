@@ -0,0 +1,117 @@
+/**
+ * Security Policy Unit Tests
+ */
+
+import express, { Router } from 'express';
+
+import { createApp } from '../../../src/core/app';
+import { createAuthenticatedHandler, createPublicHandler, createTenantHandler } from '../../../src/core/handler';
+import { RouteRegistry } from '../../../src/core/route-registry';
+import {
+    checkSecurityPolicies,
+    defaultSecurityPolicies,
+    enforceSecurityPolicies,
+    SecurityPolicy,
+    SecurityPolicyError,
+} from '../../../src/security/policy';
+
+jest.mock('@prisma/client', () => ({
+    PrismaClient: class PrismaClient { },
+    Prisma: { defineExtension: (extension: unknown) => extension },
+}));
+
+const handler = async () => ({ ok: true });
+
+describe('Security policies', () => {
+    beforeEach(() => {
+        const router = Router();
+        router.get('/projects', createPublicHandler({ sanitizeResponse: false, handler }));
+        router.post('/signup', createPublicHandler({ rateLimit: undefined as any, handler }));
+        router.post('/webhooks', createAuthenticatedHandler({ csrfProtection: false, handler }));
+        router.post('/sync', createAuthenticatedHandler({
+            csrfProtection: false,
+            justifications: { csrfProtection: 'Called by the ingest worker with an API key, no browser session' },
+            handler,
+        }));
+        router.post('/payments', createTenantHandler({ preset: 'highSecurity', idempotency: false, handler }));
+        router.post('/refunds', createTenantHandler({ preset: 'highSecurity', handler }));
+
+        RouteRegistry.getInstance().clear();
+        RouteRegistry.getInstance().registerRouter(router, '/api');
+    });
+
+    it('should report each route breaking a policy', () => {
+        const violations = checkSecurityPolicies(defaultSecurityPolicies, { environment: 'production' });
+
+        expect(violations.map(violation => `${violation.policy} ${violation.method} ${violation.path}`)).toEqual([
+            'csrf-opt-out-justified POST /api/webhooks',
+            'high-security-idempotent POST /api/payments',
+            'responses-sanitized GET /api/projects',
+        ]);
+    });
+
+    it('should check on the config after preset merging', () => {
+        // The public preset's rate limit still applies when the handler leaves it undefined
+        const violations = checkSecurityPolicies(defaultSecurityPolicies, { environment: 'production' });
+
+        expect(violations.find(violation => violation.path === '/api/signup')).toBeUndefined();
+    });
+
+    it('should only check policies in their environments', () => {
+        const violations = checkSecurityPolicies(defaultSecurityPolicies, { environment: 'development' });
+
+        expect(violations.map(violation => violation.policy)).not.toContain('responses-sanitized');
+    });
+
+    it('should fail startup outside development and warn in development', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        try {
+            expect(() => enforceSecurityPolicies(defaultSecurityPolicies, { environment: 'production' }))
+                .toThrow(SecurityPolicyError);
+            expect(() => enforceSecurityPolicies(defaultSecurityPolicies, { environment: 'production' }))
+                .toThrow(/POST \/api\/webhooks: csrfProtection: false on an authenticated/);
+
+            const violations = enforceSecurityPolicies(defaultSecurityPolicies, { environment: 'development' });
+            expect(violations).toHaveLength(2);
+            expect(warn).toHaveBeenCalledWith(expect.stringContaining('POST /api/payments'));
+        } finally {
+            warn.mockRestore();
+        }
+    });
+
+    it('should accept organisation policies', () => {
+        const requireAudit: SecurityPolicy = {
+            name: 'writes-audited',
+            description: 'State-changing endpoints must keep audit logging on',
+            appliesTo: route => route.method !== 'GET',
+            satisfiedBy: route => route.config.auditConfig?.enabled !== false,
+        };
+        const router = Router();
+        router.delete('/projects/:id', createAuthenticatedHandler({ auditConfig: { enabled: false }, handler }));
+        RouteRegistry.getInstance().registerRouter(router, '/api');
+
+        const violations = checkSecurityPolicies([requireAudit]);
+
+        expect(violations).toEqual([{
+            policy: 'writes-audited',
+            method: 'DELETE',
+            path: '/api/projects/:id',
+            message: 'State-changing endpoints must keep audit logging on',
+        }]);
+    });
+
+    it('should check the routes of an app with its own registry', () => {
+        const app = createApp({ cache: { provider: 'memory' } });
+        const router = Router();
+        router.post('/sync', app.createAuthenticatedHandler({ csrfProtection: false, handler }));
+        app.mountRouter(express(), '/partner', router);
+
+        const violations = checkSecurityPolicies(defaultSecurityPolicies, { app, environment: 'production' });
+        app.shutdown();
+
+        expect(violations.map(violation => `${violation.policy} ${violation.method} ${violation.path}`)).toEqual([
+            'csrf-opt-out-justified POST /partner/sync',
+        ]);
+    });
+});
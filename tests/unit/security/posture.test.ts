@@ -0,0 +1,125 @@
+/**
+ * Security Posture Unit Tests
+ */
+
+import express, { Router } from 'express';
+
+import { createApp } from '../../../src/core/app';
+import {
+    createAuthenticatedHandler,
+    createPublicHandler,
+    createTenantHandler,
+} from '../../../src/core/handler';
+import { createStreamHandler } from '../../../src/core/stream-handler';
+import { RouteRegistry } from '../../../src/core/route-registry';
+import {
+    createSecurityPostureHandler,
+    describeSecurityPosture,
+    formatSecurityPostureReport,
+} from '../../../src/security/posture';
+import { invokeHandler } from '../../../src/testing';
+import { mockUser } from '../../utils/test-helpers';
+
+jest.mock('@prisma/client', () => ({
+    PrismaClient: class PrismaClient { },
+    Prisma: { defineExtension: (extension: unknown) => extension },
+}));
+
+const handler = async () => ({ ok: true });
+
+describe('Security posture', () => {
+    beforeEach(() => {
+        const router = Router();
+        router.get('/projects', createAuthenticatedHandler({ cache: { ttl: 60 }, handler }));
+        router.post('/projects', createAuthenticatedHandler({ requiredPermissions: ['projects:write'], handler }));
+        router.post('/webhooks', createPublicHandler({ handler }));
+        router.delete('/projects/:id', createTenantHandler({
+            preset: 'highSecurity',
+            csrfProtection: false,
+            authStrategies: ['api_key'],
+            handler,
+        }));
+        router.get('/events', createStreamHandler({ handler: async () => undefined }));
+
+        RouteRegistry.getInstance().clear();
+        RouteRegistry.getInstance().registerRouter(router, '/api');
+    });
+
+    it('should describe the effective settings of each route', () => {
+        const postures = describeSecurityPosture();
+        const route = (method: string, path: string) =>
+            postures.find(posture => posture.method === method && posture.path === path)!;
+
+        expect(route('POST', '/api/projects')).toEqual({
+            method: 'POST',
+            path: '/api/projects',
+            preset: 'authenticated',
+            stream: false,
+            auth: { required: true, strategies: ['jwt'] },
+            roles: [],
+            permissions: ['projects:write'],
+            csrf: true,
+            rateLimit: { maxRequests: 200, windowMs: 60000, customKey: true },
+            cache: null,
+            idempotency: true,
+            audit: { enabled: true, trackDataChanges: true, captureRequestBody: false, captureResponseBody: false },
+            timeout: 30000,
+        });
+        expect(route('GET', '/api/projects')).toMatchObject({ csrf: null, idempotency: null, cache: { ttl: 60, customKey: false } });
+        expect(route('DELETE', '/api/projects/:id')).toMatchObject({
+            preset: 'highSecurity',
+            auth: { required: true, strategies: ['api_key'] },
+            csrf: false,
+            timeout: 15000,
+        });
+        expect(route('GET', '/api/events')).toMatchObject({ stream: true, timeout: null });
+    });
+
+    it('should answer which state-changing routes skip CSRF', () => {
+        const unprotected = describeSecurityPosture()
+            .filter(posture => posture.csrf === false)
+            .map(posture => `${posture.method} ${posture.path}`);
+
+        expect(unprotected).toEqual(['DELETE /api/projects/:id', 'POST /api/webhooks']);
+    });
+
+    it('should render one stable line per route', () => {
+        const report = formatSecurityPostureReport(describeSecurityPosture());
+
+        expect(report.split('\n')).toContain(
+            'POST /api/webhooks preset=public auth=none roles=- permissions=- csrf=off '
+            + 'rate-limit=100/60000ms,custom-key cache=- idempotency=on audit=on timeout=30000ms'
+        );
+        expect(report).toBe(formatSecurityPostureReport(describeSecurityPosture()));
+    });
+
+    it('should serve the posture to superadmins only', async () => {
+        const posture = createSecurityPostureHandler();
+
+        const admin = await invokeHandler(posture, { path: '/admin/security-posture', user: mockUser({ role: 'superadmin' }) });
+        const user = await invokeHandler(posture, { path: '/admin/security-posture', user: mockUser() });
+
+        expect(admin.status).toBe(200);
+        expect(admin.body.data.routes).toHaveLength(5);
+        expect(admin.body.data.report).toBe(formatSecurityPostureReport(describeSecurityPosture()));
+        expect(user.status).toBe(403);
+    });
+
+    it('should describe the routes of an app with its own registry', async () => {
+        const app = createApp({
+            cache: { provider: 'memory' },
+            services: { authManager: { authenticate: async () => mockUser({ role: 'superadmin' }) } },
+        });
+        const router = Router();
+        router.post('/orders', app.createAuthenticatedHandler({ csrfProtection: false, handler }));
+        app.mountRouter(express(), '/partner', router);
+        const posture = createSecurityPostureHandler({ app });
+
+        const result = await invokeHandler(posture, { path: '/admin/security-posture' });
+        app.shutdown();
+
+        expect(describeSecurityPosture(app.routes).map(route => `${route.method} ${route.path}`)).toEqual(['POST /partner/orders']);
+        expect(result.status).toBe(200);
+        expect(result.body.data.routes).toEqual(describeSecurityPosture(app.routes));
+    });
+});
@@ -0,0 +1,47 @@
+/**
+ * Rate Limiting Unit Tests
+ */
+
+import { createApp } from '../../../src/core/app';
+import { RedisRateLimiter } from '../../../src/security/rate-limiting';
+import { InMemoryRateLimiter, invokeHandler } from '../../../src/testing';
+
+jest.mock('@prisma/client', () => ({
+    PrismaClient: class PrismaClient { },
+    Prisma: { defineExtension: (extension: unknown) => extension },
+}));
+
+// A client that never connects: the limiter falls back to memory
+jest.mock('redis', () => ({
+    createClient: () => ({ on: jest.fn() }),
+}));
+
+const config = { maxRequests: 2, windowMs: 60000 };
+
+describe('Rate limiting', () => {
+    it('should count each request handled by the pipeline while Redis is unavailable', async () => {
+        const app = createApp({ services: { rateLimiter: RedisRateLimiter.getInstance() } });
+        const handler = app.createPublicHandler({ rateLimit: config, handler: async () => ({ ok: true }) });
+
+        const statuses: number[] = [];
+        for (let i = 0; i < 3; i++) {
+            statuses.push((await invokeHandler(handler, { path: '/reports' })).status);
+        }
+
+        expect(statuses).toEqual([200, 200, 429]);
+    });
+
+    it.each([
+        ['RedisRateLimiter', () => RedisRateLimiter.getInstance()],
+        ['InMemoryRateLimiter', () => new InMemoryRateLimiter()],
+    ])('%s should count in checkLimit only', async (name, create) => {
+        const limiter = create();
+        const key = `count-only:${name}`;
+
+        await limiter.getLimitInfo(key, config);
+        expect(await limiter.checkLimit(key, config)).toBe(true);
+        expect((await limiter.getLimitInfo(key, config)).remaining).toBe(1);
+        expect(await limiter.checkLimit(key, config)).toBe(true);
+        expect(await limiter.checkLimit(key, config)).toBe(false);
+    });
+});
@@ -0,0 +1,62 @@
+/**
+ * Fake Prisma Unit Tests
+ */
+
+import { createFakePrisma } from '../../../src/testing/fake-prisma';
+
+describe('Fake Prisma', () => {
+    const seed = {
+        task: [
+            { id: 't_1', title: 'Write docs', priority: 2, due: new Date('2024-03-01'), done: false },
+            { id: 't_2', title: 'Fix bug', priority: 1, due: new Date('2024-02-01'), done: true },
+            { id: 't_3', title: 'Ship', priority: 3, due: null, done: false },
+        ],
+    };
+
+    it('should filter, order and page rows', async () => {
+        const prisma = createFakePrisma(seed);
+
+        const open = await prisma.task.findMany({
+            where: { done: false, OR: [{ priority: { gte: 3 } }, { title: { contains: 'DOCS', mode: 'insensitive' } }] },
+            orderBy: { priority: 'desc' },
+            select: { id: true },
+        });
+        expect(open).toEqual([{ id: 't_3' }, { id: 't_1' }]);
+
+        const page = await prisma.task.findMany({ orderBy: [{ due: 'asc' }], skip: 1, take: 1 });
+        expect(page.map((task: any) => task.id)).toEqual(['t_2']);
+
+        expect(await prisma.task.count({ where: { due: { lt: new Date('2024-02-15') } } })).toBe(1);
+        expect(await prisma.task.findFirst({ where: { id: { in: ['t_9'] } } })).toBeNull();
+    });
+
+    it('should write without leaking references to stored rows', async () => {
+        const prisma = createFakePrisma(seed);
+
+        const created = await prisma.task.create({ data: { title: 'New', priority: 1 } });
+        created.title = 'Changed outside';
+        await prisma.task.update({ where: { id: 't_1' }, data: { priority: { increment: 5 } } });
+        await prisma.task.deleteMany({ where: { done: true } });
+
+        expect(prisma.$data.task!.map(task => [task.title, task.priority])).toEqual([
+            ['Write docs', 7],
+            ['Ship', 3],
+            ['New', 1],
+        ]);
+        expect(seed.task[0]!.priority).toBe(2);
+        await expect(prisma.task.update({ where: { id: 't_2' }, data: {} })).rejects.toMatchObject({ code: 'P2025' });
+    });
+
+    it('should run query extensions around operations', async () => {
+        const prisma = createFakePrisma(seed).$extends({
+            query: {
+                $allModels: {
+                    findMany: ({ args, query }: any) => query({ ...args, where: { ...args.where, done: true } }),
+                },
+            },
+        });
+
+        expect((await prisma.task.findMany()).map((task: any) => task.id)).toEqual(['t_2']);
+        expect(await prisma.task.count()).toBe(3);
+    });
+});
@@ -0,0 +1,105 @@
+/**
+ * Handler Test Harness Unit Tests
+ */
+
+import { z } from 'zod';
+import { mockTenant, mockUser } from '../../utils/test-helpers';
+import { createAuthenticatedHandler, createPublicHandler, createTenantHandler } from '../../../src/core/handler';
+import { createTestServices, invokeHandler } from '../../../src/testing';
+
+jest.mock('@prisma/client', () => ({
+    PrismaClient: class PrismaClient { },
+    Prisma: { defineExtension: (extension: unknown) => extension },
+}));
+
+describe('invokeHandler', () => {
+    const listProjects = createPublicHandler({
+        handler: async ({ prisma }) => prisma.project.findMany({ orderBy: { name: 'asc' } }),
+    });
+
+    const createProject = createAuthenticatedHandler({
+        schema: z.object({ name: z.string() }),
+        rateLimit: { maxRequests: 1, windowMs: 60000 },
+        handler: async ({ input, user, prisma }) => prisma.project.create({
+            data: { name: input.name, ownerId: user!.id },
+        }),
+    });
+
+    it('should run a handler against the fake database and return the parsed response', async () => {
+        const services = createTestServices({
+            data: { project: [{ id: 'p_2', name: 'Beta' }, { id: 'p_1', name: 'Alpha' }] },
+        });
+
+        const result = await invokeHandler(listProjects, { path: '/projects', services });
+
+        expect(result.status).toBe(200);
+        expect(result.body.data).toEqual([{ id: 'p_1', name: 'Alpha' }, { id: 'p_2', name: 'Beta' }]);
+        expect(result.headers['x-request-id']).toBe(result.body.meta?.requestId);
+        expect(result.headers['etag']).toBeDefined();
+    });
+
+    it('should authenticate as the given user and send a valid CSRF token', async () => {
+        const user = mockUser({ id: 'user-1' });
+
+        const result = await invokeHandler(createProject, { method: 'POST', path: '/projects', body: { name: 'Launch' }, user });
+
+        expect(result.status).toBe(200);
+        expect(result.body.data).toMatchObject({ name: 'Launch', ownerId: 'user-1' });
+        expect(result.services.prisma.$data.project).toHaveLength(1);
+        expect(result.auditEvents.map(event => event.action)).toContain('auth.login');
+        expect(result.auditEvents.every(event => event.requestId === result.body.meta?.requestId)).toBe(true);
+        expect(result.metrics.map(metric => metric.name)).toContain('csrf.valid');
+    });
+
+    it('should reject missing users and CSRF tokens', async () => {
+        const anonymous = await invokeHandler(createProject, { method: 'POST', body: { name: 'Launch' } });
+        expect(anonymous.status).toBe(401);
+        expect(anonymous.auditEvents[0]).toMatchObject({ action: 'auth.login_failed', status: 'FAILURE' });
+
+        const withoutToken = await invokeHandler(createProject, { method: 'POST', body: { name: 'Launch' }, user: mockUser(), csrf: false });
+        expect(withoutToken.status).toBe(403);
+    });
+
+    it('should keep rate limits across calls sharing services', async () => {
+        const services = createTestServices();
+        const options = { method: 'POST' as const, path: '/projects', body: { name: 'Launch' }, user: mockUser(), services };
+
+        expect((await invokeHandler(createProject, options)).status).toBe(200);
+
+        const limited = await invokeHandler(createProject, options);
+        expect(limited.status).toBe(429);
+        expect(limited.headers['x-ratelimit-remaining']).toBe('0');
+        expect(limited.metrics.map(metric => metric.name)).toContain('rate_limit.exceeded');
+    });
+
+    it('should scope queries to the tenant', async () => {
+        const listTenantProjects = createTenantHandler({
+            handler: async ({ prisma }) => prisma.project.findMany(),
+        });
+        const services = createTestServices({
+            data: {
+                project: [
+                    { id: 'p_1', name: 'Ours', tenantId: 'tenant-1' },
+                    { id: 'p_2', name: 'Theirs', tenantId: 'tenant-2' },
+                ],
+            },
+        });
+
+        const result = await invokeHandler(listTenantProjects, {
+            user: mockUser(),
+            tenant: mockTenant({ id: 'tenant-1' }),
+            services,
+        });
+
+        expect(result.status).toBe(200);
+        expect(result.body.data).toEqual([{ id: 'p_1', name: 'Ours', tenantId: 'tenant-1' }]);
+    });
+
+    it('should honour disabled feature flags', async () => {
+        const handler = createPublicHandler({ featureFlags: ['reports'], handler: async () => ({}) });
+
+        const result = await invokeHandler(handler, { services: createTestServices({ featureFlags: { reports: false } }) });
+
+        expect(result.status).toBe(503);
+    });
+});
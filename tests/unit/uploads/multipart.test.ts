@@ -0,0 +1,162 @@
+/**
+ * Multipart Upload Unit Tests
+ */
+
+import { Readable } from 'stream';
+import { parseMultipart, storeUploads } from '../../../src/uploads/multipart';
+import { detectMimeType, resolveMimeType } from '../../../src/uploads/file-type';
+import { UploadConfig, StorageAdapter } from '../../../src/core/types';
+
+const BOUNDARY = 'tenet-test-boundary';
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x01]);
+
+interface Part {
+    name: string;
+    value: string | Buffer;
+    filename?: string;
+    contentType?: string;
+}
+
+/**
+ * Build a request stream carrying a multipart/form-data body
+ */
+const multipartRequest = (parts: Part[]): any => {
+    const chunks: Buffer[] = [];
+    for (const part of parts) {
+        const disposition = part.filename !== undefined
+            ? `form-data; name="${part.name}"; filename="${part.filename}"`
+            : `form-data; name="${part.name}"`;
+        chunks.push(Buffer.from(
+            `--${BOUNDARY}\r\nContent-Disposition: ${disposition}\r\n` +
+            (part.contentType ? `Content-Type: ${part.contentType}\r\n` : '') +
+            '\r\n'
+        ));
+        chunks.push(Buffer.isBuffer(part.value) ? part.value : Buffer.from(part.value));
+        chunks.push(Buffer.from('\r\n'));
+    }
+    chunks.push(Buffer.from(`--${BOUNDARY}--\r\n`));
+
+    const req: any = Readable.from([Buffer.concat(chunks)]);
+    req.headers = { 'content-type': `multipart/form-data; boundary=${BOUNDARY}` };
+    return req;
+};
+
+describe('Multipart Uploads', () => {
+    const config: UploadConfig = {
+        fields: {
+            avatar: {
+                maxFileSize: 1024,
+                allowedMimeTypes: ['image/png', 'image/jpeg'],
+                allowedExtensions: ['png', 'jpg'],
+                required: true,
+            },
+        },
+    };
+
+    describe('file type detection', () => {
+        it('should detect types from magic bytes', () => {
+            expect(detectMimeType(PNG)).toBe('image/png');
+            expect(detectMimeType(Buffer.from('%PDF-1.7'))).toBe('application/pdf');
+            expect(detectMimeType(Buffer.from('hello'))).toBeUndefined();
+        });
+
+        it('should reject content that does not match the declared type', () => {
+            expect(resolveMimeType(Buffer.from('MZ\x90\x00'), 'image/png')).toBeUndefined();
+            expect(resolveMimeType(Buffer.from('a,b\n1,2'), 'text/csv')).toBe('text/csv');
+            expect(resolveMimeType(Buffer.from('not a png'), 'image/png')).toBeUndefined();
+        });
+    });
+
+    it('should parse files and text fields', async () => {
+        const result = await parseMultipart(multipartRequest([
+            { name: 'title', value: 'Profile picture' },
+            { name: 'avatar', value: PNG, filename: 'C:\\Users\\me\\me.png', contentType: 'image/png' },
+        ]), config);
+
+        expect(result.rejection).toBeUndefined();
+        expect(result.fields).toEqual({ title: 'Profile picture' });
+        expect(result.files.avatar).toHaveLength(1);
+        expect(result.files.avatar![0]).toEqual(expect.objectContaining({
+            originalName: 'me.png',
+            mimeType: 'image/png',
+            size: PNG.length,
+        }));
+    });
+
+    it('should reject files whose content is not the declared type', async () => {
+        const result = await parseMultipart(multipartRequest([
+            { name: 'avatar', value: Buffer.from('MZ\x90\x00payload'), filename: 'cat.png', contentType: 'image/png' },
+        ]), config);
+
+        expect(result.rejection).toEqual(expect.objectContaining({
+            statusCode: 415,
+            code: 'UNSUPPORTED_MEDIA_TYPE',
+            field: 'avatar',
+        }));
+    });
+
+    it('should reject files over the field size limit', async () => {
+        const oversized = Buffer.concat([PNG, Buffer.alloc(2048)]);
+        const result = await parseMultipart(multipartRequest([
+            { name: 'avatar', value: oversized, filename: 'big.png', contentType: 'image/png' },
+        ]), config);
+
+        expect(result.rejection).toEqual(expect.objectContaining({ statusCode: 413, code: 'PAYLOAD_TOO_LARGE' }));
+    });
+
+    it('should reject unexpected fields and missing required files', async () => {
+        const unexpected = await parseMultipart(multipartRequest([
+            { name: 'other', value: PNG, filename: 'x.png', contentType: 'image/png' },
+        ]), config);
+        expect(unexpected.rejection?.message).toBe('Unexpected file field: other');
+
+        const missing = await parseMultipart(multipartRequest([
+            { name: 'title', value: 'no file' },
+        ]), config);
+        expect(missing.rejection?.message).toBe('Missing required file: avatar');
+    });
+
+    it('should encrypt files before handing them to the storage adapter', async () => {
+        const storage: StorageAdapter = {
+            save: jest.fn().mockImplementation(async (key: string) => key),
+            read: jest.fn(),
+            delete: jest.fn(),
+        };
+        const encryptionService: any = {
+            encryptFile: jest.fn().mockResolvedValue(Buffer.from('ciphertext')),
+        };
+        const { files } = await parseMultipart(multipartRequest([
+            { name: 'avatar', value: PNG, filename: 'me.png', contentType: 'image/png' },
+        ]), config);
+
+        await storeUploads(files, { ...config, storage, encrypt: true }, encryptionService);
+
+        expect(encryptionService.encryptFile).toHaveBeenCalledWith(PNG);
+        expect(storage.save).toHaveBeenCalledWith(
+            expect.stringMatching(/^[0-9a-f-]{36}\.png$/),
+            Buffer.from('ciphertext'),
+            expect.objectContaining({ originalName: 'me.png', encrypted: true })
+        );
+        expect(files.avatar![0]).toEqual(expect.objectContaining({ encrypted: true, storageKey: expect.any(String) }));
+    });
+
+    it('should name stored files after the checked type, not the client\'s filename', async () => {
+        const storage: StorageAdapter = {
+            save: jest.fn().mockImplementation(async (key: string) => key),
+            read: jest.fn(),
+            delete: jest.fn(),
+        };
+        const anyName: UploadConfig = { fields: { avatar: { allowedMimeTypes: ['image/png'] } } };
+        const { files } = await parseMultipart(multipartRequest([
+            { name: 'avatar', value: PNG, filename: 'x.html', contentType: 'image/png' },
+        ]), anyName);
+
+        await storeUploads(files, { ...anyName, storage }, {} as any);
+
+        expect(storage.save).toHaveBeenCalledWith(
+            expect.stringMatching(/^[0-9a-f-]{36}\.png$/),
+            PNG,
+            expect.objectContaining({ originalName: 'x.html' })
+        );
+    });
+});
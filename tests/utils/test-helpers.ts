@@ -33,12 +33,18 @@ export const mockRequest = (overrides: Partial<Request> = {}): Partial<Request>
  * Mock Express Response
  */
 export const mockResponse = (): Partial<Response> => {
-    const res: any = {};
+    const res: any = { locals: {} };
     res.status = jest.fn().mockReturnValue(res);
     res.json = jest.fn().mockReturnValue(res);
     res.send = jest.fn().mockReturnValue(res);
+    res.end = jest.fn().mockReturnValue(res);
     res.set = jest.fn().mockReturnValue(res);
     res.header = jest.fn().mockReturnValue(res);
+    res.setHeader = jest.fn().mockReturnValue(res);
+    res.type = jest.fn().mockReturnValue(res);
+    res.vary = jest.fn().mockReturnValue(res);
+    res.on = jest.fn().mockReturnValue(res);
+    res.off = jest.fn().mockReturnValue(res);
     return res;
 };
 